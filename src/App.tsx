@@ -11,6 +11,7 @@ import { useStore } from './store';
 const MapView = lazy(() => import('./components/map/MapView'));
 const SpectrumView = lazy(() => import('./components/spectrum/SpectrumView'));
 const TimelineView = lazy(() => import('./components/timeline/TimelineView'));
+const OccupancyView = lazy(() => import('./components/spectrum/OccupancyView'));
 
 function Spinner() {
   return (
@@ -35,6 +36,7 @@ function MainContent() {
         {view === 'map' && <MapView />}
         {view === 'spectrum' && <SpectrumView />}
         {view === 'timeline' && <TimelineView />}
+        {view === 'occupancy' && <OccupancyView />}
       </Suspense>
       {view === 'map' && (
         <>
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { ImageOverlay } from 'react-leaflet';
+import { useStore } from '../../store';
+import { coverageToDataUrl } from '../../utils/coverage';
+
+/** Coverage raster for the 2D map */
+export default function CoverageLayer() {
+  const result = useStore(s => s.coverage?.result);
+  const url = useMemo(() => (result ? coverageToDataUrl(result) : null), [result]);
+  if (!result || !url) return null;
+
+  return (
+    <ImageOverlay
+      url={url}
+      bounds={[[result.south, result.west], [result.north, result.east]]}
+      opacity={0.7}
+    />
+  );
+}
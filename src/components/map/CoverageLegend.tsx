@@ -0,0 +1,34 @@
+import { useStore } from '../../store';
+import { linkQuality } from '../../utils/linkBudget';
+
+const STEPS = [25, 15, 5, 1];
+
+/** Legend for the coverage raster — margin over the counterpart radio's sensitivity */
+export default function CoverageLegend() {
+  const coverage = useStore(s => s.coverage);
+  const nodes = useStore(s => s.nodes);
+  if (!coverage || coverage.status === 'error') return null;
+
+  const node = nodes.find(n => n.id === coverage.request.nodeId);
+
+  return (
+    <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-[1000] bg-gray-900/90 border border-white/20 rounded px-3 py-1.5 text-[10px] text-gray-300 flex items-center gap-3">
+      <span className="font-semibold">
+        Täckning {node?.label} · {coverage.request.frequencyMhz} MHz · {coverage.request.txPowerW} W
+      </span>
+      {coverage.status === 'computing' ? (
+        <span className="text-gray-500">Beräknar…</span>
+      ) : (
+        STEPS.map(m => {
+          const q = linkQuality(m);
+          return (
+            <span key={m} className="flex items-center gap-1">
+              <span className="w-2.5 h-2.5 rounded-sm" style={{ background: q.color }} />
+              {q.label}
+            </span>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import { FolderOpen, Mountain, X } from 'lucide-react';
+import { useStore } from '../../store';
+import { FLAT_ELEVATION } from '../../utils/terrain';
+
+/**
+ * Loads local DEM files (terrarium PNG tiles / GeoTIFF) into the propagation
+ * model, picked one by one or as a whole z/x/y tile directory
+ */
+export default function DemControl() {
+  const elevationSource = useStore(s => s.elevationSource);
+  const loadDem = useStore(s => s.loadDem);
+  const clearDem = useStore(s => s.clearDem);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const dirRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loaded = elevationSource !== FLAT_ELEVATION;
+
+  const handleFiles = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await loadDem([...list]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = '';
+      if (dirRef.current) dirRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="absolute top-3 right-16 z-[1000] flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold shadow-lg border border-white/20 backdrop-blur-sm select-none"
+        style={{ background: loaded ? '#166534' : 'rgba(30,40,30,0.85)', color: 'white' }}
+      >
+        <button
+          onClick={() => inputRef.current?.click()}
+          className="flex items-center gap-1.5"
+          title={`Höjddata: ${elevationSource.name}`}
+          disabled={busy}
+        >
+          <Mountain size={12} />
+          {busy ? 'Läser…' : loaded ? elevationSource.name : 'DEM'}
+        </button>
+        <button
+          onClick={() => dirRef.current?.click()}
+          className="text-white/60 hover:text-white"
+          title="Läs in en tilekatalog (z/x/y.png)"
+          disabled={busy}
+        >
+          <FolderOpen size={11} />
+        </button>
+        {loaded && (
+          <button onClick={clearDem} className="text-white/60 hover:text-white" title="Ta bort höjddata">
+            <X size={11} />
+          </button>
+        )}
+      </div>
+      {error && (
+        <div className="text-[10px] bg-red-900/80 text-red-200 px-2 py-1 rounded max-w-[220px]">{error}</div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept=".png,.tif,.tiff"
+        className="hidden"
+        onChange={e => handleFiles(e.target.files)}
+      />
+      <input
+        ref={el => {
+          dirRef.current = el;
+          if (el) el.webkitdirectory = true;
+        }}
+        type="file"
+        className="hidden"
+        onChange={e => handleFiles(e.target.files)}
+      />
+    </div>
+  );
+}
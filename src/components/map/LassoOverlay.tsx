@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState } from 'react';
+import { Polygon, useMap, useMapEvents } from 'react-leaflet';
+import type { LatLng, RadioNode } from '../../types';
+import { insidePolygon } from '../../utils/geo';
+
+interface Props {
+  nodes: RadioNode[];
+  onSelect: (nodeIds: string[]) => void;
+  onCancel: () => void;
+}
+
+/** Freehand lasso: panning is off while it is active, and the nodes inside a drawn loop are handed over on release */
+export default function LassoOverlay({ nodes, onSelect, onCancel }: Props) {
+  const map = useMap();
+  const [path, setPath] = useState<LatLng[]>([]);
+  const drawing = useRef<LatLng[] | null>(null);
+
+  useEffect(() => {
+    map.dragging.disable();
+    const container = map.getContainer();
+    container.style.cursor = 'crosshair';
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onCancel(); };
+    window.addEventListener('keydown', onKey);
+    return () => {
+      map.dragging.enable();
+      container.style.cursor = '';
+      window.removeEventListener('keydown', onKey);
+    };
+  }, [map, onCancel]);
+
+  useMapEvents({
+    mousedown: (e) => {
+      drawing.current = [{ lat: e.latlng.lat, lng: e.latlng.lng }];
+      setPath(drawing.current);
+    },
+    mousemove: (e) => {
+      if (!drawing.current) return;
+      drawing.current = [...drawing.current, { lat: e.latlng.lat, lng: e.latlng.lng }];
+      setPath(drawing.current);
+    },
+    mouseup: () => {
+      const loop = drawing.current;
+      drawing.current = null;
+      setPath([]);
+      if (!loop || loop.length < 3) return;
+      onSelect(nodes.filter(n => insidePolygon(n.position, loop)).map(n => n.id));
+    },
+  });
+
+  if (path.length < 2) return null;
+  return (
+    <Polygon
+      positions={path.map(p => [p.lat, p.lng] as [number, number])}
+      pathOptions={{ color: '#facc15', weight: 1.5, dashArray: '4 4', fillOpacity: 0.1 }}
+      interactive={false}
+    />
+  );
+}
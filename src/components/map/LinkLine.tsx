@@ -1,7 +1,7 @@
 import { Polyline, Tooltip } from 'react-leaflet';
 import type { RadioLink, RadioNode } from '../../types';
 import { useStore } from '../../store';
-import { linkQuality } from '../../utils/linkBudget';
+import { linkQuality, limitingBudget } from '../../utils/linkBudget';
 
 interface Props {
   link: RadioLink;
@@ -32,7 +32,8 @@ export default function LinkLine({ link, fromNode, toNode, selected, hovered }:
   const hoverLink = useStore(s => s.hoverLink);
 
   const budget = link.linkBudget;
-  const quality = budget ? linkQuality(budget.linkMarginDb) : null;
+  const worst = budget && limitingBudget(budget);
+  const quality = worst ? linkQuality(worst.effectiveMarginDb) : null;
   const color = quality?.color ?? NET_COLOR[link.netType] ?? '#6b7280';
   const weight = selected ? 5 : hovered ? 4 : 2.5;
   const dashArray = STATUS_DASH[link.status] ?? '';
@@ -69,8 +70,13 @@ export default function LinkLine({ link, fromNode, toNode, selected, hovered }:
               <>
                 <div>Avstånd: {budget.distanceKm.toFixed(1)} km</div>
                 <div style={{ color: quality?.color }}>
-                  Marginal: {budget.linkMarginDb.toFixed(1)} dB ({quality?.label})
+                  Marginal: {budget.effectiveMarginDb.toFixed(1)}
+                  {budget.reverse && ` / ${budget.reverse.effectiveMarginDb.toFixed(1)}`} dB ({quality?.label})
                 </div>
+                {budget.limitingDirection === 'REVERSE' && (
+                  <div className="text-orange-300">Begränsas av svarsriktningen {toNode.label} → {fromNode.label}</div>
+                )}
+                {budget.ciDb !== undefined && <div>C/I: {budget.ciDb.toFixed(1)} dB</div>}
               </>
             )}
           </div>
@@ -3,6 +3,7 @@ import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { useStore } from '../../store';
 import type { RadioNode } from '../../types';
+import { coverageToDataUrl } from '../../utils/coverage';
 
 const NET_COLOR: Record<string, string> = {
   COMMAND: '#ef4444',
@@ -61,11 +62,34 @@ export default function Map3DView() {
   const selectedNodeId = useStore(s => s.selectedNodeId);
   const selectNode = useStore(s => s.selectNode);
   const selectLink = useStore(s => s.selectLink);
+  const coverageResult = useStore(s => s.coverage?.result);
 
   const nodesRef = useRef(nodes);
   const linksRef = useRef(links);
+  const coverageRef = useRef(coverageResult);
   nodesRef.current = nodes;
   linksRef.current = links;
+  coverageRef.current = coverageResult;
+
+  const updateCoverage = () => {
+    const map = mapRef.current;
+    if (!map || !loadedRef.current) return;
+    if (map.getLayer('coverage')) map.removeLayer('coverage');
+    if (map.getSource('coverage')) map.removeSource('coverage');
+    const result = coverageRef.current;
+    if (!result) return;
+    map.addSource('coverage', {
+      type: 'image',
+      url: coverageToDataUrl(result),
+      coordinates: [
+        [result.west, result.north],
+        [result.east, result.north],
+        [result.east, result.south],
+        [result.west, result.south],
+      ],
+    });
+    map.addLayer({ id: 'coverage', type: 'raster', source: 'coverage', paint: { 'raster-opacity': 0.7 } }, 'links-glow');
+  };
 
   const updateLinks = () => {
     const map = mapRef.current;
@@ -214,6 +238,7 @@ export default function Map3DView() {
 
       loadedRef.current = true;
       updateLinks();
+      updateCoverage();
     });
 
     map.on('click', () => { selectNode(null); selectLink(null); });
@@ -234,6 +259,9 @@ export default function Map3DView() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   useEffect(updateLinks, [links, nodes]);
 
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  useEffect(updateCoverage, [coverageResult]);
+
   // Sync node markers
   useEffect(() => {
     const map = mapRef.current;
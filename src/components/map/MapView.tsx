@@ -5,6 +5,12 @@ import { useStore } from '../../store';
 import NodeMarker from './NodeMarker';
 import LinkLine from './LinkLine';
 import PlanningOverlay from './PlanningOverlay';
+import LassoOverlay from './LassoOverlay';
+import DemControl from './DemControl';
+import CoverageLayer from './CoverageLayer';
+import CoverageLegend from './CoverageLegend';
+import RelayLayer from './RelayLayer';
+import { nodeCanJoinNet, planDefaults } from '../../utils/validation';
 
 const Map3DView = lazy(() => import('./Map3DView'));
 
@@ -53,6 +59,7 @@ function FitBounds({ nodes }: MapBoundsProps) {
 
 export default function MapView() {
   const [is3D, setIs3D] = useState(false);
+  const [planError, setPlanError] = useState<string | null>(null);
   const nodes = useStore(s => s.nodes);
   const links = useStore(s => s.links);
   const selectedNodeId = useStore(s => s.selectedNodeId);
@@ -62,6 +69,9 @@ export default function MapView() {
   const addLink = useStore(s => s.addLink);
   const selectLink = useStore(s => s.selectLink);
   const setPlanningFrom = useStore(s => s.setPlanningFrom);
+  const lassoNet = useStore(s => s.nets.find(n => n.id === s.lassoNetId));
+  const updateNet = useStore(s => s.updateNet);
+  const setLassoNet = useStore(s => s.setLassoNet);
 
   const nodeMap = new Map(nodes.map(n => [n.id, n]));
 
@@ -72,8 +82,13 @@ export default function MapView() {
     const toNode = nodeMap.get(toNodeId);
     if (!fromNode || !toNode) return;
 
-    const fromEquip = fromNode.equipment[0];
-    const toEquip = toNode.equipment[0];
+    // Radios both nodes can work each other with, on a channel inside their common band
+    const plan = planDefaults(fromNode.equipment, toNode.equipment);
+    if (!plan) {
+      setPlanError(`${fromNode.label} och ${toNode.label} saknar radio med gemensamt band och modulering.`);
+      return;
+    }
+    setPlanError(null);
 
     addLink({
       name: `${fromNode.label} → ${toNode.label}`,
@@ -81,12 +96,10 @@ export default function MapView() {
       netType: 'COMMAND',
       fromNodeId: planningFromNodeId,
       toNodeId,
-      equipmentFromId: fromEquip?.id,
-      equipmentToId: toEquip?.id,
-      frequencyMhz: fromEquip?.freqMin ?? 45.0,
-      bandwidthKhz: 25,
-      waveform: 'FM',
-      txPowerW: fromEquip?.maxPowerW ?? 20,
+      equipmentFromId: plan.fromEquip.id,
+      equipmentToId: plan.toEquip.id,
+      ...plan.link,
+      txPowerW: plan.fromEquip.maxPowerW,
       startTime: new Date().toISOString(),
       endTime: new Date(Date.now() + 24 * 3600000).toISOString(),
       status: 'planned',
@@ -94,6 +107,20 @@ export default function MapView() {
     setPlanningFrom(null);
   }, [planningFromNodeId, nodeMap, addLink, setPlanningFrom]);
 
+  // Nodes lassoed for a net join it when one of their radios can work its channel
+  const handleLasso = useCallback((nodeIds: string[]) => {
+    if (!lassoNet) return;
+    const fresh = nodeIds.flatMap(id => lassoNet.memberNodeIds.includes(id) ? [] : nodeMap.get(id) ?? []);
+    const joining = fresh.filter(n => nodeCanJoinNet(n, lassoNet));
+    const left = fresh.filter(n => !joining.includes(n));
+    if (joining.length > 0) updateNet(lassoNet.id, { memberNodeIds: [...lassoNet.memberNodeIds, ...joining.map(n => n.id)] });
+    setPlanError(left.length > 0
+      ? `${left.map(n => n.label).join(', ')} saknar radio för ${lassoNet.primaryFreqMhz} MHz ${lassoNet.waveform} och lades inte till i ${lassoNet.name}.`
+      : null);
+    setLassoNet(null);
+  }, [lassoNet, nodeMap, updateNet, setLassoNet]);
+  const cancelLasso = useCallback(() => setLassoNet(null), [setLassoNet]);
+
   const toggle = (
     <button
       onClick={() => setIs3D(v => !v)}
@@ -112,6 +139,8 @@ export default function MapView() {
           <Map3DView />
         </Suspense>
         {toggle}
+        <DemControl />
+        <CoverageLegend />
       </div>
     );
   }
@@ -119,6 +148,23 @@ export default function MapView() {
   return (
     <div style={{ height: '100%', width: '100%', position: 'relative' }}>
     {toggle}
+    <DemControl />
+    <CoverageLegend />
+    {planError && (
+      <button
+        onClick={() => setPlanError(null)}
+        className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] px-3 py-1.5 rounded bg-red-900/90 border border-red-500/40 text-xs text-red-200 shadow-lg"
+        title="Stäng"
+      >
+        {planError}
+      </button>
+    )}
+    {lassoNet && (
+      <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[1000] px-3 py-1.5 rounded bg-yellow-900/90 border border-yellow-500/40 text-xs text-yellow-100 shadow-lg flex items-center gap-2">
+        Ring in enheter som ska gå med i {lassoNet.name}
+        <button onClick={cancelLasso} className="text-yellow-300 hover:text-white" title="Esc">Avbryt</button>
+      </div>
+    )}
     <MapContainer
       center={[59.33, 18.07]}
       zoom={11}
@@ -133,6 +179,7 @@ export default function MapView() {
       <ZoomControl position="bottomright" />
       <MapClickHandler />
       <FitBounds nodes={nodes} />
+      <CoverageLayer />
 
       {/* Radio links */}
       {links.map(link => {
@@ -162,6 +209,8 @@ export default function MapView() {
         />
       ))}
 
+      <RelayLayer />
+
       {/* Planning overlay – click handling */}
       {planningFromNodeId && (
         <PlanningOverlay
@@ -170,6 +219,8 @@ export default function MapView() {
           onSelect={handleNodeClickForPlanning}
         />
       )}
+
+      {lassoNet && <LassoOverlay nodes={nodes} onSelect={handleLasso} onCancel={cancelLasso} />}
     </MapContainer>
     </div>
   );
@@ -3,6 +3,7 @@ import { Marker, Tooltip } from 'react-leaflet';
 import L from 'leaflet';
 import type { RadioNode } from '../../types';
 import { useStore } from '../../store';
+import { beamwidthDeg } from '../../utils/antenna';
 
 interface Props {
   node: RadioNode;
@@ -16,11 +17,38 @@ const TYPE_SYMBOL: Record<string, string> = {
   ENG: '⬡', LOG: '□', SIGNAL: '◈', RECON: '◇',
 };
 
+const LOBE_R = 55;
+
+/** SVG wedges showing the main lobe of every directional antenna on the node */
+function lobeSvg(node: RadioNode): string {
+  const wedges = node.equipment.flatMap(eq => {
+    if (!eq.antennaPattern) return [];
+    const az = eq.antennaAzimuthDeg ?? 0;
+    const half = Math.min(Math.max(beamwidthDeg(eq.antennaPattern), 10), 180) / 2;
+    const xy = (deg: number): [string, string] => {
+      const a = (deg * Math.PI) / 180;
+      return [(60 + LOBE_R * Math.sin(a)).toFixed(1), (60 - LOBE_R * Math.cos(a)).toFixed(1)];
+    };
+    const [x1, y1] = xy(az - half);
+    const [x2, y2] = xy(az + half);
+    const [bx, by] = xy(az);
+    const color = node.color ?? '#3b82f6';
+    return [
+      `<path d="M60,60 L${x1},${y1} A${LOBE_R},${LOBE_R} 0 0,1 ${x2},${y2} Z"
+        fill="${color}33" stroke="${color}" stroke-width="1.5"/>`,
+      `<line x1="60" y1="60" x2="${bx}" y2="${by}" stroke="white" stroke-width="1.5" stroke-dasharray="3 2"/>`,
+    ];
+  });
+  if (wedges.length === 0) return '';
+  return `<svg width="120" height="120" style="position:absolute;left:-42px;top:-42px;pointer-events:none;z-index:-1">${wedges.join('')}</svg>`;
+}
+
 function makeIcon(node: RadioNode, selected: boolean, planningFrom: boolean): L.DivIcon {
   const sym = TYPE_SYMBOL[node.type] ?? '●';
   const ring = selected ? `box-shadow:0 0 0 3px white,0 0 0 5px ${node.color ?? '#3b82f6'};` : '';
   const glow = planningFrom ? `box-shadow:0 0 0 4px #22c55e,0 0 12px #22c55e;` : ring;
   const html = `
+    ${lobeSvg(node)}
     <div style="
       background:${node.color ?? '#3b82f6'};
       color:white;
@@ -0,0 +1,32 @@
+import { CircleMarker, Tooltip } from 'react-leaflet';
+import { useStore } from '../../store';
+import { limitingBudget } from '../../utils/linkBudget';
+
+/** Ranked relay site suggestions for the link being searched; click one to insert it */
+export default function RelayLayer() {
+  const search = useStore(s => s.relaySearch);
+  const insertRelay = useStore(s => s.insertRelay);
+  if (!search) return null;
+
+  return (
+    <>
+      {search.suggestions.map((s, i) => (
+        <CircleMarker
+          key={`${s.position.lat},${s.position.lng}`}
+          center={[s.position.lat, s.position.lng]}
+          radius={i === 0 ? 9 : 7}
+          pathOptions={{ color: '#a855f7', weight: 2, fillColor: '#a855f7', fillOpacity: i === 0 ? 0.6 : 0.3 }}
+          eventHandlers={{ click: () => insertRelay(search.linkId, s) }}
+        >
+          <Tooltip direction="top">
+            <div className="text-xs">
+              <div className="font-semibold">Reläplats {i + 1}</div>
+              <div>Hopp 1: {limitingBudget(s.hop1).effectiveMarginDb.toFixed(1)} dB · Hopp 2: {limitingBudget(s.hop2).effectiveMarginDb.toFixed(1)} dB</div>
+              <div className="text-gray-500">Klicka för att infoga</div>
+            </div>
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+}
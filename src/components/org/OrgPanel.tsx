@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { ChevronDown, ChevronRight, Plus, Trash2, MapPin, Radio } from 'lucide-react';
+import { ChevronDown, ChevronRight, Plus, Trash2, MapPin, Radio, RadioTower } from 'lucide-react';
 import { useStore } from '../../store';
 import type { Unit, Vehicle } from '../../types';
 import AddUnitModal from './AddUnitModal';
@@ -12,6 +12,7 @@ function VehicleRow({ vehicle, unitColor }: { vehicle: Vehicle; unitColor: strin
   const selectNode = useStore(s => s.selectNode);
   const selectedNodeId = useStore(s => s.selectedNodeId);
   const setPlanningFrom = useStore(s => s.setPlanningFrom);
+  const updateVehicle = useStore(s => s.updateVehicle);
   const selected = vehicle.id === selectedNodeId;
 
   return (
@@ -40,6 +41,15 @@ function VehicleRow({ vehicle, unitColor }: { vehicle: Vehicle; unitColor: strin
         {vehicle.position && (
           <span title="Har position"><MapPin size={12} className="text-green-500" /></span>
         )}
+        {vehicle.mastHeightM !== undefined && (
+          <button
+            onClick={e => { e.stopPropagation(); updateVehicle(vehicle.id, { mastUp: !vehicle.mastUp }); }}
+            className={`p-0.5 ${vehicle.mastUp ? 'text-green-400' : 'text-gray-600 hover:text-gray-400'}`}
+            title={vehicle.mastUp ? `Mast uppe (${vehicle.mastHeightM} m) – fäll` : 'Mast nere – res'}
+          >
+            <RadioTower size={12} />
+          </button>
+        )}
         <button
           onClick={e => { e.stopPropagation(); setPlanningFrom(vehicle.id); }}
           className="text-blue-400 hover:text-blue-300 p-0.5"
@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { X } from 'lucide-react';
 import { useStore } from '../../store';
-import type { NetType, WaveformType } from '../../types';
+import type { NetType, RadioEquipment, WaveformType } from '../../types';
+import { hasErrors, pickCompatibleEquipment, validateLink } from '../../utils/validation';
+import { planViolations } from '../../utils/frequencyPlan';
 
 const WAVEFORMS: WaveformType[] = ['FM', 'AM', 'USB', 'LSB', 'WBFM', 'FSK', 'PSK', 'QAM'];
 const NET_TYPES: NetType[] = ['COMMAND', 'ADMIN_LOG', 'FIRE_SUPPORT', 'AIR', 'DATA', 'COORD'];
@@ -14,46 +16,101 @@ const NET_LABELS: Record<NetType, string> = {
   COORD: 'Samordningsnät',
 };
 
-interface Props { onClose: () => void }
+/** Fields to start from, e.g. a free slot picked in the frequency–time chart */
+export type AddLinkSeed = Partial<Pick<AddLinkForm, 'frequencyMhz' | 'bandwidthKhz' | 'waveform' | 'startTime' | 'endTime'>>;
 
-export default function AddLinkModal({ onClose }: Props) {
+interface Props {
+  onClose: () => void;
+  seed?: AddLinkSeed;
+}
+
+interface AddLinkForm {
+  name: string;
+  netName: string;
+  netType: NetType;
+  fromNodeId: string;
+  toNodeId: string;
+  frequencyMhz: number;
+  bandwidthKhz: number;
+  waveform: WaveformType;
+  txPowerW: number;
+  reverseTxPowerW: number | '';
+  equipmentFromId: string;
+  equipmentToId: string;
+  startTime: string;   // datetime-local value
+  endTime: string;
+  notes: string;
+  satelliteId: string;
+}
+
+export default function AddLinkModal({ onClose, seed }: Props) {
   const nodes = useStore(s => s.nodes);
   const addLink = useStore(s => s.addLink);
   const units = useStore(s => s.units);
+  const satellites = useStore(s => s.satellites);
+  const frequencyPlan = useStore(s => s.frequencyPlan);
 
-  const [form, setForm] = useState({
+  const [form, setForm] = useState<AddLinkForm>({
     name: '',
     netName: '',
-    netType: 'COMMAND' as NetType,
+    netType: 'COMMAND',
     fromNodeId: nodes[0]?.id ?? '',
     toNodeId: nodes[1]?.id ?? '',
     frequencyMhz: 45.5,
     bandwidthKhz: 25,
-    waveform: 'FM' as WaveformType,
+    waveform: 'FM',
     txPowerW: 50,
+    reverseTxPowerW: '',
+    equipmentFromId: '',
+    equipmentToId: '',
     startTime: new Date().toISOString().slice(0, 16),
     endTime: new Date(Date.now() + 24 * 3600000).toISOString().slice(0, 16),
     notes: '',
+    satelliteId: '',
+    ...seed,
   });
 
   const fromNode = nodes.find(n => n.id === form.fromNodeId);
+  const toNode = nodes.find(n => n.id === form.toNodeId);
   const fromEquipOptions = fromNode?.equipment ?? [];
+  const toEquipOptions = toNode?.equipment ?? [];
+  // Until the user picks a radio (or after a node change) default to a pair that can carry the link
+  const compatible = pickCompatibleEquipment(fromEquipOptions, toEquipOptions, form);
+  const pick = (id: string, options: RadioEquipment[], fallback?: RadioEquipment) =>
+    options.find(e => e.id === id)?.id ?? fallback?.id ?? options[0]?.id ?? '';
+  const equipIds = {
+    equipmentFromId: pick(form.equipmentFromId, fromEquipOptions, compatible?.fromEquip),
+    equipmentToId: pick(form.equipmentToId, toEquipOptions, compatible?.toEquip),
+  };
+  const issues = [
+    ...validateLink(
+      { ...form, reverseTxPowerW: form.reverseTxPowerW === '' ? undefined : form.reverseTxPowerW },
+      fromEquipOptions.find(e => e.id === equipIds.equipmentFromId),
+      toEquipOptions.find(e => e.id === equipIds.equipmentToId),
+    ),
+    ...(frequencyPlan
+      ? planViolations(frequencyPlan, form.frequencyMhz, form.bandwidthKhz, [fromNode, toNode].flatMap(n => n?.position ?? []))
+      : []),
+  ];
+  const blocked = hasErrors(issues);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!form.fromNodeId || !form.toNodeId || form.fromNodeId === form.toNodeId) return;
+    if (!form.fromNodeId || !form.toNodeId || form.fromNodeId === form.toNodeId || blocked) return;
     addLink({
       name: form.name || `${form.netName} länk`,
       netName: form.netName,
       netType: form.netType,
       fromNodeId: form.fromNodeId,
       toNodeId: form.toNodeId,
-      equipmentFromId: fromEquipOptions[0]?.id,
-      equipmentToId: undefined,
+      equipmentFromId: equipIds.equipmentFromId || undefined,
+      equipmentToId: equipIds.equipmentToId || undefined,
+      satelliteId: form.satelliteId || undefined,
       frequencyMhz: form.frequencyMhz,
       bandwidthKhz: form.bandwidthKhz,
       waveform: form.waveform,
       txPowerW: form.txPowerW,
+      reverseTxPowerW: form.reverseTxPowerW === '' ? undefined : form.reverseTxPowerW,
       startTime: new Date(form.startTime).toISOString(),
       endTime: new Date(form.endTime).toISOString(),
       status: 'planned',
@@ -121,7 +178,25 @@ export default function AddLinkModal({ onClose }: Props) {
               </select>
             </div>
           </div>
-          <div className="grid grid-cols-3 gap-3">
+          <div className="grid grid-cols-2 gap-3">
+            {([
+              ['Radio (från)', 'equipmentFromId', fromEquipOptions],
+              ['Radio (till)', 'equipmentToId', toEquipOptions],
+            ] as const).map(([label, key, options]) => (
+              <div key={key}>
+                <label className="text-xs text-gray-400">{label}</label>
+                <select
+                  className="mt-1 w-full bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-100"
+                  value={equipIds[key]}
+                  onChange={F(key)}
+                >
+                  {options.length === 0 && <option value="">— ingen radio —</option>}
+                  {options.map(e => <option key={e.id} value={e.id}>{e.name} ({e.maxPowerW} W)</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-4 gap-3">
             <div>
               <label className="text-xs text-gray-400">Frekvens (MHz)</label>
               <input
@@ -152,6 +227,16 @@ export default function AddLinkModal({ onClose }: Props) {
                 onChange={F('txPowerW')}
               />
             </div>
+            <div>
+              <label className="text-xs text-gray-400">Svar (W)</label>
+              <input
+                type="number"
+                className="mt-1 w-full bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-100 font-mono"
+                value={form.reverseTxPowerW}
+                placeholder="max"
+                onChange={e => setForm(f => ({ ...f, reverseTxPowerW: e.target.value === '' ? '' : Number(e.target.value) }))}
+              />
+            </div>
           </div>
           <div>
             <label className="text-xs text-gray-400">Modulering</label>
@@ -170,6 +255,17 @@ export default function AddLinkModal({ onClose }: Props) {
               ))}
             </div>
           </div>
+          <div>
+            <label className="text-xs text-gray-400">Satellit (SATCOM)</label>
+            <select
+              className="mt-1 w-full bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-sm text-gray-100"
+              value={form.satelliteId}
+              onChange={F('satelliteId')}
+            >
+              <option value="">— ingen, punkt till punkt —</option>
+              {satellites.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+          </div>
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="text-xs text-gray-400">Starttid</label>
@@ -199,10 +295,21 @@ export default function AddLinkModal({ onClose }: Props) {
               onChange={F('notes')}
             />
           </div>
+          {issues.length > 0 && (
+            <div className="space-y-0.5 text-xs">
+              {issues.map((issue, i) => (
+                <div key={i} className={issue.severity === 'ERROR' ? 'text-red-400' : 'text-yellow-400'}>{issue.message}</div>
+              ))}
+              {!compatible && fromEquipOptions.length > 0 && toEquipOptions.length > 0 && (
+                <div className="text-gray-400">Ingen radiokombination på noderna klarar frekvens och modulering.</div>
+              )}
+            </div>
+          )}
           <div className="flex gap-2 pt-2">
             <button
               type="submit"
-              className="flex-1 bg-green-700 hover:bg-green-600 text-white text-sm py-2 rounded font-semibold"
+              disabled={blocked}
+              className="flex-1 bg-green-700 hover:bg-green-600 disabled:bg-gray-700 disabled:text-gray-400 text-white text-sm py-2 rounded font-semibold"
             >
               Skapa länk
             </button>
@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { useStore } from '../../store';
+import type { Hopset } from '../../types';
+import { formatRanges, hopChannelCount, parseRanges } from '../../utils/hopset';
+import CommitInput from '../shared/CommitInput';
+
+const inputCls = 'w-full bg-gray-800 border border-white/10 rounded px-1.5 py-0.5 text-[10px] font-mono text-gray-100';
+
+function HopsetRow({ hopset }: { hopset: Hopset }) {
+  const updateHopset = useStore(s => s.updateHopset);
+  const deleteHopset = useStore(s => s.deleteHopset);
+  const nets = useStore(s => s.nets);
+  const users = nets.filter(n => n.hopsetId === hopset.id);
+
+  // Single values in the channel field are listed frequencies, the rest are raster ranges
+  const channels = formatRanges([...hopset.ranges, ...hopset.frequenciesMhz.map(f => ({ minMhz: f, maxMhz: f }))]);
+  const commitChannels = (text: string) => {
+    const parsed = parseRanges(text);
+    updateHopset(hopset.id, {
+      ranges: parsed.filter(r => r.maxMhz > r.minMhz),
+      frequenciesMhz: parsed.filter(r => r.maxMhz === r.minMhz).map(r => r.minMhz),
+    });
+  };
+
+  return (
+    <div className="border border-white/5 bg-gray-900/40 rounded mb-1.5 p-2 space-y-1">
+      <div className="flex items-center gap-2">
+        <input
+          className={`${inputCls} font-sans font-bold`}
+          value={hopset.name}
+          onChange={e => updateHopset(hopset.id, { name: e.target.value })}
+        />
+        <span className="text-[10px] text-gray-500 whitespace-nowrap">{hopChannelCount(hopset)} kanaler</span>
+        <button onClick={() => deleteHopset(hopset.id)} className="text-red-500/50 hover:text-red-400">
+          <Trash2 size={11} />
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-[10px] text-gray-500">
+        Raster (kHz)
+        <input
+          type="number"
+          min={1}
+          className={`${inputCls} w-16`}
+          value={hopset.channelSpacingKhz}
+          onChange={e => updateHopset(hopset.id, { channelSpacingKhz: Math.max(1, Number(e.target.value)) })}
+        />
+      </label>
+      <div className="text-[10px] text-gray-500">Kanaler (MHz)</div>
+      <CommitInput className={inputCls} value={channels} onCommit={commitChannels} placeholder="30–87.975, 45.5" />
+      <div className="text-[10px] text-gray-500">Spärrade (MHz)</div>
+      <CommitInput
+        className={inputCls}
+        value={formatRanges(hopset.lockouts)}
+        onCommit={text => updateHopset(hopset.id, { lockouts: parseRanges(text) })}
+        placeholder="40.5, 73–74.6"
+      />
+      {users.length > 0 && (
+        <div className="text-[10px] text-gray-500">Används av {users.map(n => n.name).join(', ')}</div>
+      )}
+    </div>
+  );
+}
+
+/** Named hopsets that nets can be set to hop over */
+export default function HopsetEditor() {
+  const hopsets = useStore(s => s.hopsets);
+  const addHopset = useStore(s => s.addHopset);
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center justify-between mb-1">
+        <button onClick={() => setOpen(o => !o)} className="flex items-center gap-1 text-[10px] text-gray-400 uppercase tracking-wider">
+          {open ? <ChevronDown size={11} /> : <ChevronRight size={11} />}
+          Hoppset ({hopsets.length})
+        </button>
+        {open && (
+          <button
+            onClick={() => addHopset({
+              name: 'Nytt hoppset', channelSpacingKhz: 25, ranges: [{ minMhz: 30, maxMhz: 87.975 }], frequenciesMhz: [], lockouts: [],
+            })}
+            className="text-green-400 hover:text-green-300 flex items-center gap-1 text-[10px]"
+          >
+            <Plus size={11} /> Hoppset
+          </button>
+        )}
+      </div>
+      {open && hopsets.map(h => <HopsetRow key={h.id} hopset={h} />)}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import { useState } from 'react';
-import { Plus, Trash2, ChevronDown, ChevronRight, Radio, Antenna } from 'lucide-react';
+import { Plus, Trash2, ChevronDown, ChevronRight, Radio, Antenna, AlertTriangle } from 'lucide-react';
 import { useStore } from '../../store';
 import type { RadioLink, NetType, WaveformType, LinkStatus } from '../../types';
-import { linkQuality, fmtDb, fmtDbm } from '../../utils/linkBudget';
+import { linkQuality, limitingBudget, fmtDb, fmtDbm } from '../../utils/linkBudget';
+import { fmtDataRate, VOICE_GRADE_LABEL } from '../../utils/waveform';
+import { validateLink } from '../../utils/validation';
+import { planViolations } from '../../utils/frequencyPlan';
+import { SEVERITY_COLOR, SEVERITY_LABEL } from '../../utils/conflicts';
 import AddLinkModal from './AddLinkModal';
 
 const STATUS_COLOR: Record<LinkStatus, string> = {
@@ -28,16 +32,40 @@ const NET_BADGE: Record<NetType, { label: string; cls: string }> = {
   COORD: { label: 'COORD', cls: 'bg-purple-900/60 text-purple-300' },
 };
 
+/** Budget of the limiting direction, with both directions' margins at the top */
 function LinkBudgetDetails({ link }: { link: RadioLink }) {
-  const b = link.linkBudget;
-  if (!b) return <div className="text-xs text-gray-500 italic px-3 py-1">Ingen länkbudget</div>;
-  const q = linkQuality(b.linkMarginDb);
+  const nodes = useStore(s => s.nodes);
+  if (!link.linkBudget) return <div className="text-xs text-gray-500 italic px-3 py-1">Ingen länkbudget</div>;
+  const b = limitingBudget(link.linkBudget);
+  const q = linkQuality(b.effectiveMarginDb);
+  const label = (id: string) => nodes.find(n => n.id === id)?.label ?? '?';
+  const [fromLabel, toLabel] = link.linkBudget.limitingDirection === 'REVERSE'
+    ? [label(link.toNodeId), label(link.fromNodeId)]
+    : [label(link.fromNodeId), label(link.toNodeId)];
   return (
     <div className="bg-gray-900/80 border border-white/5 rounded mx-2 mb-2 p-2 text-xs font-mono space-y-0.5">
+      {link.linkBudget.reverse && (
+        <div className="flex justify-between border-b border-white/10 pb-0.5 mb-0.5">
+          <span className="text-gray-400">Fram / retur</span>
+          <span>{fmtDb(link.linkBudget.effectiveMarginDb)} / {fmtDb(link.linkBudget.reverse.effectiveMarginDb)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span className="text-gray-400">Begränsande riktning</span>
+        <span>{fromLabel} → {toLabel}</span>
+      </div>
       <div className="flex justify-between">
         <span className="text-gray-400">Avstånd</span>
         <span>{b.distanceKm.toFixed(2)} km</span>
       </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Antennhöjd</span>
+        <span>{b.fromAntennaHeightM.toFixed(1)} / {b.toAntennaHeightM.toFixed(1)} m</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Radiohorisont</span>
+        <span className={b.beyondHorizon ? 'text-orange-400' : ''}>{b.radioHorizonKm.toFixed(1)} km</span>
+      </div>
       <div className="flex justify-between">
         <span className="text-gray-400">Tx-effekt</span>
         <span>{fmtDbm(b.txPowerDbm)}</span>
@@ -54,6 +82,18 @@ function LinkBudgetDetails({ link }: { link: RadioLink }) {
         <span className="text-gray-400">Terrängdämpning</span>
         <span className="text-red-400">-{b.terrainLossDb.toFixed(1)} dB</span>
       </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Regn / gas / moln</span>
+        <span className="text-red-400">
+          -{b.rainLossDb.toFixed(1)} / -{b.gasLossDb.toFixed(1)} / -{b.cloudLossDb.toFixed(1)} dB
+        </span>
+      </div>
+      {b.skywaveLossDb !== undefined && (
+        <div className="flex justify-between">
+          <span className="text-gray-400">Jonosfärsdämpning</span>
+          <span className="text-red-400">-{b.skywaveLossDb.toFixed(1)} dB</span>
+        </div>
+      )}
       <div className="flex justify-between">
         <span className="text-gray-400">Rx-antennförstärk.</span>
         <span>{fmtDb(b.rxGainDbi)}</span>
@@ -66,9 +106,37 @@ function LinkBudgetDetails({ link }: { link: RadioLink }) {
         <span className="text-gray-400">Rx-känslighet</span>
         <span>{fmtDbm(b.rxSensitivityDbm)}</span>
       </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Brusgolv</span>
+        <span>{fmtDbm(b.noiseFloorDbm)}</span>
+      </div>
+      {b.interferenceDbm !== undefined && (
+        <div className="flex justify-between">
+          <span className="text-gray-400">Interferens</span>
+          <span className="text-orange-400">{fmtDbm(b.interferenceDbm)}</span>
+        </div>
+      )}
+      <div className="flex justify-between">
+        <span className="text-gray-400">SINR</span>
+        <span>{fmtDb(b.sinrDb)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">SNR-marginal</span>
+        <span className={b.snrMarginDb < 0 ? 'text-red-400' : ''}>{fmtDb(b.snrMarginDb)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Röst / data</span>
+        <span>{VOICE_GRADE_LABEL[b.voiceGrade]} · {fmtDataRate(b.dataRateKbps)}</span>
+      </div>
       <div className="flex justify-between font-bold border-t border-white/10 pt-0.5 mt-0.5">
         <span>Marginal</span>
-        <span style={{ color: q.color }}>{fmtDb(b.linkMarginDb)} ({q.label})</span>
+        <span style={{ color: q.color }}>{fmtDb(b.effectiveMarginDb)} ({q.label})</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-400">Tillgänglighet</span>
+        <span className={b.belowAvailabilityTarget ? 'text-orange-400' : ''}>
+          {b.availabilityPct.toFixed(1)} % / {b.requiredAvailabilityPct} %
+        </span>
       </div>
     </div>
   );
@@ -81,12 +149,28 @@ function LinkRow({ link }: { link: RadioLink }) {
   const updateLink = useStore(s => s.updateLink);
   const nodes = useStore(s => s.nodes);
   const selectedLinkId = useStore(s => s.selectedLinkId);
+  const conflicts = useStore(s => s.conflicts);
+  const frequencyPlan = useStore(s => s.frequencyPlan);
 
   const from = nodes.find(n => n.id === link.fromNodeId);
   const to = nodes.find(n => n.id === link.toNodeId);
   const selected = link.id === selectedLinkId;
-  const q = link.linkBudget ? linkQuality(link.linkBudget.linkMarginDb) : null;
+  const q = link.linkBudget ? linkQuality(limitingBudget(link.linkBudget).effectiveMarginDb) : null;
   const netBadge = NET_BADGE[link.netType];
+  const capabilityErrors = [
+    ...validateLink(
+      link,
+      from?.equipment.find(e => e.id === link.equipmentFromId),
+      to?.equipment.find(e => e.id === link.equipmentToId),
+    ),
+    ...(frequencyPlan
+      ? planViolations(frequencyPlan, link.frequencyMhz, link.bandwidthKhz, [from, to].flatMap(n => n?.position ?? []))
+      : []),
+  ].filter(i => i.severity === 'ERROR');
+  const linkConflicts = conflicts.filter(c => c.victimLinkId === link.id || c.sourceLinkId === link.id);
+  const conflictTitle = linkConflicts.map(c => c.victimLinkId === link.id
+    ? `${SEVERITY_LABEL[c.severity]}: störs av ${c.sourceFrequencyMhz} MHz, C/I ${c.ciDb.toFixed(0)} dB`
+    : `${SEVERITY_LABEL[c.severity]}: stör ${c.victimFrequencyMhz} MHz, C/I ${c.ciDb.toFixed(0)} dB`).join('\n');
 
   return (
     <div className={`border rounded mb-1 overflow-hidden ${selected ? 'border-green-600/60 bg-green-900/10' : 'border-white/5 bg-gray-900/40'}`}>
@@ -104,6 +188,17 @@ function LinkRow({ link }: { link: RadioLink }) {
             {q && (
               <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ background: q.color }} />
             )}
+            {link.linkBudget && limitingBudget(link.linkBudget).belowAvailabilityTarget && (
+              <span title="Under tillgänglighetskravet"><AlertTriangle size={10} className="text-orange-400" /></span>
+            )}
+            {linkConflicts.length > 0 && (
+              <span title={conflictTitle}>
+                <AlertTriangle size={10} style={{ color: SEVERITY_COLOR[linkConflicts[0].severity] }} />
+              </span>
+            )}
+            {capabilityErrors.length > 0 && (
+              <span title={capabilityErrors.map(i => i.message).join('\n')}><AlertTriangle size={10} className="text-red-500" /></span>
+            )}
           </div>
           <div className="text-[10px] text-gray-500 truncate">
             {from?.label ?? '?'} → {to?.label ?? '?'} · {link.frequencyMhz} MHz · {link.waveform}
@@ -135,7 +230,7 @@ function LinkRow({ link }: { link: RadioLink }) {
               ))}
             </select>
             <div className="flex items-center gap-1 text-gray-400">
-              <Radio size={10} /> {link.txPowerW} W · BW {link.bandwidthKhz} kHz
+              <Radio size={10} /> {link.txPowerW}{link.reverseTxPowerW !== undefined && ` / ${link.reverseTxPowerW}`} W · BW {link.bandwidthKhz} kHz
             </div>
           </div>
           <LinkBudgetDetails link={link} />
@@ -0,0 +1,208 @@
+import { AlertTriangle, LassoSelect, X } from 'lucide-react';
+import { useStore } from '../../store';
+import type { FrequencyNet, NetMemberRole, Unit, WaveformType } from '../../types';
+import { NET_ROLE_LABEL, memberRole, netControlStation } from '../../utils/netTopology';
+import { nodeCanJoinNet, validateNetMembers } from '../../utils/validation';
+import CommitInput from '../shared/CommitInput';
+
+const inputCls = 'bg-gray-800 border border-white/10 rounded px-1 py-0.5 text-[10px] text-gray-200';
+
+const WAVEFORMS: WaveformType[] = ['FM', 'AM', 'USB', 'LSB', 'WBFM', 'FSK', 'PSK', 'QAM'];
+
+/** Units in org-tree order, each with its depth */
+function unitTree(units: Unit[], parentId?: string, depth = 0): { unit: Unit; depth: number }[] {
+  return units
+    .filter(u => u.parentId === parentId)
+    .flatMap(unit => [{ unit, depth }, ...unitTree(units, unit.id, depth + 1)]);
+}
+
+/**
+ * Everything about a net after it is created: name, colour and channel, the
+ * member list with NCS, alternate NCS and roles, members picked from the org
+ * tree or lassoed on the map. Channel changes that would leave a member
+ * without a radio for the net are refused.
+ */
+export default function NetEditor({ net }: { net: FrequencyNet }) {
+  const updateNet = useStore(s => s.updateNet);
+  const nodes = useStore(s => s.nodes);
+  const units = useStore(s => s.units);
+  const lassoNetId = useStore(s => s.lassoNetId);
+  const setLassoNet = useStore(s => s.setLassoNet);
+  const setView = useStore(s => s.setView);
+
+  const issues = validateNetMembers(net, nodes);
+  const ncs = netControlStation(net);
+  const members = net.memberNodeIds.flatMap(id => nodes.find(n => n.id === id) ?? []);
+
+  // Errors the change would add on top of those the net already has
+  const newErrors = (patch: Partial<FrequencyNet>) => {
+    const known = new Set(issues.map(i => i.message));
+    return validateNetMembers({ ...net, ...patch }, nodes).filter(i => i.severity === 'ERROR' && !known.has(i.message));
+  };
+  const commitChannel = (key: 'primaryFreqMhz' | 'altFreqMhz') => (text: string) => {
+    const mhz = text.trim() === '' ? undefined : Number(text.replace(',', '.'));
+    if (mhz === undefined && key === 'primaryFreqMhz') throw new Error('Primärfrekvens krävs');
+    if (mhz !== undefined && !(mhz > 0)) throw new Error('Ogiltig frekvens');
+    const [error] = newErrors({ [key]: mhz });
+    if (error) throw new Error(error.message);
+    updateNet(net.id, { [key]: mhz });
+  };
+  const commitName = (text: string) => {
+    if (text.trim() === '') throw new Error('Nätet måste ha ett namn');
+    updateNet(net.id, { name: text.trim() });
+  };
+
+  const setRole = (nodeId: string, role: NetMemberRole) => {
+    const { [nodeId]: _old, ...rest } = net.memberRoles ?? {};
+    updateNet(net.id, { memberRoles: role === 'MEMBER' ? rest : { ...rest, [nodeId]: role } });
+  };
+  const addMembers = (ids: string[]) => {
+    const joining = ids.filter(id => !net.memberNodeIds.includes(id));
+    if (joining.length > 0) updateNet(net.id, { memberNodeIds: [...net.memberNodeIds, ...joining] });
+  };
+  const pickFromTree = (value: string) => {
+    if (value.startsWith('unit:')) {
+      const unitId = value.slice('unit:'.length);
+      addMembers(nodes.filter(n => n.unitId === unitId && nodeCanJoinNet(n, net)).map(n => n.id));
+    } else if (value) {
+      addMembers([value]);
+    }
+  };
+  const lassoActive = lassoNetId === net.id;
+
+  return (
+    <div className="w-full mt-1 pt-1.5 border-t border-white/5 space-y-1.5">
+      <div className="flex items-center gap-1 text-[10px] text-gray-500">
+        <input
+          type="color"
+          className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+          value={net.color}
+          onChange={e => updateNet(net.id, { color: e.target.value })}
+          title="Färg"
+        />
+        <CommitInput
+          containerClassName="flex-1 min-w-0"
+          className={`${inputCls} w-full`}
+          value={net.name}
+          onCommit={commitName}
+          placeholder="Nätnamn"
+        />
+      </div>
+      <div className="flex items-start gap-1 text-[10px] text-gray-500">
+        <span className="mt-0.5">Prim</span>
+        <CommitInput
+          value={String(net.primaryFreqMhz)}
+          onCommit={commitChannel('primaryFreqMhz')}
+          placeholder="MHz"
+          containerClassName="flex-1 min-w-0"
+          className={`${inputCls} w-full font-mono`}
+        />
+        <span className="mt-0.5">Alt</span>
+        <CommitInput
+          value={net.altFreqMhz !== undefined ? String(net.altFreqMhz) : ''}
+          onCommit={commitChannel('altFreqMhz')}
+          placeholder="MHz"
+          containerClassName="flex-1 min-w-0"
+          className={`${inputCls} w-full font-mono`}
+        />
+        <select
+          className={inputCls}
+          value={net.waveform}
+          onChange={e => updateNet(net.id, { waveform: e.target.value as WaveformType })}
+        >
+          {WAVEFORMS.map(w => {
+            const blocked = w !== net.waveform && newErrors({ waveform: w }).length > 0;
+            return <option key={w} value={w} disabled={blocked}>{w}{blocked ? ' – saknas hos deltagare' : ''}</option>;
+          })}
+        </select>
+      </div>
+
+      <div className="space-y-0.5">
+        {members.map(n => {
+          const role = memberRole(net, n.id);
+          const isNcs = n.id === ncs;
+          const isAlt = n.id === net.altNcsNodeId;
+          return (
+            <div key={n.id}>
+              <div className="flex items-center gap-1 text-[10px] text-gray-400">
+                <span className="font-mono text-gray-200 w-20 truncate" title={n.fullName}>{n.label}</span>
+                <select
+                  className={inputCls}
+                  value={role}
+                  onChange={e => setRole(n.id, e.target.value as NetMemberRole)}
+                >
+                  {(Object.keys(NET_ROLE_LABEL) as NetMemberRole[]).map(r => (
+                    <option key={r} value={r} disabled={r === 'LISTEN_ONLY' && (isNcs || isAlt)}>{NET_ROLE_LABEL[r]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-0.5" title="Nätledningsstation">
+                  <input
+                    type="radio"
+                    name={`ncs-${net.id}`}
+                    checked={isNcs}
+                    disabled={role === 'LISTEN_ONLY'}
+                    onChange={() => updateNet(net.id, { ncsNodeId: n.id, altNcsNodeId: isAlt ? undefined : net.altNcsNodeId })}
+                  />
+                  NCS
+                </label>
+                <label className="flex items-center gap-0.5" title="Alternativ nätledningsstation">
+                  <input
+                    type="checkbox"
+                    checked={isAlt}
+                    disabled={role === 'LISTEN_ONLY' || isNcs}
+                    onChange={() => updateNet(net.id, { altNcsNodeId: isAlt ? undefined : n.id })}
+                  />
+                  Alt
+                </label>
+                <button
+                  onClick={() => updateNet(net.id, { memberNodeIds: net.memberNodeIds.filter(id => id !== n.id) })}
+                  className="ml-auto text-gray-500 hover:text-red-400"
+                  title="Ta bort ur nätet"
+                >
+                  <X size={10} />
+                </button>
+              </div>
+              {issues.filter(i => i.nodeId === n.id).map((issue, i) => (
+                <div key={i} className={`flex items-start gap-1 text-[10px] ${issue.severity === 'ERROR' ? 'text-red-400' : 'text-yellow-400'}`}>
+                  <AlertTriangle size={10} className="mt-0.5 shrink-0" />
+                  {issue.message}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center gap-1">
+        <select className={`${inputCls} flex-1`} value="" onChange={e => pickFromTree(e.target.value)}>
+          <option value="">Lägg till från organisationen…</option>
+          {unitTree(units).map(({ unit, depth }) => {
+            const candidates = nodes.filter(n => n.unitId === unit.id && !net.memberNodeIds.includes(n.id));
+            if (candidates.length === 0) return null;
+            return (
+              <optgroup key={unit.id} label={`${'  '.repeat(depth)}${unit.name}`}>
+                <option value={`unit:${unit.id}`}>Hela {unit.shortName}</option>
+                {candidates.map(n => {
+                  const fits = nodeCanJoinNet(n, net);
+                  return <option key={n.id} value={n.id} disabled={!fits}>{n.label}{fits ? '' : ' – saknar radio'}</option>;
+                })}
+              </optgroup>
+            );
+          })}
+        </select>
+        <button
+          onClick={() => {
+            setLassoNet(lassoActive ? null : net.id);
+            if (!lassoActive) setView('map');
+          }}
+          className={`flex items-center gap-1 text-[10px] px-1.5 py-0.5 rounded ${lassoActive
+            ? 'bg-yellow-700 text-white'
+            : 'bg-gray-800 text-gray-400 hover:text-gray-200'}`}
+          title="Ring in enheter på kartan"
+        >
+          <LassoSelect size={11} /> Karta
+        </button>
+      </div>
+    </div>
+  );
+}
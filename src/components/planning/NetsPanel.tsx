@@ -1,12 +1,42 @@
 import { useState } from 'react';
-import { Plus, Trash2 } from 'lucide-react';
+import { AlertTriangle, Pencil, Plus, Trash2 } from 'lucide-react';
 import { useStore } from '../../store';
-import type { FrequencyNet } from '../../types';
+import type { FrequencyNet, HopRateClass, NetTopology, NetType } from '../../types';
+import { defaultBandwidthKhz } from '../../utils/frequencyAssignment';
+import { planViolations } from '../../utils/frequencyPlan';
+import { HOP_RATE_LABEL } from '../../utils/hopset';
+import { NET_TOPOLOGY_LABEL, netControlStation } from '../../utils/netTopology';
+import { nodeCanJoinNet, validateNetMembers } from '../../utils/validation';
+import HopsetEditor from './HopsetEditor';
+import NetEditor from './NetEditor';
+
+const selectCls = 'bg-gray-800 border border-white/10 rounded px-1 py-0.5 text-[10px] text-gray-200';
 
 function NetRow({ net }: { net: FrequencyNet }) {
   const deleteNet = useStore(s => s.deleteNet);
+  const updateNet = useStore(s => s.updateNet);
   const nodes = useStore(s => s.nodes);
+  const nets = useStore(s => s.nets);
+  const hopsets = useStore(s => s.hopsets);
+  const links = useStore(s => s.links);
+  const frequencyPlan = useStore(s => s.frequencyPlan);
+  const [editing, setEditing] = useState(false);
   const members = nodes.filter(n => net.memberNodeIds.includes(n.id));
+  const netLinks = links.filter(l => l.netId === net.id || l.netName === net.name);
+  const generated = links.filter(l => l.netId === net.id).length;
+  const ncs = netControlStation(net);
+  const memberErrors = new Set(validateNetMembers(net, nodes).filter(i => i.severity === 'ERROR').map(i => i.nodeId));
+  const bandwidthKhz = netLinks.length > 0
+    ? Math.max(...netLinks.map(l => l.bandwidthKhz))
+    : defaultBandwidthKhz(net.waveform);
+  const sites = members.map(n => n.position);
+  const violations = frequencyPlan
+    ? [net.primaryFreqMhz, net.altFreqMhz].flatMap(f => f === undefined ? [] : planViolations(frequencyPlan, f, bandwidthKhz, sites))
+    : [];
+  // Same hopset and net ID means the same hop sequence: the nets collide on every hop
+  const sameSequence = net.hopsetId && net.hopNetId !== undefined
+    ? nets.filter(n => n.id !== net.id && n.hopsetId === net.hopsetId && n.hopNetId === net.hopNetId)
+    : [];
 
   return (
     <div className="border border-white/5 bg-gray-900/40 rounded mb-1.5 p-2">
@@ -16,6 +46,13 @@ function NetRow({ net }: { net: FrequencyNet }) {
           <div className="text-xs font-bold text-gray-100">{net.name}</div>
           <div className="text-[10px] text-gray-500">{net.netType}</div>
         </div>
+        <button
+          onClick={() => setEditing(v => !v)}
+          className={editing ? 'text-gray-200' : 'text-gray-500 hover:text-gray-300'}
+          title="Redigera nät och deltagare"
+        >
+          <Pencil size={11} />
+        </button>
         <button onClick={() => deleteNet(net.id)} className="text-red-500/50 hover:text-red-400">
           <Trash2 size={11} />
         </button>
@@ -26,13 +63,115 @@ function NetRow({ net }: { net: FrequencyNet }) {
           {net.altFreqMhz && <span className="ml-2">Alt: <span className="font-mono text-gray-200">{net.altFreqMhz} MHz</span></span>}
           <span className="ml-2">{net.waveform}</span>
         </div>
-        <div className="w-full text-[10px] text-gray-500">
-          Deltagare ({members.length}):
+        <div className="w-full flex items-center gap-1 text-[10px] text-gray-500">
+          Topologi:
+          <select
+            className={selectCls}
+            value={net.topology ?? ''}
+            onChange={e => updateNet(net.id, { topology: (e.target.value || undefined) as NetTopology | undefined })}
+            title="Länkarna mellan deltagarna skapas och hålls i takt med nätet"
+          >
+            <option value="">Manuella länkar</option>
+            {(Object.keys(NET_TOPOLOGY_LABEL) as NetTopology[]).map(t => <option key={t} value={t}>{NET_TOPOLOGY_LABEL[t]}</option>)}
+          </select>
+          {net.topology && <span>{generated} länk{generated !== 1 ? 'ar' : ''}</span>}
+        </div>
+        <div className="w-full flex items-center gap-1 text-[10px] text-gray-500">
+          Hopp:
+          <select
+            className={selectCls}
+            value={net.hopsetId ?? ''}
+            onChange={e => updateNet(net.id, { hopsetId: e.target.value || undefined })}
+          >
+            <option value="">Fast frekvens</option>
+            {hopsets.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+          </select>
+          {net.hopsetId && (
+            <>
+              <input
+                type="number"
+                min={0}
+                max={999}
+                placeholder="Nät-ID"
+                title="Nät-ID (TRANSEC)"
+                className={`${selectCls} w-14 font-mono`}
+                value={net.hopNetId ?? ''}
+                onChange={e => updateNet(net.id, { hopNetId: e.target.value === '' ? undefined : Number(e.target.value) })}
+              />
+              <select
+                className={selectCls}
+                value={net.hopRate ?? ''}
+                onChange={e => updateNet(net.id, { hopRate: (e.target.value || undefined) as HopRateClass | undefined })}
+              >
+                <option value="">Hopptakt</option>
+                {(Object.keys(HOP_RATE_LABEL) as HopRateClass[]).map(r => <option key={r} value={r}>{HOP_RATE_LABEL[r]}</option>)}
+              </select>
+            </>
+          )}
         </div>
-        {members.map(n => (
-          <span key={n.id} className="text-[10px] bg-gray-800 text-gray-300 px-1.5 rounded font-mono">
-            {n.label}
-          </span>
+        {sameSequence.length > 0 && (
+          <div className="w-full flex items-start gap-1 text-[10px] text-red-400">
+            <AlertTriangle size={10} className="mt-0.5 shrink-0" />
+            Samma hoppset och nät-ID som {sameSequence.map(n => n.name).join(', ')}
+          </div>
+        )}
+        {violations.map((issue, i) => (
+          <div key={i} className="w-full flex items-start gap-1 text-[10px] text-red-400">
+            <AlertTriangle size={10} className="mt-0.5 shrink-0" />
+            {issue.message}
+          </div>
+        ))}
+        {!editing && memberErrors.size > 0 && (
+          <div className="w-full flex items-start gap-1 text-[10px] text-red-400">
+            <AlertTriangle size={10} className="mt-0.5 shrink-0" />
+            {memberErrors.size} deltagare saknar radio för nätets kanal
+          </div>
+        )}
+        {editing ? <NetEditor net={net} /> : (
+          <>
+            <div className="w-full text-[10px] text-gray-500">
+              Deltagare ({members.length}):
+            </div>
+            {members.map(n => (
+              <span
+                key={n.id}
+                className={`text-[10px] px-1.5 rounded font-mono ${n.id === ncs
+                  ? 'bg-yellow-900/60 text-yellow-200'
+                  : n.id === net.altNcsNodeId ? 'bg-yellow-900/30 text-yellow-300' : 'bg-gray-800 text-gray-300'}`}
+                title={n.id === ncs ? 'Nätledningsstation (NCS)' : n.id === net.altNcsNodeId ? 'Alternativ NCS' : undefined}
+              >
+                {n.label}
+              </span>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/** Required link availability per net type, used to flag links in the budget */
+function AvailabilityTargets() {
+  const targets = useStore(s => s.settings.requiredAvailabilityPct);
+  const updateSettings = useStore(s => s.updateSettings);
+
+  return (
+    <div className="border-t border-white/10 p-2">
+      <div className="text-[10px] text-gray-500 mb-1">Tillgänglighetskrav (%)</div>
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+        {(Object.keys(targets) as NetType[]).map(t => (
+          <label key={t} className="flex items-center justify-between text-[10px] text-gray-400">
+            {t}
+            <input
+              type="number"
+              min={50}
+              max={99.999}
+              step={0.1}
+              className="w-14 bg-gray-800 border border-white/10 rounded px-1 font-mono text-gray-200"
+              value={targets[t]}
+              onChange={e => updateSettings({ requiredAvailabilityPct: { ...targets, [t]: Number(e.target.value) } })}
+            />
+          </label>
         ))}
       </div>
     </div>
@@ -52,11 +191,15 @@ export default function NetsPanel() {
     netType: 'COMMAND' as FrequencyNet['netType'],
     color: '#ef4444',
     memberIds: [] as string[],
+    topology: '' as NetTopology | '',
   });
 
+  const channel = { primaryFreqMhz: form.primaryFreqMhz, waveform: form.waveform as FrequencyNet['waveform'] };
+  const unfit = nodes.filter(n => form.memberIds.includes(n.id) && !nodeCanJoinNet(n, channel));
+
   const handleAdd = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!form.name) return;
+    if (!form.name || unfit.length > 0) return;
     addNet({
       name: form.name,
       primaryFreqMhz: form.primaryFreqMhz,
@@ -64,6 +207,8 @@ export default function NetsPanel() {
       netType: form.netType,
       color: form.color,
       memberNodeIds: form.memberIds,
+      ncsNodeId: form.memberIds[0],
+      topology: form.topology || undefined,
     });
     setShowAdd(false);
     setForm(f => ({ ...f, name: '', memberIds: [] }));
@@ -117,30 +262,49 @@ export default function NetsPanel() {
               <option key={t} value={t}>{t}</option>
             ))}
           </select>
+          <select
+            className="w-full bg-gray-800 border border-white/10 rounded px-2 py-1.5 text-xs text-gray-100"
+            value={form.topology}
+            onChange={e => setForm(f => ({ ...f, topology: e.target.value as NetTopology | '' }))}
+          >
+            <option value="">Manuella länkar</option>
+            {(Object.keys(NET_TOPOLOGY_LABEL) as NetTopology[]).map(t => <option key={t} value={t}>{NET_TOPOLOGY_LABEL[t]}</option>)}
+          </select>
           <div>
-            <div className="text-[10px] text-gray-500 mb-1">Deltagare</div>
+            <div className="text-[10px] text-gray-500 mb-1">Deltagare (den första är NCS)</div>
             <div className="flex flex-wrap gap-1">
-              {nodes.map(n => (
-                <button
-                  key={n.id}
-                  type="button"
-                  onClick={() => setForm(f => ({
-                    ...f,
-                    memberIds: f.memberIds.includes(n.id)
-                      ? f.memberIds.filter(id => id !== n.id)
-                      : [...f.memberIds, n.id],
-                  }))}
-                  className={`text-[10px] px-1.5 py-0.5 rounded font-mono
-                    ${form.memberIds.includes(n.id) ? 'bg-green-800 text-green-200' : 'bg-gray-800 text-gray-400'}`}
-                >
-                  {n.label}
-                </button>
-              ))}
+              {nodes.map(n => {
+                const fits = nodeCanJoinNet(n, channel);
+                const picked = form.memberIds.includes(n.id);
+                return (
+                  <button
+                    key={n.id}
+                    type="button"
+                    disabled={!fits && !picked}
+                    title={fits ? undefined : 'Saknar radio för frekvens och modulering'}
+                    onClick={() => setForm(f => ({
+                      ...f,
+                      memberIds: picked ? f.memberIds.filter(id => id !== n.id) : [...f.memberIds, n.id],
+                    }))}
+                    className={`text-[10px] px-1.5 py-0.5 rounded font-mono disabled:opacity-40
+                      ${picked ? fits ? 'bg-green-800 text-green-200' : 'bg-red-900 text-red-200' : 'bg-gray-800 text-gray-400'}`}
+                  >
+                    {n.label}
+                  </button>
+                );
+              })}
             </div>
           </div>
+          {unfit.length > 0 && (
+            <div className="flex items-start gap-1 text-[10px] text-red-400">
+              <AlertTriangle size={10} className="mt-0.5 shrink-0" />
+              {unfit.map(n => n.label).join(', ')} saknar radio för {form.primaryFreqMhz} MHz {form.waveform}
+            </div>
+          )}
           <button
             type="submit"
-            className="w-full bg-green-800 hover:bg-green-700 text-white text-xs py-1.5 rounded font-semibold"
+            disabled={unfit.length > 0}
+            className="w-full bg-green-800 hover:bg-green-700 disabled:opacity-40 text-white text-xs py-1.5 rounded font-semibold"
           >
             Skapa nät
           </button>
@@ -149,7 +313,10 @@ export default function NetsPanel() {
 
       <div className="flex-1 overflow-y-auto p-2">
         {nets.map(n => <NetRow key={n.id} net={n} />)}
+        <HopsetEditor />
       </div>
+
+      <AvailabilityTargets />
     </div>
   );
 }
@@ -0,0 +1,108 @@
+import { useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { useStore } from '../../store';
+import type { RadioEquipment } from '../../types';
+import { beamwidthDeg } from '../../utils/antenna';
+import { DEFAULT_ANTENNA_HEIGHT_M } from '../../utils/terrain';
+
+interface Props {
+  vehicleId: string;
+  equip: RadioEquipment;
+}
+
+/** Antenna type, height and pointing for one mounted radio */
+export default function AntennaMountEditor({ vehicleId, equip }: Props) {
+  const patterns = useStore(s => s.antennaPatterns);
+  const updateEquipment = useStore(s => s.updateEquipment);
+  const importAntennaPattern = useStore(s => s.importAntennaPattern);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pattern = equip.antennaPattern;
+
+  const selectPattern = (id: string) => {
+    const p = patterns.find(x => x.id === id);
+    updateEquipment(vehicleId, equip.id, { antennaPattern: p, antennaAzimuthDeg: p ? equip.antennaAzimuthDeg ?? 0 : undefined });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const p = await importAntennaPattern(file);
+      updateEquipment(vehicleId, equip.id, { antennaPattern: p, antennaAzimuthDeg: equip.antennaAzimuthDeg ?? 0 });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex items-center gap-1">
+        <select
+          className="flex-1 min-w-0 bg-gray-900 border border-white/10 rounded px-1 py-0.5 text-[10px] text-gray-300"
+          value={pattern?.id ?? ''}
+          onChange={e => selectPattern(e.target.value)}
+        >
+          <option value="">Rundstrålande ({equip.antennaGainDbi} dBi)</option>
+          {patterns.map(p => <option key={p.id} value={p.id}>{p.name} ({p.peakGainDbi.toFixed(1)} dBi)</option>)}
+        </select>
+        <button
+          onClick={() => fileRef.current?.click()}
+          className="text-gray-500 hover:text-gray-300 p-0.5"
+          title="Importera antennmönster (MSI/Planet eller CSV)"
+        >
+          <Upload size={10} />
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".msi,.pln,.txt,.ant,.csv"
+          className="hidden"
+          onChange={e => handleImport(e.target.files?.[0])}
+        />
+      </div>
+      <div className="flex items-center gap-2 text-[10px] text-gray-500">
+        <label className="flex items-center gap-1">
+          Höjd
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            className="w-10 bg-gray-900 border border-white/10 rounded px-1 font-mono text-gray-200"
+            value={equip.antennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M}
+            onChange={e => updateEquipment(vehicleId, equip.id, { antennaHeightM: Number(e.target.value) })}
+          />
+          m
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={equip.mastMounted ?? false}
+            onChange={e => updateEquipment(vehicleId, equip.id, { mastMounted: e.target.checked })}
+          />
+          På mast
+        </label>
+      </div>
+      {pattern && (
+        <div className="flex items-center gap-2 text-[10px] text-gray-500">
+          <label className="flex items-center gap-1">
+            Riktning
+            <input
+              type="number"
+              min={0}
+              max={359}
+              className="w-12 bg-gray-900 border border-white/10 rounded px-1 font-mono text-gray-200"
+              value={equip.antennaAzimuthDeg ?? 0}
+              onChange={e => updateEquipment(vehicleId, equip.id, { antennaAzimuthDeg: ((Number(e.target.value) % 360) + 360) % 360 })}
+            />°
+          </label>
+          <span>Lob {beamwidthDeg(pattern)}°</span>
+        </div>
+      )}
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+    </div>
+  );
+}
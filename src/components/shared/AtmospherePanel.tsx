@@ -0,0 +1,79 @@
+import { useStore } from '../../store';
+import type { AtmosphereSettings, LinkBudget } from '../../types';
+
+interface Props {
+  budget: LinkBudget;
+}
+
+const inputCls = 'w-12 bg-gray-800 border border-white/10 rounded px-1 text-[10px] font-mono text-gray-200';
+
+/** Rain climate and atmosphere inputs with the resulting ITU-R loss items */
+export default function AtmospherePanel({ budget }: Props) {
+  const atm = useStore(s => s.settings.atmosphere);
+  const updateSettings = useStore(s => s.updateSettings);
+  const set = (patch: Partial<AtmosphereSettings>) => updateSettings({ atmosphere: { ...atm, ...patch } });
+
+  return (
+    <div className="bg-gray-800/60 rounded p-2 space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-300">Atmosfär (ITU-R)</span>
+        <div className="flex gap-1">
+          {(['EXCEEDANCE', 'RATE'] as const).map(mode => (
+            <button
+              key={mode}
+              onClick={() => set({ rainMode: mode })}
+              className={`text-[10px] px-1.5 rounded
+                ${atm.rainMode === mode ? 'bg-gray-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+            >
+              {mode === 'RATE' ? 'Regnintensitet' : 'Tidsandel'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-gray-500">
+        {atm.rainMode === 'RATE' ? (
+          <label className="flex items-center gap-1">
+            Regn
+            <input type="number" min={0} max={200} className={inputCls}
+              value={atm.rainRateMmH} onChange={e => set({ rainRateMmH: Number(e.target.value) })} />
+            mm/h
+          </label>
+        ) : (
+          <>
+            <label className="flex items-center gap-1">
+              R<sub>0,01</sub>
+              <input type="number" min={0} max={200} className={inputCls}
+                value={atm.regionRain001MmH} onChange={e => set({ regionRain001MmH: Number(e.target.value) })} />
+              mm/h
+            </label>
+            <label className="flex items-center gap-1">
+              p
+              <input type="number" min={0.001} max={1} step={0.001} className={inputCls}
+                value={atm.exceedancePct} onChange={e => set({ exceedancePct: Number(e.target.value) })} />
+              %
+            </label>
+          </>
+        )}
+        <label className="flex items-center gap-1">
+          Vattenånga
+          <input type="number" min={0} max={30} step={0.5} className={inputCls}
+            value={atm.waterVapourGm3} onChange={e => set({ waterVapourGm3: Number(e.target.value) })} />
+          g/m³
+        </label>
+        <label className="flex items-center gap-1">
+          Moln/dimma
+          <input type="number" min={0} max={5} step={0.05} className={inputCls}
+            value={atm.cloudLiquidGm3} onChange={e => set({ cloudLiquidGm3: Number(e.target.value) })} />
+          g/m³
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-x-2 text-[10px] font-mono">
+        <span className="text-gray-500">Regn <span className="text-gray-200">{budget.rainLossDb.toFixed(2)} dB</span></span>
+        <span className="text-gray-500">Gas <span className="text-gray-200">{budget.gasLossDb.toFixed(2)} dB</span></span>
+        <span className="text-gray-500">Moln <span className="text-gray-200">{budget.cloudLossDb.toFixed(2)} dB</span></span>
+      </div>
+    </div>
+  );
+}
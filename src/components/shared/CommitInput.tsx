@@ -0,0 +1,41 @@
+import { useState } from 'react';
+
+interface Props {
+  value: string;
+  onCommit: (text: string) => void;
+  placeholder?: string;
+  className?: string;           // the input itself
+  containerClassName?: string;  // the input with its error line
+}
+
+/**
+ * Text field committed on blur or Enter, so half-typed values are not
+ * rejected. A throwing commit keeps the draft and shows why.
+ */
+export default function CommitInput({ value, onCommit, placeholder, className, containerClassName }: Props) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const commit = () => {
+    if (draft === null) return;
+    try {
+      onCommit(draft);
+      setDraft(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+  return (
+    <div className={containerClassName}>
+      <input
+        className={`${className ?? ''} ${error ? 'border-red-500/60' : ''}`}
+        placeholder={placeholder}
+        value={draft ?? value}
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+      />
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+    </div>
+  );
+}
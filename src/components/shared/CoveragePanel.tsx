@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Loader2, Layers, X } from 'lucide-react';
+import { useStore } from '../../store';
+import type { RadioNode } from '../../types';
+
+const RADII_KM = [5, 10, 25, 50];
+
+/** Coverage prediction controls for one node */
+export default function CoveragePanel({ node }: { node: RadioNode }) {
+  const catalog = useStore(s => s.equipmentCatalog);
+  const coverage = useStore(s => s.coverage);
+  const computeCoverage = useStore(s => s.computeCoverage);
+  const clearCoverage = useStore(s => s.clearCoverage);
+
+  const firstEquip = node.equipment[0];
+  const [form, setForm] = useState({
+    equipmentId: firstEquip?.id ?? '',
+    txPowerW: firstEquip?.maxPowerW ?? 20,
+    frequencyMhz: firstEquip?.freqMin ?? 45,
+    counterpartEquipmentId: firstEquip?.id ?? catalog[0]?.id ?? '',
+    radiusKm: 10,
+  });
+
+  if (node.equipment.length === 0) return null;
+
+  const active = coverage?.request.nodeId === node.id ? coverage : null;
+  const computing = active?.status === 'computing';
+
+  const selectEquip = (id: string) => {
+    const eq = node.equipment.find(e => e.id === id);
+    setForm(f => ({
+      ...f,
+      equipmentId: id,
+      txPowerW: eq?.maxPowerW ?? f.txPowerW,
+      frequencyMhz: eq ? Math.min(Math.max(f.frequencyMhz, eq.freqMin), eq.freqMax) : f.frequencyMhz,
+    }));
+  };
+
+  const inputCls = 'w-full bg-gray-800 border border-white/10 rounded px-1.5 py-0.5 text-[10px] text-gray-100';
+
+  return (
+    <div className="bg-gray-800/40 rounded p-2 space-y-1.5">
+      <div className="text-xs text-gray-500 flex items-center gap-1">
+        <Layers size={10} /> Täckningsanalys
+      </div>
+      <div className="grid grid-cols-2 gap-1.5">
+        <select className={inputCls} value={form.equipmentId} onChange={e => selectEquip(e.target.value)}>
+          {node.equipment.map(eq => <option key={eq.id} value={eq.id}>{eq.name}</option>)}
+        </select>
+        <select
+          className={inputCls}
+          value={form.counterpartEquipmentId}
+          onChange={e => setForm(f => ({ ...f, counterpartEquipmentId: e.target.value }))}
+          title="Motstationens radio"
+        >
+          {catalog.map(eq => <option key={eq.id} value={eq.id}>→ {eq.name}</option>)}
+        </select>
+        <label className="text-[10px] text-gray-500">
+          MHz
+          <input
+            type="number"
+            step="0.005"
+            className={`${inputCls} font-mono`}
+            value={form.frequencyMhz}
+            onChange={e => setForm(f => ({ ...f, frequencyMhz: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="text-[10px] text-gray-500">
+          W
+          <input
+            type="number"
+            max={node.equipment.find(e => e.id === form.equipmentId)?.maxPowerW}
+            title="Räknas högst med radions maxeffekt"
+            className={`${inputCls} font-mono`}
+            value={form.txPowerW}
+            onChange={e => setForm(f => ({ ...f, txPowerW: Number(e.target.value) }))}
+          />
+        </label>
+      </div>
+      <div className="flex items-center gap-1">
+        <span className="text-[10px] text-gray-500">Radie</span>
+        {RADII_KM.map(r => (
+          <button
+            key={r}
+            type="button"
+            onClick={() => setForm(f => ({ ...f, radiusKm: r }))}
+            className={`text-[10px] px-1.5 rounded ${form.radiusKm === r ? 'bg-gray-600 text-white' : 'bg-gray-800 text-gray-400'}`}
+          >
+            {r} km
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <button
+          onClick={() => computeCoverage({ nodeId: node.id, ...form })}
+          disabled={computing}
+          className="flex-1 text-[10px] py-1 rounded bg-teal-900/60 hover:bg-teal-800/60 text-teal-300 border border-teal-700/50 flex items-center justify-center gap-1"
+        >
+          {computing && <Loader2 size={10} className="animate-spin" />}
+          {computing ? 'Beräknar…' : 'Beräkna täckning'}
+        </button>
+        {active && (
+          <button onClick={clearCoverage} className="px-2 rounded bg-gray-800 text-gray-400 hover:text-gray-200" title="Rensa">
+            <X size={10} />
+          </button>
+        )}
+      </div>
+      {active?.status === 'error' && <div className="text-[10px] text-red-400">{active.error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useMemo, useState } from 'react';
+import { Sun, Moon } from 'lucide-react';
+import { useStore } from '../../store';
+import type { RadioEquipment, RadioLink, RadioNode } from '../../types';
+import {
+  hfUsabilityOverWindow, suggestDayNightFrequencies, fluxFromSunspot, sunspotFromFlux,
+} from '../../utils/hfPropagation';
+
+interface Props {
+  link: RadioLink;
+  from: RadioNode;
+  to: RadioNode;
+  equip?: RadioEquipment;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString('sv-SE', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+}
+
+const numberCls = 'w-12 bg-gray-800 border border-white/10 rounded px-1 text-[10px] font-mono text-gray-200';
+
+/** HF skywave usability across the link's time window with day/night frequency suggestion */
+export default function HfPropagationPanel({ link, from, to, equip }: Props) {
+  const ssn = useStore(s => s.settings.sunspotNumber);
+  const updateSettings = useStore(s => s.updateSettings);
+  const updateLink = useStore(s => s.updateLink);
+  // Solar flux is entered as a draft and stored as the sunspot number it corresponds to
+  const [fluxDraft, setFluxDraft] = useState<string | null>(null);
+
+  const samples = useMemo(
+    () => hfUsabilityOverWindow(from.position, to.position, link.frequencyMhz, link.startTime, link.endTime, ssn),
+    [from.position, to.position, link.frequencyMhz, link.startTime, link.endTime, ssn],
+  );
+  const suggestion = useMemo(
+    () => suggestDayNightFrequencies(from.position, to.position, link.startTime, ssn, equip?.freqMin, equip?.freqMax),
+    [from.position, to.position, link.startTime, ssn, equip?.freqMin, equip?.freqMax],
+  );
+
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const usableCount = samples.filter(s => s.usable).length;
+
+  const commitFlux = () => {
+    if (fluxDraft === null) return;
+    const sfi = Number(fluxDraft.replace(',', '.'));
+    if (fluxDraft.trim() !== '' && Number.isFinite(sfi)) updateSettings({ sunspotNumber: Math.round(sunspotFromFlux(sfi)) });
+    setFluxDraft(null);
+  };
+
+  const usableLabel = (ok: boolean) => (
+    <span className={ok ? 'text-green-400' : 'text-red-400'}>{ok ? 'Ja' : 'Nej'}</span>
+  );
+
+  return (
+    <div className="bg-gray-800/60 rounded p-2 space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-300">HF-utbredning</span>
+        <div className="flex items-center gap-1 text-[10px] text-gray-500">
+          <label className="flex items-center gap-1" title="Utjämnat solfläckstal">
+            SSN
+            <input
+              type="number"
+              min={0}
+              max={300}
+              className={numberCls}
+              value={ssn}
+              onChange={e => updateSettings({ sunspotNumber: Number(e.target.value) })}
+            />
+          </label>
+          <label className="flex items-center gap-1" title="Solflöde 10,7 cm (sfu)">
+            SFI
+            <input
+              type="number"
+              min={64}
+              max={400}
+              className={numberCls}
+              value={fluxDraft ?? fluxFromSunspot(ssn).toFixed(0)}
+              onChange={e => setFluxDraft(e.target.value)}
+              onBlur={commitFlux}
+              onKeyDown={e => { if (e.key === 'Enter') commitFlux(); }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {!first || !last ? (
+        <div className="text-[10px] text-red-400">Länkens tidsfönster är ogiltigt</div>
+      ) : (<>
+        <div className="grid grid-cols-5 gap-x-2 text-[10px]">
+          <span className="text-gray-500" />
+          <span className="text-gray-500">LUF</span>
+          <span className="text-gray-500">MUF</span>
+          <span className="text-gray-500">FOT</span>
+          <span className="text-gray-500">{link.frequencyMhz} MHz</span>
+          <span className="text-gray-500">Start</span>
+          <span className="font-mono text-gray-200">{first.lufMhz.toFixed(1)}</span>
+          <span className="font-mono text-gray-200">{first.mufMhz.toFixed(1)}</span>
+          <span className="font-mono text-gray-200">{first.fotMhz.toFixed(1)}</span>
+          {usableLabel(first.usable)}
+          <span className="text-gray-500">Slut</span>
+          <span className="font-mono text-gray-200">{last.lufMhz.toFixed(1)}</span>
+          <span className="font-mono text-gray-200">{last.mufMhz.toFixed(1)}</span>
+          <span className="font-mono text-gray-200">{last.fotMhz.toFixed(1)}</span>
+          {usableLabel(last.usable)}
+        </div>
+
+        <div>
+          <div className="flex h-2 rounded overflow-hidden">
+            {samples.map(s => (
+              <div
+                key={s.time}
+                className="flex-1"
+                style={{ background: s.usable ? '#22c55e' : '#ef4444', opacity: 0.8 }}
+                title={`${formatTime(s.time)} · LUF ${s.lufMhz.toFixed(1)} · MUF ${s.mufMhz.toFixed(1)} MHz`}
+              />
+            ))}
+          </div>
+          <div className="text-[10px] text-gray-500 mt-0.5">
+            Användbar {Math.round((usableCount / samples.length) * 100)} % av tidsfönstret
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 text-[10px]">
+          <span className="text-gray-500">Förslag:</span>
+          <button
+            onClick={() => updateLink(link.id, { frequencyMhz: suggestion.dayMhz })}
+            className="flex items-center gap-1 bg-gray-800 hover:bg-gray-700 rounded px-1.5 py-0.5 font-mono text-yellow-300"
+            title="Dagfrekvens (FOT vid lokal middag)"
+          >
+            <Sun size={10} /> {suggestion.dayMhz} MHz
+          </button>
+          <button
+            onClick={() => updateLink(link.id, { frequencyMhz: suggestion.nightMhz })}
+            className="flex items-center gap-1 bg-gray-800 hover:bg-gray-700 rounded px-1.5 py-0.5 font-mono text-blue-300"
+            title="Nattfrekvens (FOT vid lokal midnatt)"
+          >
+            <Moon size={10} /> {suggestion.nightMhz} MHz
+          </button>
+        </div>
+      </>)}
+    </div>
+  );
+}
@@ -1,7 +1,19 @@
+import { useState } from 'react';
 import { X, Trash2, CheckCircle2, XCircle, AlertTriangle, Clock } from 'lucide-react';
 import { useStore } from '../../store';
-import { linkQuality, fmtDb, fmtDbm } from '../../utils/linkBudget';
-import type { LinkStatus } from '../../types';
+import { linkQuality, limitingBudget, dbmToWatt, fmtDb, fmtDbm } from '../../utils/linkBudget';
+import { validateLink } from '../../utils/validation';
+import { planViolations } from '../../utils/frequencyPlan';
+import { measuredSignalWarnings } from '../../utils/spectrumScan';
+import { NET_TOPOLOGY_LABEL } from '../../utils/netTopology';
+import { SEVERITY_COLOR, SEVERITY_LABEL } from '../../utils/conflicts';
+import { dataModes, fmtDataRate, VOICE_GRADE_LABEL } from '../../utils/waveform';
+import type { LinkDirection, LinkStatus, MultipathKind, PropagationMode } from '../../types';
+import PathProfileChart from './PathProfileChart';
+import HfPropagationPanel from './HfPropagationPanel';
+import AtmospherePanel from './AtmospherePanel';
+import SatcomPanel from './SatcomPanel';
+import RelayFinderPanel from './RelayFinderPanel';
 
 const STATUS_ICON: Record<LinkStatus, React.ReactNode> = {
   planned: <Clock size={13} className="text-blue-400" />,
@@ -10,6 +22,18 @@ const STATUS_ICON: Record<LinkStatus, React.ReactNode> = {
   failed: <XCircle size={13} className="text-red-400" />,
 };
 
+const MULTIPATH_LABEL: Record<MultipathKind, string> = {
+  RICIAN: 'Rice',
+  RAYLEIGH: 'Rayleigh',
+};
+
+const PROPAGATION_LABEL: Record<PropagationMode, string> = {
+  TERRESTRIAL: 'Markvåg / LOS',
+  SKYWAVE: 'Rymdvåg',
+  NVIS: 'NVIS',
+  SATELLITE: 'Satellit',
+};
+
 export default function LinkDetailPanel() {
   const selectedLinkId = useStore(s => s.selectedLinkId);
   const links = useStore(s => s.links);
@@ -17,14 +41,38 @@ export default function LinkDetailPanel() {
   const selectLink = useStore(s => s.selectLink);
   const deleteLink = useStore(s => s.deleteLink);
   const updateLink = useStore(s => s.updateLink);
+  const showFresnel = useStore(s => s.settings.showFresnel);
+  const conflicts = useStore(s => s.conflicts);
+  const frequencyPlan = useStore(s => s.frequencyPlan);
+  const scan = useStore(s => s.scans.find(sc => sc.id === s.activeScanId));
+  const nets = useStore(s => s.nets);
+  // Direction shown in the budget; follows the limiting one until picked
+  const [pickedDirection, setPickedDirection] = useState<{ linkId: string; dir: LinkDirection } | null>(null);
+  // Answering power typed past the radio's rating stays in the field, unsaved, until it is corrected
+  const [overPower, setOverPower] = useState<{ linkId: string; text: string } | null>(null);
 
   const link = links.find(l => l.id === selectedLinkId);
   if (!link) return null;
 
   const from = nodes.find(n => n.id === link.fromNodeId);
   const to = nodes.find(n => n.id === link.toNodeId);
-  const b = link.linkBudget;
-  const q = b ? linkQuality(b.linkMarginDb) : null;
+  const fromEquip = from?.equipment.find(e => e.id === link.equipmentFromId);
+  const toEquip = to?.equipment.find(e => e.id === link.equipmentToId);
+  const issues = [
+    ...validateLink(link, fromEquip, toEquip),
+    ...(frequencyPlan
+      ? planViolations(frequencyPlan, link.frequencyMhz, link.bandwidthKhz, [from, to].flatMap(n => n?.position ?? []))
+      : []),
+    ...(scan ? measuredSignalWarnings(scan, link) : []),
+  ];
+  const ownerNet = link.netId ? nets.find(n => n.id === link.netId) : undefined;
+  const victimOf = conflicts.filter(c => c.victimLinkId === link.id);
+  const sourceOf = conflicts.filter(c => c.sourceLinkId === link.id);
+  const budget = link.linkBudget;
+  const direction = pickedDirection?.linkId === link.id ? pickedDirection.dir : budget?.limitingDirection ?? 'FORWARD';
+  const powerDraft = overPower?.linkId === link.id ? overPower.text : undefined;
+  const b = direction === 'REVERSE' && budget?.reverse ? budget.reverse : budget;
+  const q = b ? linkQuality(b.effectiveMarginDb) : null;
 
   const handleDelete = () => {
     deleteLink(link.id);
@@ -49,22 +97,68 @@ export default function LinkDetailPanel() {
         </div>
       </div>
 
-      <div className="p-3 space-y-3">
+      <div className="p-3 space-y-3 max-h-[calc(100vh-9rem)] overflow-y-auto">
         <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
           <div className="text-gray-500">Nättyp</div>
           <div className="text-gray-200">{link.netType}</div>
+          {ownerNet?.topology && (
+            <>
+              <div className="text-gray-500">Topologi</div>
+              <div className="text-gray-200" title="Frekvens och modulering följer nätet">
+                {NET_TOPOLOGY_LABEL[ownerNet.topology]} · {ownerNet.name}
+              </div>
+            </>
+          )}
           <div className="text-gray-500">Modulering</div>
           <div className="font-mono text-gray-200">{link.waveform}</div>
           <div className="text-gray-500">Bandbredd</div>
           <div className="font-mono text-gray-200">{link.bandwidthKhz} kHz</div>
           <div className="text-gray-500">Sändeffekt</div>
           <div className="font-mono text-gray-200">{link.txPowerW} W</div>
+          <div className="text-gray-500">Svarseffekt</div>
+          <input
+            type="number"
+            min={0.1}
+            max={toEquip?.maxPowerW}
+            step={0.1}
+            className={`w-16 bg-gray-800 border rounded px-1 text-xs font-mono text-gray-200
+              ${powerDraft !== undefined ? 'border-red-500/60' : 'border-white/10'}`}
+            value={powerDraft ?? link.reverseTxPowerW ?? ''}
+            placeholder={budget?.reverse ? dbmToWatt(budget.reverse.txPowerDbm).toFixed(1) : ''}
+            title="Motstationens sändeffekt (W) – tomt = radions maxeffekt"
+            onChange={e => {
+              const w = e.target.value === '' ? undefined : Number(e.target.value);
+              // The answering radio cannot be driven past its rating
+              if (w !== undefined && toEquip && w > toEquip.maxPowerW) {
+                setOverPower({ linkId: link.id, text: e.target.value });
+                return;
+              }
+              setOverPower(null);
+              updateLink(link.id, { reverseTxPowerW: w });
+            }}
+          />
+          {powerDraft !== undefined && toEquip && (
+            <div className="col-span-2 text-[10px] text-red-400">
+              {toEquip.name} ger högst {toEquip.maxPowerW} W – {powerDraft} W sparas inte
+            </div>
+          )}
           <div className="text-gray-500">Från</div>
           <div className="text-gray-200 font-semibold">{from?.label ?? '?'}</div>
           <div className="text-gray-500">Till</div>
           <div className="text-gray-200 font-semibold">{to?.label ?? '?'}</div>
         </div>
 
+        {issues.length > 0 && (
+          <div className="space-y-0.5 text-[10px]">
+            {issues.map((issue, i) => (
+              <div key={i} className={`flex items-start gap-1 ${issue.severity === 'ERROR' ? 'text-red-400' : 'text-yellow-400'}`}>
+                <AlertTriangle size={10} className="mt-0.5 shrink-0" />
+                {issue.message}
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="flex items-center gap-2">
           <span className="text-xs text-gray-500">Status:</span>
           {(['planned', 'active', 'degraded', 'failed'] as LinkStatus[]).map(s => (
@@ -83,6 +177,22 @@ export default function LinkDetailPanel() {
           <div className="bg-gray-800/60 rounded p-2 space-y-0.5">
             <div className="flex items-center justify-between mb-1">
               <span className="text-xs font-semibold text-gray-300">Länkbudget</span>
+              {budget?.reverse && (
+                <div className="flex gap-1">
+                  {(['FORWARD', 'REVERSE'] as LinkDirection[]).map(dir => (
+                    <button
+                      key={dir}
+                      onClick={() => setPickedDirection({ linkId: link.id, dir })}
+                      className={`text-[10px] px-1.5 rounded
+                        ${direction === dir ? 'bg-gray-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}
+                        ${budget.limitingDirection === dir ? 'ring-1 ring-orange-500/60' : ''}`}
+                      title={budget.limitingDirection === dir ? 'Begränsande riktning' : undefined}
+                    >
+                      {dir === 'FORWARD' ? `${from?.label ?? '?'} →` : `← ${to?.label ?? '?'}`}
+                    </button>
+                  ))}
+                </div>
+              )}
               {q && (
                 <span className="text-xs font-bold px-1.5 py-0.5 rounded" style={{ background: q.color + '30', color: q.color }}>
                   {q.label}
@@ -90,23 +200,138 @@ export default function LinkDetailPanel() {
               )}
             </div>
             {[
+              ['Utbredning', PROPAGATION_LABEL[b.propagationMode]],
               ['Avstånd', `${b.distanceKm.toFixed(2)} km`],
+              ['Antennhöjd', `${b.fromAntennaHeightM.toFixed(1)} / ${b.toAntennaHeightM.toFixed(1)} m`],
+              ...(b.fromSiteElevationM !== undefined && b.toSiteElevationM !== undefined
+                ? [['Markhöjd', `${b.fromSiteElevationM.toFixed(0)} / ${b.toSiteElevationM.toFixed(0)} m ö.h.`]]
+                : []),
+              ['Radiohorisont', `${b.radioHorizonKm.toFixed(1)} km${b.beyondHorizon ? ' ⚠' : ''}`],
+              ...(b.satcom
+                ? [['Elevation', `${b.satcom.uplink.look.elevationDeg.toFixed(1)}° / ${b.satcom.downlink.look.elevationDeg.toFixed(1)}°${b.satcom.belowMinElevation ? ' ⚠' : ''}`]]
+                : []),
               ['FSPL', `-${b.fsplDb.toFixed(1)} dB`],
               ['Terrängdämpning', `-${b.terrainLossDb.toFixed(1)} dB`],
+              ['Regndämpning', `-${b.rainLossDb.toFixed(2)} dB`],
+              ['Gasabsorption', `-${b.gasLossDb.toFixed(2)} dB`],
+              ...(b.cloudLossDb > 0 ? [['Moln/dimma', `-${b.cloudLossDb.toFixed(2)} dB`]] : []),
+              ...(b.skywaveLossDb !== undefined ? [['Jonosfärsdämpning', `-${b.skywaveLossDb.toFixed(1)} dB`]] : []),
               ['Mottagen effekt', fmtDbm(b.receivedPowerDbm)],
               ['Rx-känslighet', fmtDbm(b.rxSensitivityDbm)],
               ['Länkmarginal', fmtDb(b.linkMarginDb)],
+              ['Brusgolv', fmtDbm(b.noiseFloorDbm)],
+              ...(b.interferenceDbm !== undefined && b.ciDb !== undefined
+                ? [['Interferens', fmtDbm(b.interferenceDbm)], ['C/I', fmtDb(b.ciDb)]]
+                : []),
+              ['SINR', fmtDb(b.sinrDb)],
+              ['Krävt SNR', `${b.requiredSnrDb.toFixed(1)} dB`],
+              ['Röstkvalitet', `${b.voiceGrade}/5 ${VOICE_GRADE_LABEL[b.voiceGrade]}`],
+              ['Datatakt', b.dataMode ? `${fmtDataRate(b.dataRateKbps)} (${b.dataMode})` : '—'],
+              ['Effektiv marginal', fmtDb(b.effectiveMarginDb)],
+              ['Fädning', `${MULTIPATH_LABEL[b.multipath]}, σ ${b.shadowSigmaDb} dB`],
+              ['Tid / plats', `${b.timeAvailabilityPct.toFixed(1)} / ${b.locationReliabilityPct.toFixed(1)} %`],
+              ['Tillgänglighet', `${b.availabilityPct.toFixed(2)} % (krav ${b.requiredAvailabilityPct} %)`],
             ].map(([label, val]) => (
               <div key={label} className="flex justify-between text-xs">
                 <span className="text-gray-500">{label}</span>
-                <span className={`font-mono ${label === 'Länkmarginal' ? (b.linkMarginDb > 0 ? 'text-green-400' : 'text-red-400') : 'text-gray-200'}`}>
+                <span className={`font-mono ${label === 'Effektiv marginal' ? (b.effectiveMarginDb > 0 ? 'text-green-400' : 'text-red-400') : 'text-gray-200'}`}>
                   {val}
                 </span>
               </div>
             ))}
+            <div className="flex flex-wrap gap-1 pt-1">
+              {dataModes(link.waveform, link.bandwidthKhz).map(m => (
+                <span
+                  key={m.name + m.rateKbps}
+                  className={`text-[10px] font-mono px-1 rounded ${b.sinrDb >= m.requiredSnrDb ? 'bg-green-900/50 text-green-300' : 'bg-gray-800 text-gray-500'}`}
+                  title={`${m.name}, kräver ${m.requiredSnrDb.toFixed(1)} dB SNR`}
+                >
+                  {fmtDataRate(m.rateKbps)}
+                </span>
+              ))}
+            </div>
+            {b.belowAvailabilityTarget && (
+              <div className="text-[10px] text-orange-400 pt-1">
+                Länken har positiv marginal men når inte tillgänglighetskravet för {link.netType}.
+              </div>
+            )}
+            {b.beyondHorizon && (
+              <div className="text-[10px] text-orange-400 pt-1">
+                Avståndet överstiger radiohorisonten – höj antennen eller planera relä.
+              </div>
+            )}
           </div>
         )}
 
+        {b?.interference && (
+          <div className="bg-gray-800/60 rounded p-2">
+            <div className="text-xs font-semibold text-orange-400 mb-1">Interferenskällor</div>
+            {b.interference.map(e => {
+              const conflict = victimOf.find(c => c.direction === direction && c.sourceLinkId === e.linkId);
+              return (
+                <div
+                  key={e.linkId}
+                  className="flex justify-between text-[10px] cursor-pointer hover:bg-white/5 rounded px-1"
+                  onClick={() => selectLink(e.linkId)}
+                  title={[
+                    conflict && `${SEVERITY_LABEL[conflict.severity]} konflikt`,
+                    e.overlapPct !== undefined
+                      ? `Kolliderar på ${e.overlapPct.toFixed(1)} % av hoppen`
+                      : `Avstämningsdämpning ${e.rejectionDb.toFixed(0)} dB`,
+                    conflict?.distanceKm !== undefined && `${conflict.distanceKm.toFixed(1)} km`,
+                  ].filter(Boolean).join(' · ')}
+                >
+                  <span className="text-gray-300 truncate">
+                    {e.netName} · {e.overlapPct !== undefined
+                      ? `hopp, ${e.overlapPct.toFixed(1)} % överlapp`
+                      : `${e.frequencyMhz} MHz (${e.offsetKhz >= 0 ? '+' : ''}${e.offsetKhz.toFixed(0)} kHz)`}
+                  </span>
+                  <span className="font-mono" style={{ color: conflict ? SEVERITY_COLOR[conflict.severity] : undefined }}>
+                    C/I {e.ciDb.toFixed(0)} dB
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {sourceOf.length > 0 && (
+          <div className="bg-gray-800/60 rounded p-2">
+            <div className="text-xs font-semibold text-orange-400 mb-1">Stör andra länkar</div>
+            {sourceOf.map(c => (
+              <div
+                key={c.id}
+                className="flex justify-between text-[10px] cursor-pointer hover:bg-white/5 rounded px-1"
+                onClick={() => selectLink(c.victimLinkId)}
+              >
+                <span className="text-gray-300 truncate">
+                  {links.find(l => l.id === c.victimLinkId)?.netName} · {c.overlapPct !== undefined
+                    ? `${c.overlapPct.toFixed(1)} % av hoppen`
+                    : `${c.victimFrequencyMhz} MHz`}
+                  {c.direction === 'REVERSE' ? ' (svar)' : ''}
+                </span>
+                <span className="font-mono" style={{ color: SEVERITY_COLOR[c.severity] }}>
+                  {SEVERITY_LABEL[c.severity]} · C/I {c.ciDb.toFixed(0)} dB
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {budget && !limitingBudget(budget).feasible && budget.propagationMode !== 'SATELLITE' && (
+          <RelayFinderPanel link={link} />
+        )}
+
+        {fromEquip?.category === 'SATCOM' && from && to && <SatcomPanel link={link} from={from} to={to} />}
+
+        {b && link.frequencyMhz >= 1000 && <AtmospherePanel budget={b} />}
+
+        {fromEquip?.category === 'HF' && from && to && (
+          <HfPropagationPanel link={link} from={from} to={to} equip={fromEquip} />
+        )}
+
+        {showFresnel && from && to && b?.propagationMode !== 'SATELLITE' && <PathProfileChart link={link} from={from} to={to} />}
+
         {link.notes && (
           <div className="text-xs text-gray-400 italic border-t border-white/10 pt-2">
             {link.notes}
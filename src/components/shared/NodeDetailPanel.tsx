@@ -1,6 +1,8 @@
-import { X, Radio, MapPin, Antenna } from 'lucide-react';
+import { X, Radio, MapPin, Antenna, RadioTower } from 'lucide-react';
 import { useStore } from '../../store';
 import { formatLatLng } from '../../utils/geo';
+import CoveragePanel from './CoveragePanel';
+import AntennaMountEditor from './AntennaMountEditor';
 
 export default function NodeDetailPanel() {
   const selectedNodeId = useStore(s => s.selectedNodeId);
@@ -10,11 +12,15 @@ export default function NodeDetailPanel() {
   const selectNode = useStore(s => s.selectNode);
   const setPlanningFrom = useStore(s => s.setPlanningFrom);
   const planningFromNodeId = useStore(s => s.planningFromNodeId);
+  const elevationSource = useStore(s => s.elevationSource);
+  const updateVehicle = useStore(s => s.updateVehicle);
 
   const node = nodes.find(n => n.id === selectedNodeId);
   if (!node) return null;
 
   const unit = units.find(u => u.id === node.unitId);
+  const vehicle = unit?.vehicles.find(v => v.id === node.vehicleId);
+  const siteElevation = elevationSource.elevationAt(node.position);
   const nodeLinks = links.filter(l => l.fromNodeId === node.id || l.toNodeId === node.id);
 
   const isPlanningFrom = planningFromNodeId === node.id;
@@ -32,7 +38,7 @@ export default function NodeDetailPanel() {
         </button>
       </div>
 
-      <div className="p-3 space-y-3">
+      <div className="p-3 space-y-3 max-h-[calc(100vh-9rem)] overflow-y-auto">
         <div>
           <div className="text-xs text-gray-500 mb-0.5">Enhet</div>
           <div className="text-sm text-gray-200">{node.fullName}</div>
@@ -44,8 +50,39 @@ export default function NodeDetailPanel() {
             <MapPin size={10} /> Position
           </div>
           <div className="text-xs font-mono text-gray-300">{formatLatLng(node.position)}</div>
+          <div className="text-[10px] text-gray-500">
+            Markhöjd {siteElevation !== null ? `${siteElevation.toFixed(0)} m ö.h.` : 'okänd'}
+          </div>
         </div>
 
+        {vehicle && (
+          <div>
+            <div className="text-xs text-gray-500 mb-0.5 flex items-center gap-1">
+              <RadioTower size={10} /> Mast
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => updateVehicle(vehicle.id, { mastUp: !vehicle.mastUp })}
+                className={`text-[10px] px-2 py-0.5 rounded font-semibold
+                  ${vehicle.mastUp ? 'bg-green-800 text-green-200' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+              >
+                {vehicle.mastUp ? 'Mast uppe (halt)' : 'Mast nere (förflyttning)'}
+              </button>
+              <label className="flex items-center gap-1 text-[10px] text-gray-500">
+                <input
+                  type="number"
+                  min={0}
+                  max={40}
+                  className="w-10 bg-gray-800 border border-white/10 rounded px-1 font-mono text-gray-200"
+                  value={vehicle.mastHeightM ?? 0}
+                  onChange={e => updateVehicle(vehicle.id, { mastHeightM: Number(e.target.value) })}
+                />
+                m
+              </label>
+            </div>
+          </div>
+        )}
+
         <div>
           <div className="text-xs text-gray-500 mb-1 flex items-center gap-1">
             <Antenna size={10} /> Radioutrustning ({node.equipment.length})
@@ -63,6 +100,7 @@ export default function NodeDetailPanel() {
                   <div className="text-[10px] text-gray-500 mt-0.5">
                     {eq.freqMin}–{eq.freqMax} MHz · {eq.maxPowerW} W · {eq.antennaGainDbi} dBi
                   </div>
+                  {node.vehicleId && <AntennaMountEditor vehicleId={node.vehicleId} equip={eq} />}
                 </div>
               ))}
             </div>
@@ -84,6 +122,8 @@ export default function NodeDetailPanel() {
           </div>
         )}
 
+        <CoveragePanel key={node.id} node={node} />
+
         <button
           onClick={() => setPlanningFrom(isPlanningFrom ? null : node.id)}
           className={`w-full text-xs py-2 rounded font-semibold flex items-center justify-center gap-2
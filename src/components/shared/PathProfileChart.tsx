@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { useStore } from '../../store';
+import type { RadioLink, RadioNode } from '../../types';
+import { analyzePathProfile } from '../../utils/pathProfile';
+import { fresnelRadius1 } from '../../utils/linkBudget';
+import { DEFAULT_ANTENNA_HEIGHT_M } from '../../utils/terrain';
+
+const K_FACTORS: { value: number; label: string }[] = [
+  { value: 2 / 3, label: '⅔' },
+  { value: 1, label: '1' },
+  { value: 4 / 3, label: '4/3' },
+  { value: 2, label: '2' },
+];
+
+const W = 296;
+const H = 120;
+const PAD = { left: 30, right: 6, top: 8, bottom: 16 };
+
+function clearanceColor(pct: number): string {
+  if (pct >= 60) return '#22c55e';
+  if (pct >= 0) return '#facc15';
+  return '#ef4444';
+}
+
+interface Props {
+  link: RadioLink;
+  from: RadioNode;
+  to: RadioNode;
+}
+
+/** Path profile with earth curvature, line of sight and first Fresnel zone */
+export default function PathProfileChart({ link, from, to }: Props) {
+  const elevationSource = useStore(s => s.elevationSource);
+  const kFactor = useStore(s => s.settings.kFactor);
+  const updateSettings = useStore(s => s.updateSettings);
+
+  const txHeightM = link.linkBudget?.fromAntennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M;
+  const rxHeightM = link.linkBudget?.toAntennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M;
+
+  const analysis = useMemo(
+    () => analyzePathProfile(
+      from.position, to.position, link.frequencyMhz, elevationSource,
+      txHeightM, rxHeightM, kFactor,
+    ),
+    [from.position, to.position, link.frequencyMhz, elevationSource, txHeightM, rxHeightM, kFactor],
+  );
+
+  const { samples, worst } = analysis;
+  const totalKm = samples[samples.length - 1].distKm;
+  const yMin = Math.min(...samples.map(s => Math.min(s.groundM, s.losM - s.fresnelM)));
+  const yMax = Math.max(...samples.map(s => Math.max(s.groundM, s.losM + s.fresnelM)));
+  const ySpan = Math.max(yMax - yMin, 1);
+
+  const x = (km: number) => PAD.left + (totalKm > 0 ? km / totalKm : 0) * (W - PAD.left - PAD.right);
+  const y = (m: number) => PAD.top + (1 - (m - yMin) / ySpan) * (H - PAD.top - PAD.bottom);
+  const line = (pts: [number, number][]) => pts.map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`).join(' ');
+
+  const ground = line([
+    [x(0), y(yMin)],
+    ...samples.map(s => [x(s.distKm), y(s.groundM)] as [number, number]),
+    [x(totalKm), y(yMin)],
+  ]);
+  const fresnel = line([
+    ...samples.map(s => [x(s.distKm), y(s.losM + s.fresnelM)] as [number, number]),
+    ...[...samples].reverse().map(s => [x(s.distKm), y(s.losM - s.fresnelM)] as [number, number]),
+  ]);
+  const wColor = clearanceColor(worst.clearancePct);
+
+  return (
+    <div className="bg-gray-800/60 rounded p-2">
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs font-semibold text-gray-300">Terrängprofil</span>
+        <div className="flex items-center gap-1">
+          <span className="text-[10px] text-gray-500">k</span>
+          {K_FACTORS.map(k => (
+            <button
+              key={k.label}
+              onClick={() => updateSettings({ kFactor: k.value })}
+              className={`text-[10px] px-1.5 rounded
+                ${Math.abs(kFactor - k.value) < 1e-6 ? 'bg-gray-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+            >
+              {k.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <svg width={W} height={H} className="block">
+        {/* Y axis labels */}
+        <text x={PAD.left - 3} y={PAD.top + 4} textAnchor="end" fontSize={8} fill="#6b7280">{yMax.toFixed(0)}</text>
+        <text x={PAD.left - 3} y={H - PAD.bottom} textAnchor="end" fontSize={8} fill="#6b7280">{yMin.toFixed(0)}</text>
+        <text x={W - PAD.right} y={H - 4} textAnchor="end" fontSize={8} fill="#6b7280">{totalKm.toFixed(1)} km</text>
+        <text x={PAD.left} y={H - 4} fontSize={8} fill="#6b7280">0</text>
+
+        <polygon points={fresnel} fill="#60a5fa22" stroke="#60a5fa66" strokeWidth={0.75} />
+        <polygon points={ground} fill="#78716c" stroke="#a8a29e" strokeWidth={0.75} />
+        <line
+          x1={x(0)} y1={y(analysis.txAntennaM)} x2={x(totalKm)} y2={y(analysis.rxAntennaM)}
+          stroke="#f3f4f6" strokeWidth={1} strokeDasharray="3 2"
+        />
+        {Number.isFinite(worst.clearancePct) && (
+          <>
+            <line
+              x1={x(worst.distKm)} y1={y(worst.groundM)} x2={x(worst.distKm)} y2={y(worst.losM)}
+              stroke={wColor} strokeWidth={1.5}
+            />
+            <circle cx={x(worst.distKm)} cy={y(worst.groundM)} r={2.5} fill={wColor} />
+          </>
+        )}
+      </svg>
+
+      <div className="grid grid-cols-2 gap-x-4 text-[10px] mt-1">
+        <span className="text-gray-500">Sämsta punkt</span>
+        <span className="font-mono text-gray-200">{worst.distKm.toFixed(2)} km</span>
+        <span className="text-gray-500">Fresnelfrigång</span>
+        <span className="font-mono" style={{ color: wColor }}>
+          {Number.isFinite(worst.clearancePct) ? `${worst.clearancePct.toFixed(0)} % F1` : '—'}
+        </span>
+        <span className="text-gray-500">F1-radie (mitt)</span>
+        <span className="font-mono text-gray-200">{fresnelRadius1(totalKm, link.frequencyMhz).toFixed(1)} m</span>
+        <span className="text-gray-500">Höjddata</span>
+        <span className="text-gray-400 truncate">{elevationSource.name}</span>
+      </div>
+    </div>
+  );
+}
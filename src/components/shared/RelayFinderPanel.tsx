@@ -0,0 +1,69 @@
+import { Radio, X } from 'lucide-react';
+import { useStore } from '../../store';
+import { limitingBudget } from '../../utils/linkBudget';
+import type { RadioLink } from '../../types';
+import { formatLatLng } from '../../utils/geo';
+import { DEFAULT_RELAY_MARGIN_DB, RELAY_MAST_HEIGHT_M } from '../../utils/relay';
+
+interface Props {
+  link: RadioLink;
+}
+
+/** Relay site search for a link that does not close on its own */
+export default function RelayFinderPanel({ link }: Props) {
+  const search = useStore(s => s.relaySearch);
+  const catalog = useStore(s => s.equipmentCatalog);
+  const findRelay = useStore(s => s.findRelay);
+  const insertRelay = useStore(s => s.insertRelay);
+  const clearRelaySearch = useStore(s => s.clearRelaySearch);
+
+  const current = search?.linkId === link.id ? search : null;
+  const relayName = catalog.find(e => e.id === current?.relayEquipId)?.name;
+
+  return (
+    <div className="bg-gray-800/60 rounded p-2 space-y-1.5">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-300">Reläplats</span>
+        {current ? (
+          <button onClick={clearRelaySearch} className="text-gray-500 hover:text-gray-300"><X size={12} /></button>
+        ) : (
+          <button
+            onClick={() => findRelay(link.id)}
+            className="flex items-center gap-1 text-[10px] px-2 py-0.5 rounded bg-purple-800 hover:bg-purple-700 text-white"
+          >
+            <Radio size={11} /> Hitta relä
+          </button>
+        )}
+      </div>
+
+      {current && !current.relayEquipId && (
+        <div className="text-[10px] text-red-400">Ingen radio i katalogen täcker {link.frequencyMhz} MHz.</div>
+      )}
+      {current?.relayEquipId && (
+        <div className="text-[10px] text-gray-500">
+          {relayName} på {RELAY_MAST_HEIGHT_M} m mast · krav {DEFAULT_RELAY_MARGIN_DB} dB per hopp
+        </div>
+      )}
+      {current?.relayEquipId && current.suggestions.length === 0 && (
+        <div className="text-[10px] text-orange-400">Ingen plats runt sträckan klarar båda hoppen.</div>
+      )}
+      {current?.suggestions.map((s, i) => (
+        <div key={i} className="flex items-center justify-between gap-2 text-[10px]">
+          <span className="text-gray-300">
+            {i + 1}. <span className="font-mono">{formatLatLng(s.position, 3)}</span>
+            {s.siteElevationM !== undefined && <span className="text-gray-500"> · {s.siteElevationM.toFixed(0)} m</span>}
+          </span>
+          <span className="font-mono text-green-400">
+            {limitingBudget(s.hop1).effectiveMarginDb.toFixed(0)}/{limitingBudget(s.hop2).effectiveMarginDb.toFixed(0)} dB
+          </span>
+          <button
+            onClick={() => insertRelay(link.id, s)}
+            className="px-1.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200"
+          >
+            Infoga
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
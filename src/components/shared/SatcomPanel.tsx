@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useStore } from '../../store';
+import type { RadioLink, RadioNode, Satellite, SatcomHop } from '../../types';
+
+interface Props {
+  link: RadioLink;
+  from: RadioNode;
+  to: RadioNode;
+}
+
+const inputCls = 'bg-gray-800 border border-white/10 rounded px-1 text-[10px] font-mono text-gray-200';
+
+const EMPTY_SATELLITE: Omit<Satellite, 'id'> = {
+  name: '',
+  orbit: 'GEO',
+  longitudeDeg: 0,
+  tle: { line1: '', line2: '' },
+  uplinkOffsetMhz: 101.5,
+  gtDbK: 0,
+  rxGainDbi: 35,
+  transponderGainDb: 170,
+  saturatedEirpDbw: 45,
+};
+
+/** Form for adding a GEO or TLE satellite to the local catalogue */
+function AddSatelliteForm({ onDone }: { onDone: (sat?: Satellite) => void }) {
+  const addSatellite = useStore(s => s.addSatellite);
+  const [form, setForm] = useState(EMPTY_SATELLITE);
+  const [error, setError] = useState<string | null>(null);
+  const num = (key: keyof Satellite) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm(f => ({ ...f, [key]: Number(e.target.value) }));
+
+  const submit = () => {
+    try {
+      const { tle, longitudeDeg, ...rest } = form;
+      onDone(addSatellite({
+        ...rest,
+        name: form.name || (form.orbit === 'GEO' ? `GEO ${longitudeDeg}°` : 'TLE-satellit'),
+        ...(form.orbit === 'GEO' ? { longitudeDeg } : { tle }),
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="border-t border-white/10 pt-1.5 space-y-1 text-[10px] text-gray-500">
+      <div className="flex gap-1">
+        <input className={`${inputCls} flex-1`} placeholder="Namn" value={form.name}
+          onChange={e => setForm(f => ({ ...f, name: e.target.value }))} />
+        {(['GEO', 'TLE'] as const).map(orbit => (
+          <button
+            key={orbit}
+            onClick={() => setForm(f => ({ ...f, orbit }))}
+            className={`px-1.5 rounded ${form.orbit === orbit ? 'bg-gray-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+          >
+            {orbit}
+          </button>
+        ))}
+      </div>
+      {form.orbit === 'GEO' ? (
+        <label className="flex items-center gap-1">
+          Longitud
+          <input type="number" min={-180} max={180} step={0.1} className={`${inputCls} w-16`}
+            value={form.longitudeDeg} onChange={num('longitudeDeg')} />
+          °Ö
+        </label>
+      ) : (
+        (['line1', 'line2'] as const).map(key => (
+          <input
+            key={key}
+            className={`${inputCls} w-full`}
+            placeholder={key === 'line1' ? '1 NNNNNU ...' : '2 NNNNN ...'}
+            value={form.tle?.[key] ?? ''}
+            onChange={e => setForm(f => ({ ...f, tle: { line1: '', line2: '', ...f.tle, [key]: e.target.value } }))}
+          />
+        ))
+      )}
+      <div className="grid grid-cols-2 gap-x-2 gap-y-1">
+        {([
+          ['G/T (dB/K)', 'gtDbK'],
+          ['Rx-förstärkning (dBi)', 'rxGainDbi'],
+          ['Transponderförst. (dB)', 'transponderGainDb'],
+          ['Mättad EIRP (dBW)', 'saturatedEirpDbw'],
+          ['Upplänk-offset (MHz)', 'uplinkOffsetMhz'],
+        ] as const).map(([label, key]) => (
+          <label key={key} className="flex items-center justify-between gap-1">
+            {label}
+            <input type="number" className={`${inputCls} w-14`} value={form[key]} onChange={num(key)} />
+          </label>
+        ))}
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+      <div className="flex gap-1">
+        <button onClick={submit} className="flex-1 bg-green-700 hover:bg-green-600 text-white rounded py-0.5">Lägg till</button>
+        <button onClick={() => onDone()} className="flex-1 bg-gray-700 hover:bg-gray-600 text-white rounded py-0.5">Avbryt</button>
+      </div>
+    </div>
+  );
+}
+
+/** Satellite choice, look angles and separate uplink/downlink budgets for a SATCOM link */
+export default function SatcomPanel({ link, from, to }: Props) {
+  const satellites = useStore(s => s.satellites);
+  const updateLink = useStore(s => s.updateLink);
+  const deleteSatellite = useStore(s => s.deleteSatellite);
+  const [adding, setAdding] = useState(false);
+
+  const sat = satellites.find(s => s.id === link.satelliteId);
+  const sc = link.linkBudget?.satcom;
+
+  const hopRows = (label: string, terminal: string, hop: SatcomHop) => (
+    <>
+      <span className="text-gray-400">{label}</span>
+      <span className="font-mono text-gray-200">{hop.frequencyMhz.toFixed(2)} MHz</span>
+      <span className="text-gray-500">{terminal}</span>
+      <span className={`font-mono ${hop.belowMinElevation ? 'text-red-400' : 'text-gray-200'}`}>
+        Az {hop.look.azimuthDeg.toFixed(1)}° · El {hop.look.elevationDeg.toFixed(1)}°
+      </span>
+      <span className="text-gray-500">Snedavstånd</span>
+      <span className="font-mono text-gray-200">{hop.look.slantKm.toFixed(0)} km</span>
+      <span className="text-gray-500">EIRP</span>
+      <span className="font-mono text-gray-200">{hop.eirpDbw.toFixed(1)} dBW</span>
+      <span className="text-gray-500">FSPL / atmosfär</span>
+      <span className="font-mono text-gray-200">
+        -{hop.fsplDb.toFixed(1)} / -{(hop.rainLossDb + hop.gasLossDb + hop.cloudLossDb).toFixed(2)} dB
+      </span>
+      <span className="text-gray-500">G/T</span>
+      <span className="font-mono text-gray-200">{hop.gtDbK.toFixed(1)} dB/K</span>
+      <span className="text-gray-500">C/N₀</span>
+      <span className="font-mono text-gray-200">{hop.cn0DbHz.toFixed(1)} dBHz</span>
+    </>
+  );
+
+  return (
+    <div className="bg-gray-800/60 rounded p-2 space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-semibold text-gray-300">Satellit</span>
+        <div className="flex items-center gap-1">
+          <select
+            className={`${inputCls} py-0.5`}
+            value={link.satelliteId ?? ''}
+            onChange={e => updateLink(link.id, { satelliteId: e.target.value || undefined })}
+          >
+            <option value="">— ingen —</option>
+            {satellites.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          {sat && (
+            <button onClick={() => deleteSatellite(sat.id)} title="Ta bort ur katalogen" className="text-red-500/60 hover:text-red-400">
+              <Trash2 size={11} />
+            </button>
+          )}
+          <button onClick={() => setAdding(a => !a)} title="Ny satellit" className="text-gray-400 hover:text-gray-200">
+            <Plus size={12} />
+          </button>
+        </div>
+      </div>
+
+      {adding && (
+        <AddSatelliteForm onDone={added => {
+          setAdding(false);
+          if (added) updateLink(link.id, { satelliteId: added.id });
+        }} />
+      )}
+
+      {!sat && (
+        <div className="text-[10px] text-gray-500">Ingen satellit vald – länken räknas som punkt till punkt.</div>
+      )}
+
+      {sat && sc && (
+        <>
+          <div className="text-[10px] text-gray-500">
+            {sat.orbit === 'GEO'
+              ? `Geostationär ${sat.longitudeDeg}°`
+              : `TLE, sämsta läge ${new Date(sc.evaluatedAt).toLocaleString('sv-SE')} · synlig ${sc.visiblePct.toFixed(0)} % av tidsfönstret`}
+          </div>
+          <div className="grid grid-cols-2 gap-x-2 text-[10px]">
+            {hopRows('Upplänk', from.label, sc.uplink)}
+            {hopRows('Nedlänk', to.label, sc.downlink)}
+            <span className="text-gray-400">Totalt C/N₀</span>
+            <span className="font-mono text-gray-200">{sc.cn0DbHz.toFixed(1)} dBHz</span>
+            <span className="text-gray-500">C/N ({link.bandwidthKhz} kHz)</span>
+            <span className="font-mono text-gray-200">{sc.cnDb.toFixed(1)} dB</span>
+          </div>
+          {sc.belowMinElevation && (
+            <div className="text-[10px] text-red-400">
+              {[
+                sc.uplink.belowMinElevation && `${from.label} (${sc.uplink.look.elevationDeg.toFixed(1)}° < ${sc.uplink.minElevationDeg}°)`,
+                sc.downlink.belowMinElevation && `${to.label} (${sc.downlink.look.elevationDeg.toFixed(1)}° < ${sc.downlink.minElevationDeg}°)`,
+              ].filter(Boolean).join(', ')}
+              {' '}ser satelliten under terminalens minsta elevation.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
-import { Map, BarChart2, Clock, Radio } from 'lucide-react';
+import { Map, BarChart2, Clock, Grid3x3, Radio, Loader2 } from 'lucide-react';
 import { useStore } from '../../store';
 import type { AppView } from '../../types';
 import BackgroundMusic from './BackgroundMusic';
+import { SEVERITY_COLOR, SEVERITY_LABEL, SEVERITY_ORDER } from '../../utils/conflicts';
 
 const VIEWS: { id: AppView; label: string; icon: React.ReactNode }[] = [
   { id: 'map', label: 'Karta', icon: <Map size={15} /> },
   { id: 'spectrum', label: 'Spektrum', icon: <BarChart2 size={15} /> },
   { id: 'timeline', label: 'Tidslinje', icon: <Clock size={15} /> },
+  { id: 'occupancy', label: 'Frekvens–tid', icon: <Grid3x3 size={15} /> },
 ];
 
 const SIDEBAR_TABS: { id: 'org' | 'links' | 'nets'; label: string }[] = [
@@ -21,10 +23,14 @@ export default function Topbar() {
   const sidebarTab = useStore(s => s.sidebarTab);
   const setSidebarTab = useStore(s => s.setSidebarTab);
   const links = useStore(s => s.links);
+  const budgetsPending = useStore(s => s.budgetsPending);
+  const budgetError = useStore(s => s.budgetError);
+  const conflicts = useStore(s => s.conflicts);
 
   const activeCount = links.filter(l => l.status === 'active').length;
   const failedCount = links.filter(l => l.status === 'failed').length;
   const degradedCount = links.filter(l => l.status === 'degraded').length;
+  const worstConflict = conflicts[0]?.severity;
 
   return (
     <header className="flex items-center h-12 bg-gray-950 border-b border-white/10 px-3 gap-3 flex-shrink-0">
@@ -74,6 +80,24 @@ export default function Topbar() {
 
       {/* Status indicators */}
       <div className="flex items-center gap-3 text-xs border-l border-white/10 pl-3">
+        {budgetsPending && (
+          <div className="flex items-center gap-1 text-gray-400" title="Länkbudgetar beräknas">
+            <Loader2 size={12} className="animate-spin" /> Beräknar…
+          </div>
+        )}
+        {budgetError && <span className="text-red-400" title={budgetError}>Budgetfel</span>}
+        {worstConflict && (
+          <button
+            onClick={() => setView('spectrum')}
+            className="flex items-center gap-1.5 px-1.5 py-0.5 rounded border hover:bg-white/5"
+            style={{ color: SEVERITY_COLOR[worstConflict], borderColor: `${SEVERITY_COLOR[worstConflict]}80` }}
+            title={SEVERITY_ORDER
+              .map(sev => `${SEVERITY_LABEL[sev]}: ${conflicts.filter(c => c.severity === sev).length}`)
+              .join(' · ')}
+          >
+            ⚠ {conflicts.length} konflikt{conflicts.length !== 1 ? 'er' : ''}
+          </button>
+        )}
         {activeCount > 0 && (
           <div className="flex items-center gap-1.5">
             <div className="w-2 h-2 rounded-full bg-green-400 animate-pulse" />
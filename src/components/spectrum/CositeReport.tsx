@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import { useStore } from '../../store';
+import { analyzeCosite } from '../../utils/cosite';
+import type { CositeHit } from '../../utils/cosite';
+
+const KIND_LABEL: Record<CositeHit['kind'], string> = {
+  IM: 'Intermodulation',
+  DESENS: 'Blockering',
+};
+
+/** Co-site intermodulation and desensitisation hits for all transmitting sites */
+export default function CositeReport() {
+  const links = useStore(s => s.links);
+  const nodes = useStore(s => s.nodes);
+  const selectLink = useStore(s => s.selectLink);
+
+  const hits = useMemo(() => analyzeCosite(links, {
+    positionOf: id => nodes.find(n => n.id === id)?.position,
+    rxSensitivityDbm: l => l.linkBudget?.rxSensitivityDbm ?? -110,
+    equipmentOf: (nodeId, equipmentId) => nodes.find(n => n.id === nodeId)?.equipment.find(e => e.id === equipmentId),
+  }), [links, nodes]);
+
+  const linkName = (id: string) => {
+    const l = links.find(x => x.id === id);
+    return l ? `${l.netName} (${l.frequencyMhz} MHz)` : id;
+  };
+  const nodeLabel = (id: string) => nodes.find(n => n.id === id)?.label ?? id;
+
+  return (
+    <div className="mt-4 border-t border-white/10 pt-3">
+      <div className="text-xs font-semibold mb-2 flex items-center gap-2">
+        <span className={hits.length > 0 ? 'text-orange-400' : 'text-gray-500'}>Samlokalisering</span>
+        <span className="text-gray-600 font-normal">IM-produkter av ordning 2/3/5 och blockering</span>
+      </div>
+      {hits.length === 0 && <div className="text-xs text-gray-600">Inga träffar</div>}
+      {hits.map((h, i) => (
+        <div key={i} className="text-xs text-gray-400 bg-orange-900/20 border border-orange-800/30 rounded px-2 py-1 mb-1">
+          <div className="flex justify-between gap-2">
+            <span>
+              <span className="text-orange-300">{KIND_LABEL[h.kind]}{h.order ? ` ${h.order}:e ordn.` : ''}</span>
+              {' · '}{nodeLabel(h.siteNodeId)} · <span className="font-mono">{h.formula} = {h.productMhz} MHz</span>
+            </span>
+            <span className={`font-mono ${h.marginDb > 0 ? 'text-red-400' : 'text-yellow-400'}`}>
+              {h.levelDbm.toFixed(0)} dBm
+            </span>
+          </div>
+          <div className="text-[10px] text-gray-500">
+            Källor:{' '}
+            {h.sourceLinkIds.map((id, j) => (
+              <span key={id}>
+                {j > 0 && ', '}
+                <span className="cursor-pointer hover:text-gray-200" onClick={() => selectLink(id)}>{linkName(id)}</span>
+              </span>
+            ))}
+            {' → stör '}
+            <span className="cursor-pointer text-gray-300 hover:text-white" onClick={() => selectLink(h.victimLinkId)}>
+              {linkName(h.victimLinkId)}
+            </span>
+            {' vid '}{nodeLabel(h.victimNodeId)}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
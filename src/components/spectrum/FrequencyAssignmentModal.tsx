@@ -0,0 +1,184 @@
+import { useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { useStore } from '../../store';
+import type { FrequencyPoolBand } from '../../types';
+import type { AssignmentResult } from '../../utils/frequencyAssignment';
+import { SLOT_LABEL } from '../../utils/frequencyAssignment';
+import { nanoid } from '../../utils/id';
+
+interface Props { onClose: () => void }
+
+const inputCls = 'w-full bg-gray-800 border border-white/10 rounded px-1 py-0.5 text-xs font-mono text-gray-100';
+
+const POOL_COLUMNS: [string, keyof FrequencyPoolBand][] = [
+  ['Från (MHz)', 'minMhz'],
+  ['Till (MHz)', 'maxMhz'],
+  ['Raster (kHz)', 'channelSpacingKhz'],
+  ['Skydd (kHz)', 'guardBandKhz'],
+  ['Återanv. (km)', 'reuseDistanceKm'],
+];
+
+const fmtMhz = (mhz?: number) => (mhz === undefined ? '—' : mhz.toFixed(3));
+
+/** Frequency pool editor, solver run and preview of the proposed channel plan */
+export default function FrequencyAssignmentModal({ onClose }: Props) {
+  const pool = useStore(s => s.frequencyPool);
+  const frequencyPlan = useStore(s => s.frequencyPlan);
+  const updateFrequencyPool = useStore(s => s.updateFrequencyPool);
+  const planFrequencies = useStore(s => s.planFrequencies);
+  const applyFrequencyAssignment = useStore(s => s.applyFrequencyAssignment);
+
+  const [keepExisting, setKeepExisting] = useState(true);
+  const [assignAlternates, setAssignAlternates] = useState(true);
+  const [result, setResult] = useState<AssignmentResult | null>(null);
+
+  const editBand = (id: string, patch: Partial<FrequencyPoolBand>) => {
+    updateFrequencyPool(pool.map(b => b.id === id ? { ...b, ...patch } : b));
+    setResult(null);
+  };
+  const addBand = () => {
+    updateFrequencyPool([...pool, {
+      id: nanoid(), label: 'Nytt band', minMhz: 30, maxMhz: 88, channelSpacingKhz: 25, guardBandKhz: 0, reuseDistanceKm: 40,
+    }]);
+    setResult(null);
+  };
+
+  const changedCount = result?.assignments.filter(({ target, mhz }) =>
+    target.slots.some(slot => mhz[slot] !== undefined && mhz[slot] !== target.current[slot])).length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-gray-900 border border-white/20 rounded-lg w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b border-white/10 sticky top-0 bg-gray-900">
+          <h2 className="text-sm font-semibold text-gray-100">Frekvenstilldelning</h2>
+          <button onClick={onClose}><X size={16} className="text-gray-400" /></button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-gray-400">Frekvenspool</span>
+              <button onClick={addBand} className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-200">
+                <Plus size={12} /> Band
+              </button>
+            </div>
+            <div className="grid grid-cols-[1fr_repeat(5,4.5rem)_1rem] gap-1 items-center text-[10px] text-gray-500">
+              <span>Band</span>
+              {POOL_COLUMNS.map(([label]) => <span key={label}>{label}</span>)}
+              <span />
+              {pool.map(band => (
+                <div key={band.id} className="contents">
+                  <input className={inputCls} value={band.label} onChange={e => editBand(band.id, { label: e.target.value })} />
+                  {POOL_COLUMNS.map(([, key]) => (
+                    <input
+                      key={key}
+                      type="number"
+                      min={0}
+                      className={inputCls}
+                      value={band[key]}
+                      onChange={e => editBand(band.id, { [key]: Number(e.target.value) })}
+                    />
+                  ))}
+                  <button
+                    onClick={() => { updateFrequencyPool(pool.filter(b => b.id !== band.id)); setResult(null); }}
+                    className="text-red-500/60 hover:text-red-400"
+                  >
+                    <Trash2 size={11} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {frequencyPlan && (
+              <div className="text-[10px] text-gray-500 mt-1">
+                Endast kanaler som frekvensplanen {frequencyPlan.name} tillåter på nätens platser delas ut.
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-4 text-xs text-gray-400">
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={keepExisting} onChange={e => setKeepExisting(e.target.checked)} />
+              Behåll nuvarande frekvenser där det går
+            </label>
+            <label className="flex items-center gap-1.5">
+              <input type="checkbox" checked={assignAlternates} onChange={e => setAssignAlternates(e.target.checked)} />
+              Alternativfrekvens för nät
+            </label>
+            <button
+              onClick={() => setResult(planFrequencies({ keepExisting, assignAlternates }))}
+              className="ml-auto bg-gray-700 hover:bg-gray-600 text-white px-3 py-1 rounded"
+            >
+              Beräkna
+            </button>
+          </div>
+
+          {result && (
+            <>
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500 text-left">
+                    <th className="font-normal">Nät / länkar</th>
+                    <th className="font-normal">Bandbredd</th>
+                    <th className="font-normal">Primär (MHz)</th>
+                    <th className="font-normal">Alternativ (MHz)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.assignments.map(({ target, mhz }) => (
+                    <tr key={target.id} className="border-t border-white/5">
+                      <td className="py-0.5 text-gray-200">
+                        {target.name}
+                        {target.kind === 'LINKS' && <span className="text-gray-500"> ({target.linkIds.length} länk)</span>}
+                      </td>
+                      <td className="font-mono text-gray-400">{target.bandwidthKhz} kHz</td>
+                      {(['PRIMARY', 'ALT'] as const).map(slot => {
+                        const before = target.current[slot];
+                        const after = mhz[slot];
+                        if (!target.slots.includes(slot)) return <td key={slot} className="text-gray-600">—</td>;
+                        return (
+                          <td key={slot} className="font-mono">
+                            {after === undefined
+                              ? <span className="text-red-400">ej tilldelad</span>
+                              : after === before
+                                ? <span className="text-gray-300">{fmtMhz(after)}</span>
+                                : <><span className="text-gray-500 line-through">{fmtMhz(before)}</span> <span className="text-green-400">{fmtMhz(after)}</span></>}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {result.unmet.length > 0 && (
+                <div className="space-y-1">
+                  <div className="text-xs text-red-400 font-semibold">Villkor som inte kunde uppfyllas</div>
+                  {result.unmet.map(u => (
+                    <div key={`${u.target.id}-${u.slot}`} className="text-xs bg-red-900/20 border border-red-800/30 rounded px-2 py-1">
+                      <span className="text-gray-200">{u.target.name}</span>
+                      <span className="text-gray-500"> · {SLOT_LABEL[u.slot]}frekvens: </span>
+                      <span className="text-red-300">{u.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="flex gap-2 pt-2">
+            <button
+              disabled={!result || changedCount === 0}
+              onClick={() => { if (result) applyFrequencyAssignment(result); onClose(); }}
+              className="flex-1 bg-green-700 hover:bg-green-600 disabled:bg-gray-700 disabled:text-gray-400 text-white text-sm py-2 rounded font-semibold"
+            >
+              Verkställ{result ? ` (${changedCount} ändrade)` : ''}
+            </button>
+            <button onClick={onClose} className="flex-1 bg-gray-700 hover:bg-gray-600 text-white text-sm py-2 rounded">
+              Avbryt
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useRef, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { useStore } from '../../store';
+
+/** Loads a national frequency plan (CSV or JSON) that links and nets are checked against */
+export default function FrequencyPlanControl() {
+  const frequencyPlan = useStore(s => s.frequencyPlan);
+  const importFrequencyPlan = useStore(s => s.importFrequencyPlan);
+  const clearFrequencyPlan = useStore(s => s.clearFrequencyPlan);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await importFrequencyPlan(list[0]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={busy}
+        className={`flex items-center gap-1.5 text-xs px-2 py-1 rounded border ${frequencyPlan
+          ? 'bg-gray-800 border-white/20 text-gray-200'
+          : 'bg-gray-900 border-white/10 text-gray-500'}`}
+        title={frequencyPlan ? `Frekvensplan: ${frequencyPlan.name} (${frequencyPlan.entries.length} poster)` : 'Läs in frekvensplan (CSV/JSON)'}
+      >
+        <FileText size={12} />
+        {busy ? 'Läser…' : frequencyPlan ? frequencyPlan.name : 'Frekvensplan'}
+      </button>
+      {frequencyPlan && (
+        <button onClick={clearFrequencyPlan} className="text-gray-500 hover:text-gray-200" title="Ta bort frekvensplan">
+          <X size={11} />
+        </button>
+      )}
+      {error && (
+        <div className="absolute top-full right-0 mt-1 z-20 text-[10px] bg-red-900/80 text-red-200 px-2 py-1 rounded w-56">{error}</div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.json"
+        className="hidden"
+        onChange={e => handleFile(e.target.files)}
+      />
+    </div>
+  );
+}
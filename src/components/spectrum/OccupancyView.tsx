@@ -0,0 +1,324 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Grid3x3 } from 'lucide-react';
+import { useStore } from '../../store';
+import type { RadioLink } from '../../types';
+import { SEVERITY_COLOR, SEVERITY_LABEL, worstSeverityFor } from '../../utils/conflicts';
+import type { SpectrumTimeSlot } from '../../utils/occupancy';
+import { freeSlotAt } from '../../utils/occupancy';
+import type { AxisScale, FrequencyWindow } from '../../utils/spectrumAxis';
+import {
+  FULL_WINDOW, axisTicks, clampWindow, fmtFrequency, fractionToFreq, freqToFraction, panWindow, zoomWindow,
+} from '../../utils/spectrumAxis';
+import AddLinkModal from '../planning/AddLinkModal';
+import type { AddLinkSeed } from '../planning/AddLinkModal';
+
+const NET_COLORS: Record<string, string> = {
+  COMMAND: '#ef4444',
+  ADMIN_LOG: '#f59e0b',
+  FIRE_SUPPORT: '#f97316',
+  AIR: '#60a5fa',
+  DATA: '#34d399',
+  COORD: '#a78bfa',
+};
+
+const HOUR_MS = 3_600_000;
+const LABEL_W = 76;
+const HEADER_H = 28;
+const WHEEL_ZOOM = 0.0015;
+const DRAG_THRESHOLD_PX = 3;
+const MIN_RECT_PX = 3;
+
+/** Log window around the planned links, with some room above and below */
+function fitToLinks(links: RadioLink[]): FrequencyWindow {
+  if (links.length === 0) return FULL_WINDOW;
+  const lo = Math.min(...links.map(l => l.frequencyMhz - l.bandwidthKhz / 2000));
+  const hi = Math.max(...links.map(l => l.frequencyMhz + l.bandwidthKhz / 2000));
+  return clampWindow({ minMhz: lo / 1.5, maxMhz: hi * 1.5 }, 'LOG');
+}
+
+function formatHour(date: Date): string {
+  return date.toLocaleTimeString('sv-SE', { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString('sv-SE', { weekday: 'short', day: '2-digit', month: 'short' });
+}
+
+/** datetime-local value in local time, which is how the link dialog reads it back */
+const toInputTime = (ms: number) => new Date(ms - new Date(ms).getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+
+/**
+ * Frequency against time: every link is a rectangle of its occupied
+ * bandwidth over its planned window, so free spectrum–time and reuse show at
+ * a glance. Wheel zooms frequency (with Shift: time) around the cursor,
+ * dragging pans, and clicking a free spot plans a new link in that slot.
+ */
+export default function OccupancyView() {
+  const links = useStore(s => s.links);
+  const conflicts = useStore(s => s.conflicts);
+  const selectedLinkId = useStore(s => s.selectedLinkId);
+  const selectLink = useStore(s => s.selectLink);
+
+  const [scale, setScale] = useState<AxisScale>('LOG');
+  const [freqView, setFreqView] = useState<FrequencyWindow>(() => fitToLinks(links));
+  const [timeView, setTimeView] = useState(() => {
+    const now = Date.now();
+    return { start: now - 12 * HOUR_MS, end: now + 12 * HOUR_MS };
+  });
+  const [size, setSize] = useState({ width: 800, height: 400 });
+  const [hoverSlot, setHoverSlot] = useState<SpectrumTimeSlot | null>(null);
+  const [seed, setSeed] = useState<AddLinkSeed | null>(null);
+  const plotRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; y: number; freq: FrequencyWindow; time: { start: number; end: number }; moved: boolean } | null>(null);
+
+  const spanMs = timeView.end - timeView.start;
+
+  // Wheel listeners must be non-passive to keep the page from scrolling while zooming
+  useEffect(() => {
+    const el = plotRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const factor = Math.exp(e.deltaY * WHEEL_ZOOM);
+      if (e.shiftKey) {
+        const anchor = (e.clientX - rect.left) / rect.width;
+        setTimeView(t => {
+          const at = t.start + anchor * (t.end - t.start);
+          const span = Math.min(Math.max((t.end - t.start) * factor, HOUR_MS), 30 * 24 * HOUR_MS);
+          return { start: at - anchor * span, end: at + (1 - anchor) * span };
+        });
+      } else {
+        const anchor = 1 - (e.clientY - rect.top) / rect.height;
+        setFreqView(v => zoomWindow(v, anchor, factor, scale));
+      }
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(el);
+    return () => {
+      el.removeEventListener('wheel', onWheel);
+      observer.disconnect();
+    };
+  }, [scale]);
+
+  const xOf = (ms: number) => ((ms - timeView.start) / spanMs) * size.width;
+  const yOf = (mhz: number) => {
+    const f = Math.min(Math.max(mhz, freqView.minMhz), freqView.maxMhz);
+    return (1 - freqToFraction(f, freqView, scale)) * size.height;
+  };
+  const pointAt = (e: React.PointerEvent) => {
+    const rect = plotRef.current!.getBoundingClientRect();
+    return {
+      ms: timeView.start + ((e.clientX - rect.left) / rect.width) * spanMs,
+      mhz: fractionToFreq(1 - (e.clientY - rect.top) / rect.height, freqView, scale),
+    };
+  };
+
+  const visible = links.filter(l =>
+    Date.parse(l.startTime) < timeView.end && Date.parse(l.endTime) > timeView.start
+    && l.frequencyMhz + l.bandwidthKhz / 2000 >= freqView.minMhz && l.frequencyMhz - l.bandwidthKhz / 2000 <= freqView.maxMhz);
+
+  const freqTicks = axisTicks(freqView, scale, Math.max(2, Math.floor(size.height / 40)));
+  const freqStep = freqTicks.length > 1 ? freqTicks[1] - freqTicks[0] : undefined;
+  const logTicks = scale === 'LOG' && Math.log10(freqView.maxMhz / freqView.minMhz) >= 1;
+  const spanHours = spanMs / HOUR_MS;
+  const tickInterval = spanHours <= 12 ? 1 : spanHours <= 48 ? 4 : spanHours <= 240 ? 12 : 24;
+  const timeTicks: { time: number; label: string; major: boolean }[] = [];
+  const first = new Date(timeView.start);
+  first.setMinutes(0, 0, 0);
+  first.setHours(first.getHours() - (first.getHours() % tickInterval) + tickInterval);
+  for (let t = first.getTime(); t <= timeView.end; t += tickInterval * HOUR_MS) {
+    const d = new Date(t);
+    const major = d.getHours() === 0;
+    timeTicks.push({ time: t, label: major ? formatDay(d) : formatHour(d), major });
+  }
+  const nowX = xOf(Date.now());
+
+  // The pointer is only captured once it has moved, so a plain click still reaches the rectangle under it
+  const onPointerDown = (e: React.PointerEvent) => {
+    drag.current = { x: e.clientX, y: e.clientY, freq: freqView, time: timeView, moved: false };
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) {
+      const { ms, mhz } = pointAt(e);
+      setHoverSlot(freeSlotAt(links, mhz, ms));
+      return;
+    }
+    const dx = e.clientX - d.x;
+    const dy = e.clientY - d.y;
+    if (!d.moved && Math.hypot(dx, dy) > DRAG_THRESHOLD_PX) {
+      d.moved = true;
+      setHoverSlot(null);
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    if (!d.moved) return;
+    const dt = (dx / size.width) * (d.time.end - d.time.start);
+    setTimeView({ start: d.time.start - dt, end: d.time.end - dt });
+    setFreqView(panWindow(d.freq, dy / size.height, scale));
+  };
+  const onPointerUp = (e: React.PointerEvent) => {
+    const d = drag.current;
+    drag.current = null;
+    if (!d || d.moved || e.target !== e.currentTarget) return;
+    const { ms, mhz } = pointAt(e);
+    const slot = freeSlotAt(links, mhz, ms);
+    if (!slot) return;
+    setSeed({
+      frequencyMhz: slot.frequencyMhz,
+      bandwidthKhz: slot.bandwidthKhz,
+      waveform: slot.bandwidthKhz <= 3 ? 'USB' : 'FM',
+      startTime: toInputTime(slot.start),
+      endTime: toInputTime(slot.end),
+    });
+  };
+
+  const setSpan = (hours: number) => {
+    const mid = (timeView.start + timeView.end) / 2;
+    setTimeView({ start: mid - (hours / 2) * HOUR_MS, end: mid + (hours / 2) * HOUR_MS });
+  };
+  const shift = (ms: number) => setTimeView(t => ({ start: t.start + ms, end: t.end + ms }));
+  const btn = (active: boolean) => `text-xs px-2 py-0.5 rounded ${active
+    ? 'bg-green-800 text-white'
+    : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-950 text-gray-200 overflow-hidden select-none">
+      <div className="flex items-center gap-3 px-4 py-2.5 border-b border-white/10 flex-shrink-0 flex-wrap">
+        <Grid3x3 size={14} className="text-gray-500" />
+        <span className="text-sm font-semibold">Frekvens–tid</span>
+        <span className="text-xs text-gray-500">Klicka på en ledig yta för att planera en länk där · Skift+scroll zoomar tiden</span>
+        <div className="flex items-center gap-1 ml-auto">
+          <button className={btn(scale === 'LOG')} onClick={() => { setScale('LOG'); setFreqView(v => clampWindow(v, 'LOG')); }}>Log</button>
+          <button className={btn(scale === 'LINEAR')} onClick={() => { setScale('LINEAR'); setFreqView(v => clampWindow(v, 'LINEAR')); }}>Lin</button>
+          <button className={btn(false)} onClick={() => setFreqView(clampWindow(fitToLinks(links), scale))}>Anpassa</button>
+        </div>
+        <div className="flex items-center gap-1">
+          <span className="text-xs text-gray-500">Span:</span>
+          {[6, 12, 24, 48, 96].map(h => (
+            <button key={h} onClick={() => setSpan(h)} className={btn(Math.abs(spanHours - h) < 0.01)}>{h}h</button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => shift(-spanMs / 2)} className="p-1 hover:bg-gray-700 rounded"><ChevronLeft size={14} /></button>
+          <button
+            onClick={() => setTimeView({ start: Date.now() - spanMs / 2, end: Date.now() + spanMs / 2 })}
+            className="text-xs px-2 py-0.5 bg-gray-800 hover:bg-gray-700 rounded text-gray-300"
+          >
+            Nu
+          </button>
+          <button onClick={() => shift(spanMs / 2)} className="p-1 hover:bg-gray-700 rounded"><ChevronRight size={14} /></button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex flex-col min-h-0 p-2">
+        {/* Time axis */}
+        <div className="relative flex-shrink-0" style={{ height: HEADER_H, marginLeft: LABEL_W }}>
+          {timeTicks.map(t => (
+            <span
+              key={t.time}
+              className={`absolute bottom-1 text-[10px] transform -translate-x-1/2 whitespace-nowrap ${t.major ? 'text-gray-300 font-semibold' : 'text-gray-500'}`}
+              style={{ left: xOf(t.time) }}
+            >
+              {t.label}
+            </span>
+          ))}
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Frequency axis */}
+          <div className="relative flex-shrink-0" style={{ width: LABEL_W }}>
+            {freqTicks.map(f => (
+              <span
+                key={f}
+                className="absolute right-1.5 text-[9px] text-gray-500 font-mono transform -translate-y-1/2 whitespace-nowrap"
+                style={{ top: yOf(f) }}
+              >
+                {fmtFrequency(f, logTicks ? undefined : freqStep)}
+              </span>
+            ))}
+          </div>
+
+          <div
+            ref={plotRef}
+            className="flex-1 relative bg-gray-900 rounded border border-white/10 overflow-hidden cursor-crosshair touch-none"
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerLeave={() => setHoverSlot(null)}
+          >
+            {freqTicks.map(f => (
+              <div key={`f${f}`} className="absolute left-0 right-0 border-t border-white/5 pointer-events-none" style={{ top: yOf(f) }} />
+            ))}
+            {timeTicks.map(t => (
+              <div
+                key={`t${t.time}`}
+                className={`absolute top-0 bottom-0 border-l pointer-events-none ${t.major ? 'border-white/15' : 'border-white/5'}`}
+                style={{ left: xOf(t.time) }}
+              />
+            ))}
+            {nowX >= 0 && nowX <= size.width && (
+              <div className="absolute top-0 bottom-0 border-l-2 border-red-500/70 pointer-events-none" style={{ left: nowX }} />
+            )}
+
+            {/* Free slot under the cursor */}
+            {hoverSlot && (() => {
+              const top = yOf(hoverSlot.frequencyMhz + hoverSlot.bandwidthKhz / 2000);
+              const bottom = yOf(hoverSlot.frequencyMhz - hoverSlot.bandwidthKhz / 2000);
+              return (
+                <div
+                  className="absolute border border-dashed border-green-400/80 bg-green-400/10 pointer-events-none"
+                  style={{
+                    left: xOf(hoverSlot.start),
+                    width: Math.max(xOf(hoverSlot.end) - xOf(hoverSlot.start), 2),
+                    top: Math.min(top, bottom - MIN_RECT_PX / 2),
+                    height: Math.max(bottom - top, MIN_RECT_PX),
+                  }}
+                >
+                  <span className="absolute -top-4 left-0 text-[9px] text-green-300 whitespace-nowrap">
+                    Ledigt: {fmtFrequency(hoverSlot.frequencyMhz)} · {formatHour(new Date(hoverSlot.start))}–{formatHour(new Date(hoverSlot.end))}
+                  </span>
+                </div>
+              );
+            })()}
+
+            {/* Links as bandwidth × time rectangles */}
+            {visible.map(link => {
+              const left = Math.max(xOf(Date.parse(link.startTime)), 0);
+              const right = Math.min(xOf(Date.parse(link.endTime)), size.width);
+              const top = yOf(link.frequencyMhz + link.bandwidthKhz / 2000);
+              const bottom = yOf(link.frequencyMhz - link.bandwidthKhz / 2000);
+              const height = Math.max(bottom - top, MIN_RECT_PX);
+              const selected = link.id === selectedLinkId;
+              const severity = worstSeverityFor(link.id, conflicts);
+              return (
+                <div
+                  key={link.id}
+                  className="absolute cursor-pointer rounded-sm overflow-hidden text-[9px] leading-3 text-black/80 px-0.5 whitespace-nowrap"
+                  style={{
+                    left,
+                    width: Math.max(right - left, 2),
+                    top: (top + bottom) / 2 - height / 2,
+                    height,
+                    background: NET_COLORS[link.netType] ?? '#6b7280',
+                    opacity: selected ? 1 : 0.75,
+                    outline: selected ? '2px solid white' : severity ? `2px solid ${SEVERITY_COLOR[severity]}` : undefined,
+                    zIndex: selected ? 10 : 1,
+                  }}
+                  onPointerMove={e => { if (!drag.current) { e.stopPropagation(); setHoverSlot(null); } }}
+                  onClick={() => selectLink(link.id)}
+                  title={`${link.netName} · ${link.frequencyMhz} MHz · ${link.bandwidthKhz} kHz · ${new Date(link.startTime).toLocaleString('sv-SE')}–${new Date(link.endTime).toLocaleString('sv-SE')}${severity ? ` · ${SEVERITY_LABEL[severity]} konflikt` : ''}`}
+                >
+                  {height >= 10 && link.netName}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {seed && <AddLinkModal seed={seed} onClose={() => setSeed(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useRef, useState } from 'react';
+import { Activity, X } from 'lucide-react';
+import { useStore } from '../../store';
+import type { SpectrumScan } from '../../types';
+import { scanSiteLabel } from '../../utils/spectrumScan';
+
+const fmtTime = (iso: string) => new Date(iso).toLocaleString('sv-SE', { dateStyle: 'short', timeStyle: 'short' });
+
+/** Imports monitoring sweeps (CSV) and picks the measurement set drawn behind the planned links */
+export default function ScanControl() {
+  const scans = useStore(s => s.scans);
+  const activeScanId = useStore(s => s.activeScanId);
+  const importScan = useStore(s => s.importScan);
+  const selectScan = useStore(s => s.selectScan);
+  const deleteScan = useStore(s => s.deleteScan);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (list: FileList | null) => {
+    if (!list || list.length === 0) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await importScan(list[0]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  // Sets grouped by site, oldest first within each
+  const bySite = new Map<string, SpectrumScan[]>();
+  for (const scan of [...scans].sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime))) {
+    const site = scanSiteLabel(scan);
+    bySite.set(site, [...(bySite.get(site) ?? []), scan]);
+  }
+
+  return (
+    <div className="relative flex items-center gap-1">
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={busy}
+        className="flex items-center gap-1.5 text-xs px-2 py-1 rounded border bg-gray-900 border-white/10 text-gray-400 hover:text-gray-200"
+        title="Läs in spektrummätning (CSV: frekvens, dBm, tidpunkt, plats)"
+      >
+        <Activity size={12} />
+        {busy ? 'Läser…' : 'Mätning'}
+      </button>
+      {scans.length > 0 && (
+        <select
+          value={activeScanId ?? ''}
+          onChange={e => selectScan(e.target.value || null)}
+          className="bg-gray-800 border border-white/10 rounded px-1.5 py-1 text-xs text-gray-200 max-w-[14rem]"
+          title="Mätserie som visas bakom planerade länkar"
+        >
+          <option value="">Ingen mätning</option>
+          {[...bySite].map(([site, list]) => (
+            <optgroup key={site} label={site}>
+              {list.map(sc => (
+                <option key={sc.id} value={sc.id}>{fmtTime(sc.startTime)} · {sc.samples.length} pkt · {sc.name}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      )}
+      {activeScanId && (
+        <button onClick={() => deleteScan(activeScanId)} className="text-gray-500 hover:text-gray-200" title="Ta bort mätserien">
+          <X size={11} />
+        </button>
+      )}
+      {error && (
+        <div className="absolute top-full right-0 mt-1 z-20 text-[10px] bg-red-900/80 text-red-200 px-2 py-1 rounded w-56">{error}</div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,.txt"
+        className="hidden"
+        onChange={e => handleFile(e.target.files)}
+      />
+    </div>
+  );
+}
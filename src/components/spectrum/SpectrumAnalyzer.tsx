@@ -0,0 +1,397 @@
+import { useEffect, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { useStore } from '../../store';
+import type { FrequencyNet, FrequencyRange, Hopset } from '../../types';
+import { linkQuality, limitingBudget } from '../../utils/linkBudget';
+import { SEVERITY_COLOR, SEVERITY_LABEL, worstSeverityFor } from '../../utils/conflicts';
+import type { PlanSegment } from '../../utils/frequencyPlan';
+import { PLAN_KIND_LABEL, planSegments } from '../../utils/frequencyPlan';
+import { HOP_RATE_LABEL, hopChannelCount, hopSegments } from '../../utils/hopset';
+import { scanNoiseFloorDbm, scanSiteLabel, scanTrace, strongSignalsOnLinks } from '../../utils/spectrumScan';
+import type { AxisScale, FrequencyWindow } from '../../utils/spectrumAxis';
+import {
+  FULL_WINDOW, axisTicks, clampWindow, fmtFrequency, fractionToFreq, freqToFraction, packRows, panWindow, zoomWindow,
+} from '../../utils/spectrumAxis';
+
+const NET_COLORS: Record<string, string> = {
+  COMMAND: '#ef4444',
+  ADMIN_LOG: '#f59e0b',
+  FIRE_SUPPORT: '#f97316',
+  AIR: '#60a5fa',
+  DATA: '#34d399',
+  COORD: '#a78bfa',
+};
+
+const SEGMENT_COLOR: Record<PlanSegment['kind'], string> = {
+  ALLOTTED: '#22c55e',
+  CIVIL: '#f59e0b',
+  PROTECTED: '#ef4444',
+  UNALLOTTED: '#7f1d1d',
+};
+
+/** ITU band designations, as quick jumps for the window */
+const BAND_PRESETS: { label: string; window: FrequencyWindow }[] = [
+  { label: 'HF', window: { minMhz: 2, maxMhz: 30 } },
+  { label: 'VHF', window: { minMhz: 30, maxMhz: 300 } },
+  { label: 'UHF', window: { minMhz: 300, maxMhz: 3000 } },
+  { label: 'SHF', window: { minMhz: 3000, maxMhz: 30_000 } },
+  { label: 'EHF', window: { minMhz: 30_000, maxMhz: 40_000 } },
+];
+
+const ROW_H = 14;
+const BAR_H = 12;
+const TOP_PAD = 4;
+const AXIS_H = 16;
+const MIN_BAR_PX = 6;
+const LABEL_MIN_PX = 48;
+/** Zoom per wheel notch (deltaY ≈ 100) */
+const WHEEL_ZOOM = 0.0015;
+const DRAG_THRESHOLD_PX = 3;
+const TRACE_COLOR = '#22d3ee';
+const STRONG_SIGNAL_COLOR = '#facc15';
+
+/** Spectrum a hopping net occupies */
+interface HopSpread {
+  net: FrequencyNet;
+  hopset: Hopset;
+  segments: FrequencyRange[];
+  title: string;
+}
+
+/**
+ * One continuous frequency axis from 2 MHz to 40 GHz: wheel zooms around the
+ * cursor down to a kHz across, dragging pans, and links are drawn at their
+ * occupied bandwidth and packed into rows so no two bars overlap.
+ */
+export default function SpectrumAnalyzer() {
+  const links = useStore(s => s.links);
+  const conflicts = useStore(s => s.conflicts);
+  const plan = useStore(s => s.frequencyPlan);
+  const nets = useStore(s => s.nets);
+  const hopsets = useStore(s => s.hopsets);
+  const selectedId = useStore(s => s.selectedLinkId);
+  const selectLink = useStore(s => s.selectLink);
+  const scan = useStore(s => s.scans.find(sc => sc.id === s.activeScanId));
+
+  const [scale, setScale] = useState<AxisScale>('LOG');
+  const [view, setView] = useState<FrequencyWindow>(FULL_WINDOW);
+  const [width, setWidth] = useState(800);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const minimapRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<{ x: number; view: FrequencyWindow; moved: boolean } | null>(null);
+
+  // Wheel listeners must be non-passive to keep the page from scrolling while zooming
+  useEffect(() => {
+    const el = trackRef.current;
+    if (!el) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      if (Math.abs(e.deltaX) > Math.abs(e.deltaY)) {
+        setView(v => panWindow(v, e.deltaX / rect.width, scale));
+      } else {
+        const anchor = (e.clientX - rect.left) / rect.width;
+        setView(v => zoomWindow(v, anchor, Math.exp(e.deltaY * WHEEL_ZOOM), scale));
+      }
+    };
+    el.addEventListener('wheel', onWheel, { passive: false });
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(el);
+    return () => {
+      el.removeEventListener('wheel', onWheel);
+      observer.disconnect();
+    };
+  }, [scale]);
+
+  const x = (mhz: number) => freqToFraction(Math.min(Math.max(mhz, view.minMhz), view.maxMhz), view, scale) * width;
+  const inView = (lo: number, hi: number) => hi >= view.minMhz && lo <= view.maxMhz;
+
+  const bars = links
+    .map(link => {
+      const halfBw = link.bandwidthKhz / 2000;
+      return { link, lo: link.frequencyMhz - halfBw, hi: link.frequencyMhz + halfBw };
+    })
+    .filter(b => inView(b.lo, b.hi))
+    .map(b => {
+      const start = x(b.lo);
+      const end = x(b.hi);
+      const pad = Math.max(0, (MIN_BAR_PX - (end - start)) / 2);
+      return { ...b, start: start - pad, end: end + pad };
+    });
+  const rows = packRows(bars);
+  const rowCount = Math.max(3, ...rows.map(r => r + 1));
+  const trackH = TOP_PAD + rowCount * ROW_H + AXIS_H;
+
+  const spreads = nets.flatMap((net): HopSpread[] => {
+    const hopset = hopsets.find(h => h.id === net.hopsetId);
+    if (!hopset) return [];
+    const details = [
+      `${hopChannelCount(hopset)} kanaler`,
+      net.hopNetId !== undefined && `nät-ID ${net.hopNetId}`,
+      net.hopRate && HOP_RATE_LABEL[net.hopRate].toLowerCase(),
+    ].filter(Boolean).join(', ');
+    return [{ net, hopset, segments: hopSegments(hopset), title: `${net.name} hoppar i ${hopset.name} (${details})` }];
+  });
+
+  // Measured trace, scaled to the set's own level range with the noise floor a tenth up from the bottom
+  const plotH = trackH - AXIS_H;
+  const trace = scan ? scanTrace(scan, view, scale, Math.round(width)) : [];
+  const floorDbm = scan ? scanNoiseFloorDbm(scan) : 0;
+  const peakDbm = scan ? scan.samples.reduce((max, s) => Math.max(max, s.levelDbm), -Infinity) : 0;
+  const bottomDbm = floorDbm - Math.max(5, (peakDbm - floorDbm) / 9);
+  const levelY = (dbm: number) => plotH - ((dbm - bottomDbm) / Math.max(peakDbm - bottomDbm, 1)) * (plotH - TOP_PAD);
+  const measured = new Map(scan ? strongSignalsOnLinks(scan, links).map(m => [m.linkId, m]) : []);
+
+  const ticks = axisTicks(view, scale, Math.max(2, Math.floor(width / 90)));
+  const tickStep = ticks.length > 1 ? ticks[1] - ticks[0] : undefined;
+  const logTicks = scale === 'LOG' && Math.log10(view.maxMhz / view.minMhz) >= 1;
+
+  // The pointer is only captured once it has moved, so a plain click still reaches the bar under it
+  const onPointerDown = (e: React.PointerEvent) => {
+    drag.current = { x: e.clientX, view, moved: false };
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    const d = drag.current;
+    if (!d) return;
+    const dx = e.clientX - d.x;
+    if (!d.moved && Math.abs(dx) > DRAG_THRESHOLD_PX) {
+      d.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    if (d.moved) setView(panWindow(d.view, -dx / width, scale));
+  };
+  const onPointerUp = () => {
+    // Keep the flag until the click that ends the drag has been seen
+    setTimeout(() => { drag.current = null; }, 0);
+  };
+
+  // Minimap: the full range on a log axis; clicking or dragging centres the window there
+  const centreAt = (clientX: number) => {
+    const rect = minimapRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const at = fractionToFreq((clientX - rect.left) / rect.width, FULL_WINDOW, 'LOG');
+    setView(v => {
+      if (scale === 'LOG') {
+        const half = Math.sqrt(v.maxMhz / v.minMhz);
+        return clampWindow({ minMhz: at / half, maxMhz: at * half }, scale);
+      }
+      const half = (v.maxMhz - v.minMhz) / 2;
+      return clampWindow({ minMhz: at - half, maxMhz: at + half }, scale);
+    });
+  };
+  const mini = (mhz: number) => freqToFraction(mhz, FULL_WINDOW, 'LOG') * 100;
+
+  const zoomBy = (factor: number) => setView(v => zoomWindow(v, 0.5, factor, scale));
+  const btn = (active: boolean) => `text-[10px] px-1.5 py-0.5 rounded ${active
+    ? 'bg-gray-600 text-white'
+    : 'bg-gray-800 text-gray-400 hover:text-gray-200'}`;
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-1.5 mb-1 flex-wrap">
+        {BAND_PRESETS.map(p => (
+          <button key={p.label} className={btn(false)} onClick={() => setView(clampWindow(p.window, scale))}>{p.label}</button>
+        ))}
+        <button className={btn(false)} onClick={() => setView(FULL_WINDOW)}>Hela</button>
+        <span className="w-2" />
+        <button className={btn(scale === 'LOG')} onClick={() => { setScale('LOG'); setView(v => clampWindow(v, 'LOG')); }}>Log</button>
+        <button className={btn(scale === 'LINEAR')} onClick={() => { setScale('LINEAR'); setView(v => clampWindow(v, 'LINEAR')); }}>Lin</button>
+        <button className={btn(false)} onClick={() => zoomBy(0.5)} title="Zooma in"><ZoomIn size={11} /></button>
+        <button className={btn(false)} onClick={() => zoomBy(2)} title="Zooma ut"><ZoomOut size={11} /></button>
+        <span className="ml-auto text-xs text-gray-500 font-mono">
+          {fmtFrequency(view.minMhz)} – {fmtFrequency(view.maxMhz)} · {bars.length} länk(ar)
+        </span>
+      </div>
+
+      <div
+        ref={trackRef}
+        className="relative bg-gray-900 rounded border border-white/10 overflow-hidden cursor-grab active:cursor-grabbing select-none touch-none"
+        style={{ height: trackH }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+      >
+        {/* Plan segments – allotted, civil, protected and unallotted spectrum */}
+        {plan && planSegments(plan, view.minMhz, view.maxMhz).map((seg, i) => {
+          const color = SEGMENT_COLOR[seg.kind];
+          return (
+            <div
+              key={`plan-${i}`}
+              className="absolute top-0 bottom-0"
+              style={{
+                left: x(seg.minMhz),
+                width: Math.max(x(seg.maxMhz) - x(seg.minMhz), 2),
+                background: seg.regional
+                  ? `repeating-linear-gradient(45deg, ${color}30 0 4px, transparent 4px 8px)`
+                  : `${color}${seg.kind === 'ALLOTTED' ? '18' : '40'}`,
+              }}
+              title={seg.label}
+            />
+          );
+        })}
+
+        {/* Hopping nets – spread over every channel of their hopset */}
+        {spreads.flatMap(spread => spread.segments
+          .filter(r => inView(r.minMhz, r.maxMhz))
+          .map((r, i) => (
+            <div
+              key={`${spread.net.id}-${i}`}
+              className="absolute top-0 bottom-0"
+              style={{
+                left: x(r.minMhz),
+                width: Math.max(x(r.maxMhz) - x(r.minMhz), 1),
+                background: `repeating-linear-gradient(-45deg, ${spread.net.color}40 0 3px, ${spread.net.color}10 3px 6px)`,
+                borderTop: `2px solid ${spread.net.color}`,
+              }}
+              title={spread.title}
+            />
+          )))}
+
+        {/* Measured spectrum of the active set – peak hold per pixel column */}
+        {trace.length > 1 && (
+          <svg className="absolute inset-0 pointer-events-none" width={width} height={plotH}>
+            <polygon
+              points={[
+                `${trace[0].fraction * width},${plotH}`,
+                ...trace.map(p => `${p.fraction * width},${levelY(p.levelDbm)}`),
+                `${trace[trace.length - 1].fraction * width},${plotH}`,
+              ].join(' ')}
+              fill={`${TRACE_COLOR}20`}
+              stroke={TRACE_COLOR}
+              strokeOpacity={0.6}
+              strokeWidth={1}
+            />
+            <line x1={0} x2={width} y1={levelY(floorDbm)} y2={levelY(floorDbm)} stroke={TRACE_COLOR} strokeOpacity={0.3} strokeDasharray="3 3" />
+          </svg>
+        )}
+
+        {/* Frequency ticks */}
+        {ticks.map(f => (
+          <div key={f} className="absolute top-0 bottom-0 pointer-events-none" style={{ left: x(f) }}>
+            <div className="h-full border-l border-white/5" />
+            <span className="absolute bottom-0.5 text-[9px] text-gray-600 transform -translate-x-1/2 whitespace-nowrap">
+              {fmtFrequency(f, logTicks ? undefined : tickStep)}
+            </span>
+          </div>
+        ))}
+
+        {/* Links at their occupied bandwidth */}
+        {bars.map(({ link, start, end }, i) => {
+          const q = link.linkBudget ? linkQuality(limitingBudget(link.linkBudget).effectiveMarginDb) : null;
+          const color = q?.color ?? NET_COLORS[link.netType] ?? '#6b7280';
+          const selected = link.id === selectedId;
+          const severity = worstSeverityFor(link.id, conflicts);
+          const spread = spreads.find(s => s.net.name === link.netName);
+          const signal = measured.get(link.id);
+          return (
+            <div
+              key={link.id}
+              className="absolute cursor-pointer rounded-sm overflow-hidden text-[9px] leading-3 text-black/80 px-0.5 whitespace-nowrap"
+              style={{
+                left: start,
+                width: end - start,
+                top: TOP_PAD + rows[i] * ROW_H,
+                height: BAR_H,
+                background: color,
+                opacity: selected ? 1 : spread ? 0.45 : 0.75,
+                outline: selected
+                  ? '2px solid white'
+                  : severity ? `2px solid ${SEVERITY_COLOR[severity]}` : signal ? `2px dashed ${STRONG_SIGNAL_COLOR}` : undefined,
+                zIndex: selected ? 10 : 1,
+              }}
+              onClick={() => { if (!drag.current?.moved) selectLink(link.id); }}
+              title={`${link.netName} · ${link.frequencyMhz} MHz · ${link.bandwidthKhz} kHz · ${link.waveform}${spread ? ` · hoppar i ${spread.hopset.name}` : ''}${severity ? ` · ${SEVERITY_LABEL[severity]} konflikt` : ''}${signal ? ` · uppmätt ${signal.levelDbm.toFixed(0)} dBm (+${signal.aboveFloorDb.toFixed(0)} dB)` : ''}`}
+            >
+              {end - start >= LABEL_MIN_PX && link.netName}
+            </div>
+          );
+        })}
+
+        {bars.length === 0 && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-700 pointer-events-none">
+            Inga länkar i fönstret
+          </div>
+        )}
+      </div>
+
+      {/* Minimap of the whole range */}
+      <div
+        ref={minimapRef}
+        className="relative h-5 mt-1 bg-gray-900 rounded border border-white/10 overflow-hidden cursor-pointer select-none touch-none"
+        onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); centreAt(e.clientX); }}
+        onPointerMove={e => { if (e.buttons & 1) centreAt(e.clientX); }}
+        title="Hela området 2 MHz – 40 GHz"
+      >
+        {BAND_PRESETS.map(p => (
+          <div key={p.label} className="absolute top-0 bottom-0 border-l border-white/10 pointer-events-none" style={{ left: `${mini(p.window.minMhz)}%` }}>
+            <span className="absolute top-0 left-0.5 text-[8px] text-gray-600">{p.label}</span>
+          </div>
+        ))}
+        {links.map(l => (
+          <div
+            key={l.id}
+            className="absolute bottom-0 h-2.5 w-px pointer-events-none"
+            style={{ left: `${mini(l.frequencyMhz)}%`, background: NET_COLORS[l.netType] ?? '#6b7280' }}
+          />
+        ))}
+        <div
+          className="absolute top-0 bottom-0 border border-white/60 bg-white/10 pointer-events-none"
+          style={{
+            left: `${mini(view.minMhz)}%`,
+            width: `max(${mini(view.maxMhz) - mini(view.minMhz)}%, 2px)`,
+          }}
+        />
+      </div>
+
+      {/* Legend */}
+      <div className="mt-4 border-t border-white/10 pt-3">
+        <div className="text-xs text-gray-500 mb-2 font-semibold">Nättyper</div>
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(NET_COLORS).map(([type, color]) => (
+            <div key={type} className="flex items-center gap-1.5">
+              <div className="w-3 h-3 rounded-sm" style={{ background: color }} />
+              <span className="text-xs text-gray-400">{type}</span>
+            </div>
+          ))}
+        </div>
+        {scan && (
+          <>
+            <div className="text-xs text-gray-500 mt-3 mb-2 font-semibold">Mätning · {scanSiteLabel(scan)}</div>
+            <div className="flex flex-wrap gap-2">
+              <div className="flex items-center gap-1.5">
+                <div className="w-3 h-3 rounded-sm border" style={{ background: `${TRACE_COLOR}20`, borderColor: TRACE_COLOR }} />
+                <span className="text-xs text-gray-400">
+                  Uppmätt nivå {bottomDbm.toFixed(0)} … {peakDbm.toFixed(0)} dBm, brusgolv {floorDbm.toFixed(0)} dBm
+                </span>
+              </div>
+              <div className="flex items-center gap-1.5">
+                <div className="w-3 h-3 rounded-sm" style={{ outline: `2px dashed ${STRONG_SIGNAL_COLOR}`, outlineOffset: -2 }} />
+                <span className="text-xs text-gray-400">Planerad på stark signal</span>
+              </div>
+            </div>
+          </>
+        )}
+        {plan && (
+          <>
+            <div className="text-xs text-gray-500 mt-3 mb-2 font-semibold">Frekvensplan · {plan.name}</div>
+            <div className="flex flex-wrap gap-2">
+              {[
+                ...Object.entries(PLAN_KIND_LABEL) as [PlanSegment['kind'], string][],
+                ['UNALLOTTED', 'Ej tilldelat'] as const,
+              ].map(([kind, label]) => (
+                <div key={kind} className="flex items-center gap-1.5">
+                  <div className="w-3 h-3 rounded-sm" style={{ background: `${SEGMENT_COLOR[kind]}80` }} />
+                  <span className="text-xs text-gray-400">{label}</span>
+                </div>
+              ))}
+              <div className="flex items-center gap-1.5">
+                <div className="w-3 h-3 rounded-sm" style={{ background: 'repeating-linear-gradient(45deg, #9ca3af60 0 2px, transparent 2px 4px)' }} />
+                <span className="text-xs text-gray-400">Regional</span>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,53 @@
 import { create } from 'zustand';
 import type {
   Unit, RadioNode, RadioLink, FrequencyNet, AppView, AppSettings, LatLng, RadioEquipment,
+  CoverageRequest, AntennaPattern, Vehicle, Satellite, FrequencyPoolBand, FrequencyPlan, Hopset,
+  SpectrumScan,
 } from '../types';
 import {
-  INITIAL_UNITS, INITIAL_LINKS, INITIAL_NETS, EQUIPMENT_CATALOG, buildNodesFromUnits,
+  INITIAL_UNITS, INITIAL_LINKS, INITIAL_NETS, INITIAL_HOPSETS, EQUIPMENT_CATALOG, ANTENNA_PATTERNS, SATELLITES, FREQUENCY_POOL,
+  FREQUENCY_PLAN, buildNodesFromUnits,
 } from '../utils/sampleData';
+import { parseAntennaPattern, effectiveAntennaHeightM } from '../utils/antenna';
+import { parseTle } from '../utils/satellite';
+import { equipmentSupports, pickCompatibleEquipment, planDefaults } from '../utils/validation';
 import { nanoid } from '../utils/id';
-import { calcLinkBudget } from '../utils/linkBudget';
+import type { PropagationOptions } from '../utils/linkBudget';
+import { DEFAULT_SUNSPOT_NUMBER } from '../utils/linkBudget';
+import type { LinkEnds } from '../utils/interference';
+import type { BudgetJob } from '../utils/budgetEngine';
+import { hoppingResolver } from '../utils/hopset';
+import { DEFAULT_REQUIRED_AVAILABILITY } from '../utils/fading';
+import { DEFAULT_ATMOSPHERE } from '../utils/atmosphere';
+import type { ElevationSource } from '../utils/terrain';
+import { FLAT_ELEVATION, DEFAULT_K_FACTOR, createGridElevationSource } from '../utils/terrain';
+import { loadDemFiles } from '../utils/demLoader';
+import type { CoverageResult } from '../utils/coverage';
+import { COVERAGE_GRID_SIZE } from '../utils/coverage';
+import { runCoverage } from '../workers/coverageClient';
+import { runBudgets } from '../workers/budgetClient';
+import type { RelaySuggestion } from '../utils/relay';
+import { findRelaySites, pickRelayRadio, RELAY_MAST_HEIGHT_M } from '../utils/relay';
+import type { AssignmentOptions, AssignmentResult } from '../utils/frequencyAssignment';
+import type { FrequencyConflict } from '../utils/conflicts';
+import { detectConflicts } from '../utils/conflicts';
+import { assignFrequencies, assignmentTargets } from '../utils/frequencyAssignment';
+import { parseFrequencyPlan } from '../utils/frequencyPlan';
+import { parseScanCsv } from '../utils/spectrumScan';
+import { pruneNetMembers, syncNetLinks } from '../utils/netTopology';
+
+export interface CoverageRun {
+  request: CoverageRequest;
+  status: 'computing' | 'done' | 'error';
+  result?: CoverageResult;
+  error?: string;
+}
+
+export interface RelaySearch {
+  linkId: string;
+  relayEquipId?: string;  // unset when no catalogue radio covers the frequency
+  suggestions: RelaySuggestion[];
+}
 
 interface AppState {
   // Data
@@ -14,7 +55,21 @@ interface AppState {
   nodes: RadioNode[];
   links: RadioLink[];
   nets: FrequencyNet[];
+  hopsets: Hopset[];
   equipmentCatalog: RadioEquipment[];
+  antennaPatterns: AntennaPattern[];
+  satellites: Satellite[];
+  frequencyPool: FrequencyPoolBand[];
+  frequencyPlan: FrequencyPlan | null;
+  scans: SpectrumScan[];
+  activeScanId: string | null;
+  elevationSource: ElevationSource;
+  settings: AppSettings;
+  coverage: CoverageRun | null;
+  relaySearch: RelaySearch | null;
+  budgetsPending: boolean;        // the budget worker has queued or running jobs
+  budgetError: string | null;
+  conflicts: FrequencyConflict[];   // derived from the budgets' interference, worst first
 
   // UI
   view: AppView;
@@ -22,6 +77,7 @@ interface AppState {
   selectedLinkId: string | null;
   hoveredLinkId: string | null;
   planningFromNodeId: string | null;
+  lassoNetId: string | null;     // map lasso adds the encircled nodes to this net
   sidebarTab: 'org' | 'links' | 'nets';
   timelineDate: string;          // ISO date string for timeline focus
   showLinkBudgetPanel: boolean;
@@ -35,10 +91,34 @@ interface AppState {
   setTimelineDate: (d: string) => void;
   setShowLinkBudgetPanel: (v: boolean) => void;
   setPlanningFrom: (id: string | null) => void;
+  setLassoNet: (id: string | null) => void;
+  updateSettings: (patch: Partial<AppSettings>) => void;
 
   // Actions – nodes
   moveNode: (nodeId: string, pos: LatLng) => void;
   updateNode: (nodeId: string, patch: Partial<RadioNode>) => void;
+  updateVehicle: (vehicleId: string, patch: Partial<Vehicle>) => void;
+  updateEquipment: (vehicleId: string, equipmentId: string, patch: Partial<RadioEquipment>) => void;
+
+  // Actions – antennas
+  importAntennaPattern: (file: File) => Promise<AntennaPattern>;
+
+  // Actions – satellites
+  addSatellite: (sat: Omit<Satellite, 'id'>) => Satellite;
+  deleteSatellite: (id: string) => void;
+
+  // Actions – terrain
+  loadDem: (files: File[]) => Promise<void>;
+  clearDem: () => void;
+
+  // Actions – coverage
+  computeCoverage: (req: CoverageRequest) => Promise<void>;
+  clearCoverage: () => void;
+
+  // Actions – relays
+  findRelay: (linkId: string) => void;
+  insertRelay: (linkId: string, suggestion: RelaySuggestion) => void;
+  clearRelaySearch: () => void;
 
   // Actions – units
   addUnit: (unit: Omit<Unit, 'id' | 'vehicles'>) => void;
@@ -49,31 +129,191 @@ interface AppState {
   addLink: (link: Omit<RadioLink, 'id' | 'linkBudget'>) => void;
   updateLink: (id: string, patch: Partial<RadioLink>) => void;
   deleteLink: (id: string) => void;
-  recalcLinkBudget: (id: string) => void;
-  recalcAllBudgets: () => void;
+  recalcBudgets: (linkIds?: string[]) => void;   // all links when omitted
 
   // Actions – nets
   addNet: (net: Omit<FrequencyNet, 'id'>) => void;
   updateNet: (id: string, patch: Partial<FrequencyNet>) => void;
   deleteNet: (id: string) => void;
+
+  // Actions – hopsets
+  addHopset: (hopset: Omit<Hopset, 'id'>) => void;
+  updateHopset: (id: string, patch: Partial<Hopset>) => void;
+  deleteHopset: (id: string) => void;
+
+  // Actions – frequency plan and assignment
+  importFrequencyPlan: (file: File) => Promise<void>;
+  clearFrequencyPlan: () => void;
+  updateFrequencyPool: (pool: FrequencyPoolBand[]) => void;
+  planFrequencies: (options: AssignmentOptions) => AssignmentResult;
+  applyFrequencyAssignment: (result: AssignmentResult) => void;
+
+  // Actions – spectrum monitoring
+  importScan: (file: File) => Promise<void>;
+  selectScan: (id: string | null) => void;
+  deleteScan: (id: string) => void;
 }
 
 function rebuildNodes(units: Unit[]): RadioNode[] {
   return buildNodesFromUnits(units);
 }
 
+/** Settings that feed the propagation model; changing one recalculates every budget */
+const MODEL_SETTINGS: (keyof AppSettings)[] = ['kFactor', 'sunspotNumber', 'requiredAvailabilityPct', 'atmosphere'];
+
+/** Hopset fields that decide which channels its nets hop over */
+const HOPSET_CHANNEL_FIELDS: (keyof Hopset)[] = ['channelSpacingKhz', 'ranges', 'frequenciesMhz', 'lockouts'];
+
+/** Resolver for link ends that indexes nodes and vehicles once, for use over many links */
+function endsResolver(state: Pick<AppState, 'nodes' | 'units'>): (link: RadioLink) => LinkEnds | undefined {
+  const nodes = new Map(state.nodes.map(n => [n.id, n]));
+  const vehicles = new Map(state.units.flatMap(u => u.vehicles).map(v => [v.id, v]));
+  return link => {
+    const fromNode = nodes.get(link.fromNodeId);
+    const toNode = nodes.get(link.toNodeId);
+    if (!fromNode || !toNode) return undefined;
+
+    const fromVehicle = fromNode.vehicleId ? vehicles.get(fromNode.vehicleId) : undefined;
+    const toVehicle = toNode.vehicleId ? vehicles.get(toNode.vehicleId) : undefined;
+    const fromEquip = fromVehicle?.equipment.find(e => e.id === link.equipmentFromId);
+    const toEquip = toVehicle?.equipment.find(e => e.id === link.equipmentToId);
+    return {
+      from: fromNode.position,
+      to: toNode.position,
+      fromNodeId: fromNode.id,
+      toNodeId: toNode.id,
+      fromEquip,
+      toEquip,
+      fromAntennaHeightM: effectiveAntennaHeightM(fromVehicle, fromEquip),
+      toAntennaHeightM: effectiveAntennaHeightM(toVehicle, toEquip),
+    };
+  };
+}
+
+/** Positions, radios and antenna heights at both ends of a link */
+function resolveLinkEnds(state: Pick<AppState, 'nodes' | 'units'>, link: RadioLink): LinkEnds | undefined {
+  return endsResolver(state)(link);
+}
+
+function propagationOptions(state: Pick<AppState, 'elevationSource' | 'settings'>): PropagationOptions {
+  return {
+    elevation: state.elevationSource,
+    kFactor: state.settings.kFactor,
+    sunspotNumber: state.settings.sunspotNumber,
+    requiredAvailabilityPct: state.settings.requiredAvailabilityPct,
+    atmosphere: state.settings.atmosphere,
+  };
+}
+
+/** Links with an end at any of the given nodes */
+function linkIdsAt(links: RadioLink[], nodeIds: string[]): string[] {
+  return links.filter(l => nodeIds.includes(l.fromNodeId) || nodeIds.includes(l.toNodeId)).map(l => l.id);
+}
+
+function linkIdsInNets(links: RadioLink[], netNames: string[]): string[] {
+  return links.filter(l => netNames.includes(l.netName)).map(l => l.id);
+}
+
+/** Budget engine input for the current plan, resolved against the org tree */
+function budgetJob(state: AppState, changedIds: string[]): BudgetJob {
+  const endsOf = endsResolver(state);
+  const hoppingOf = hoppingResolver(state.nets, state.hopsets);
+  const satellites = new Map(state.satellites.map(s => [s.id, s]));
+  return {
+    links: state.links.map(link => ({
+      link,
+      ends: endsOf(link),
+      satellite: link.satelliteId ? satellites.get(link.satelliteId) : undefined,
+      hopping: hoppingOf(link),
+    })),
+    changedIds,
+    opts: propagationOptions(state),
+  };
+}
+
+// Budget jobs run one at a time; changes made while one runs are merged into the next
+let queuedBudgetIds: Set<string> | 'all' = new Set();
+let budgetsRunning = false;
+
+function queueBudgets(linkIds: string[] | 'all') {
+  if (linkIds === 'all' || queuedBudgetIds === 'all') queuedBudgetIds = 'all';
+  else linkIds.forEach(id => (queuedBudgetIds as Set<string>).add(id));
+  if (!budgetsRunning) void drainBudgetQueue();
+}
+
+async function drainBudgetQueue() {
+  budgetsRunning = true;
+  useStore.setState({ budgetsPending: true });
+  while (queuedBudgetIds === 'all' || queuedBudgetIds.size > 0) {
+    const state = useStore.getState();
+    const changedIds = queuedBudgetIds === 'all' ? state.links.map(l => l.id) : [...queuedBudgetIds];
+    queuedBudgetIds = new Set();
+    try {
+      const budgets = await runBudgets(budgetJob(state, changedIds), state.elevationSource);
+      // One store update per job, however many links it touched
+      useStore.setState(s => {
+        const links = s.links.map(l => budgets[l.id] ? { ...l, linkBudget: budgets[l.id] } : l);
+        const positions = new Map(s.nodes.map(n => [n.id, n.position]));
+        return { links, conflicts: detectConflicts(links, id => positions.get(id)), budgetError: null };
+      });
+    } catch (err) {
+      useStore.setState({ budgetError: err instanceof Error ? err.message : String(err) });
+    }
+  }
+  budgetsRunning = false;
+  useStore.setState({ budgetsPending: false });
+}
+
+/** Net fields that shape or tune the links a topology net generates */
+const TOPOLOGY_FIELDS: (keyof FrequencyNet)[] = [
+  'name', 'netType', 'primaryFreqMhz', 'waveform', 'memberNodeIds', 'ncsNodeId', 'memberRoles', 'topology',
+];
+
+/** Regenerate a topology net's links and budget the ones that changed */
+function syncTopology(net: FrequencyNet) {
+  const { links, nodes, recalcBudgets } = useStore.getState();
+  const synced = syncNetLinks(net, links, nodes, Date.now());
+  useStore.setState({ links: synced.links });
+  recalcBudgets(synced.changedIds);
+}
+
 export const useStore = create<AppState>((set, get) => ({
   units: INITIAL_UNITS,
   nodes: rebuildNodes(INITIAL_UNITS),
   links: INITIAL_LINKS,
   nets: INITIAL_NETS,
+  hopsets: INITIAL_HOPSETS,
   equipmentCatalog: EQUIPMENT_CATALOG,
+  antennaPatterns: ANTENNA_PATTERNS,
+  satellites: SATELLITES,
+  frequencyPool: FREQUENCY_POOL,
+  frequencyPlan: FREQUENCY_PLAN,
+  scans: [],
+  activeScanId: null,
+  elevationSource: FLAT_ELEVATION,
+  settings: {
+    coordSystem: 'WGS84',
+    timeZone: 'Europe/Stockholm',
+    showFresnel: true,
+    showLinkBudgets: true,
+    showGrid: false,
+    kFactor: DEFAULT_K_FACTOR,
+    sunspotNumber: DEFAULT_SUNSPOT_NUMBER,
+    requiredAvailabilityPct: DEFAULT_REQUIRED_AVAILABILITY,
+    atmosphere: DEFAULT_ATMOSPHERE,
+  },
+  coverage: null,
+  relaySearch: null,
+  budgetsPending: false,
+  budgetError: null,
+  conflicts: [],
 
   view: 'map',
   selectedNodeId: null,
   selectedLinkId: null,
   hoveredLinkId: null,
   planningFromNodeId: null,
+  lassoNetId: null,
   sidebarTab: 'org',
   timelineDate: new Date().toISOString().slice(0, 10),
   showLinkBudgetPanel: false,
@@ -85,7 +325,12 @@ export const useStore = create<AppState>((set, get) => ({
   setSidebarTab: (sidebarTab) => set({ sidebarTab }),
   setTimelineDate: (timelineDate) => set({ timelineDate }),
   setShowLinkBudgetPanel: (showLinkBudgetPanel) => set({ showLinkBudgetPanel }),
-  setPlanningFrom: (planningFromNodeId) => set({ planningFromNodeId }),
+  setPlanningFrom: (planningFromNodeId) => set({ planningFromNodeId, lassoNetId: null }),
+  setLassoNet: (lassoNetId) => set({ lassoNetId, planningFromNodeId: null }),
+  updateSettings: (patch) => {
+    set(s => ({ settings: { ...s.settings, ...patch } }));
+    if (MODEL_SETTINGS.some(k => k in patch)) get().recalcBudgets();
+  },
 
   moveNode: (nodeId, pos) => {
     const { units } = get();
@@ -97,7 +342,7 @@ export const useStore = create<AppState>((set, get) => ({
       position: u.id === nodeId ? pos : u.position,
     }));
     set({ units: updated, nodes: rebuildNodes(updated) });
-    get().recalcAllBudgets();
+    get().recalcBudgets(linkIdsAt(get().links, [nodeId]));
   },
 
   updateNode: (nodeId, patch) => {
@@ -106,6 +351,198 @@ export const useStore = create<AppState>((set, get) => ({
     }));
   },
 
+  updateVehicle: (vehicleId, patch) => {
+    const units = get().units.map(u => ({
+      ...u,
+      vehicles: u.vehicles.map(v => v.id === vehicleId ? { ...v, ...patch } : v),
+    }));
+    set({ units, nodes: rebuildNodes(units) });
+    get().recalcBudgets(linkIdsAt(get().links, [vehicleId]));
+  },
+
+  updateEquipment: (vehicleId, equipmentId, patch) => {
+    const units = get().units.map(u => ({
+      ...u,
+      vehicles: u.vehicles.map(v => v.id !== vehicleId ? v : {
+        ...v,
+        equipment: v.equipment.map(e => e.id === equipmentId ? { ...e, ...patch } : e),
+      }),
+    }));
+    set({ units, nodes: rebuildNodes(units) });
+    get().recalcBudgets(linkIdsAt(get().links, [vehicleId]));
+  },
+
+  importAntennaPattern: async (file) => {
+    const pattern = parseAntennaPattern(await file.text(), file.name);
+    set(s => ({ antennaPatterns: [...s.antennaPatterns, pattern] }));
+    return pattern;
+  },
+
+  addSatellite: (satData) => {
+    // Reject a malformed element set here rather than in every budget that uses it
+    if (satData.orbit === 'TLE' && satData.tle) parseTle(satData.tle);
+    const sat: Satellite = { ...satData, id: nanoid() };
+    set(s => ({ satellites: [...s.satellites, sat] }));
+    return sat;
+  },
+
+  deleteSatellite: (id) => {
+    const relayed = get().links.filter(l => l.satelliteId === id).map(l => l.id);
+    set(s => ({
+      satellites: s.satellites.filter(x => x.id !== id),
+      links: s.links.map(l => l.satelliteId === id ? { ...l, satelliteId: undefined } : l),
+    }));
+    get().recalcBudgets(relayed);
+  },
+
+  loadDem: async (files) => {
+    const grids = await loadDemFiles(files);
+    const name = files.length === 1 ? files[0].name : `${grids.length} DEM-rutor`;
+    set({ elevationSource: createGridElevationSource(name, grids) });
+    get().recalcBudgets();
+  },
+
+  clearDem: () => {
+    set({ elevationSource: FLAT_ELEVATION });
+    get().recalcBudgets();
+  },
+
+  computeCoverage: async (request) => {
+    const { nodes, units, equipmentCatalog, elevationSource, settings } = get();
+    const node = nodes.find(n => n.id === request.nodeId);
+    if (!node) return;
+    const vehicle = units.flatMap(u => u.vehicles).find(v => v.id === node.vehicleId);
+    const txEquip = node.equipment.find(e => e.id === request.equipmentId);
+    const rxEquip = equipmentCatalog.find(e => e.id === request.counterpartEquipmentId);
+    // Waveform and channel width the two radios share, as a new link between them would get
+    const channel = txEquip && planDefaults([txEquip], [rxEquip ?? txEquip])?.link;
+    const start = new Date().toISOString();
+    set({ coverage: { request, status: 'computing' } });
+    try {
+      const result = await runCoverage({
+        center: node.position,
+        radiusKm: request.radiusKm,
+        size: COVERAGE_GRID_SIZE,
+        link: {
+          id: 'coverage',
+          name: 'Täckning',
+          netName: '',
+          netType: 'COMMAND',
+          fromNodeId: node.id,
+          toNodeId: '',
+          equipmentFromId: request.equipmentId,
+          equipmentToId: request.counterpartEquipmentId,
+          frequencyMhz: request.frequencyMhz,
+          bandwidthKhz: channel?.bandwidthKhz ?? 25,
+          waveform: channel?.waveform ?? 'FM',
+          txPowerW: txEquip ? Math.min(request.txPowerW, txEquip.maxPowerW) : request.txPowerW,
+          startTime: start,
+          endTime: start,
+          status: 'planned',
+        },
+        txEquip,
+        rxEquip,
+        opts: {
+          kFactor: settings.kFactor,
+          sunspotNumber: settings.sunspotNumber,
+          atmosphere: settings.atmosphere,
+          fromAntennaHeightM: effectiveAntennaHeightM(vehicle, txEquip),
+        },
+      }, elevationSource);
+      // Ignore results from a run that has since been replaced
+      if (get().coverage?.request === request) set({ coverage: { request, status: 'done', result } });
+    } catch (err) {
+      if (get().coverage?.request === request) {
+        set({ coverage: { request, status: 'error', error: err instanceof Error ? err.message : String(err) } });
+      }
+    }
+  },
+
+  clearCoverage: () => set({ coverage: null }),
+
+  findRelay: (linkId) => {
+    const state = get();
+    const link = state.links.find(l => l.id === linkId);
+    const ends = link && resolveLinkEnds(state, link);
+    if (!link || !ends) return;
+    const relayEquip = pickRelayRadio(state.equipmentCatalog, link, ends.fromEquip);
+    set({
+      relaySearch: {
+        linkId,
+        relayEquipId: relayEquip?.id,
+        suggestions: relayEquip ? findRelaySites(link, ends, relayEquip, propagationOptions(state)) : [],
+      },
+    });
+  },
+
+  // The relay becomes a vehicle in the transmitting node's unit, and the link is split into two hops.
+  // The hops leave a topology net's generated links, so the next sync keeps them instead of restoring the direct link.
+  // The relay gets one radio per hop, and hop 2 goes out on the net's alternate channel; without one it is
+  // split off as a link group of its own, so the clash with hop 1 shows and frequency assignment gives it a channel.
+  insertRelay: (linkId, suggestion) => {
+    const { links, nodes, nets, units, equipmentCatalog } = get();
+    const link = links.find(l => l.id === linkId);
+    const fromNode = nodes.find(n => n.id === link?.fromNodeId);
+    const toNode = nodes.find(n => n.id === link?.toNodeId);
+    const relayEquip = equipmentCatalog.find(e => e.id === suggestion.relayEquipId);
+    if (!link || !fromNode || !relayEquip) return;
+
+    const rxRadio: RadioEquipment = { ...relayEquip, mastMounted: true };
+    const txRadio: RadioEquipment = { ...rxRadio, id: `${relayEquip.id}-2`, name: `${relayEquip.name} (2)` };
+    const relayCount = units.flatMap(u => u.vehicles).filter(v => v.type === 'Reläradio').length;
+    const relay: Vehicle = {
+      id: nanoid(),
+      name: `Relä ${link.netName}`,
+      callSign: `RELÄ ${relayCount + 1}`,
+      type: 'Reläradio',
+      position: suggestion.position,
+      equipment: [rxRadio, txRadio],
+      unitId: fromNode.unitId,
+      mastHeightM: RELAY_MAST_HEIGHT_M,
+      mastUp: true,
+    };
+    const updatedUnits = units.map(u => u.id === fromNode.unitId ? { ...u, vehicles: [...u.vehicles, relay] } : u);
+    const { id: _id, linkBudget: _budget, ...base } = link;
+    const hop1: RadioLink = {
+      ...base,
+      id: nanoid(),
+      name: `${link.name} (hopp 1)`,
+      netId: undefined,
+      toNodeId: relay.id,
+      equipmentToId: rxRadio.id,
+      reverseTxPowerW: undefined,
+    };
+
+    const net = nets.find(n => n.id === link.netId) ?? nets.find(n => n.name === link.netName);
+    const toRadio = toNode?.equipment.find(e => e.id === link.equipmentToId);
+    const altChannel = net?.altFreqMhz !== undefined && net.altFreqMhz !== link.frequencyMhz
+      ? { ...link, frequencyMhz: net.altFreqMhz }
+      : undefined;
+    const onAlt = altChannel && equipmentSupports(txRadio, altChannel) && (!toRadio || equipmentSupports(toRadio, altChannel));
+    const hop2: RadioLink = {
+      ...base,
+      id: nanoid(),
+      name: `${link.name} (hopp 2)`,
+      netId: undefined,
+      netName: onAlt ? link.netName : `${link.netName} relä`,
+      frequencyMhz: onAlt ? altChannel.frequencyMhz : link.frequencyMhz,
+      fromNodeId: relay.id,
+      equipmentFromId: txRadio.id,
+      txPowerW: Math.min(link.txPowerW, relayEquip.maxPowerW),
+    };
+
+    set({
+      units: updatedUnits,
+      nodes: rebuildNodes(updatedUnits),
+      links: [...links.filter(l => l.id !== linkId), hop1, hop2],
+      relaySearch: null,
+      selectedLinkId: hop1.id,
+    });
+    get().recalcBudgets([linkId, hop1.id, hop2.id]);
+  },
+
+  clearRelaySearch: () => set({ relaySearch: null }),
+
   addUnit: (unitData) => {
     const unit: Unit = { ...unitData, id: nanoid(), vehicles: [] };
     const units = [...get().units, unit];
@@ -125,55 +562,160 @@ export const useStore = create<AppState>((set, get) => ({
   addLink: (linkData) => {
     const link: RadioLink = { ...linkData, id: nanoid() };
     set(s => ({ links: [...s.links, link] }));
-    get().recalcLinkBudget(link.id);
+    get().recalcBudgets([link.id]);
   },
 
   updateLink: (id, patch) => {
-    set(s => ({ links: s.links.map(l => l.id === id ? { ...l, ...patch } : l) }));
-    get().recalcLinkBudget(id);
+    const state = get();
+    const link = state.links.find(l => l.id === id);
+    if (!link) return;
+    let updated = { ...link, ...patch };
+
+    // A retune the current radios cannot follow moves the link to radios on the same nodes that can
+    const ends = resolveLinkEnds(state, updated);
+    const radiosFit = ends?.fromEquip && ends.toEquip
+      && equipmentSupports(ends.fromEquip, updated) && equipmentSupports(ends.toEquip, updated);
+    const radiosPinned = 'equipmentFromId' in patch || 'equipmentToId' in patch;
+    if (ends && !radiosFit && !radiosPinned) {
+      const nodeRadios = (nodeId: string) => state.nodes.find(n => n.id === nodeId)?.equipment ?? [];
+      const pair = pickCompatibleEquipment(nodeRadios(updated.fromNodeId), nodeRadios(updated.toNodeId), updated);
+      if (pair) updated = { ...updated, equipmentFromId: pair.fromEquip.id, equipmentToId: pair.toEquip.id };
+    }
+
+    set(s => ({ links: s.links.map(l => l.id === id ? updated : l) }));
+    get().recalcBudgets([id]);
   },
 
   deleteLink: (id) => {
-    set(s => ({ links: s.links.filter(l => l.id !== id) }));
+    set(s => ({
+      links: s.links.filter(l => l.id !== id),
+      relaySearch: s.relaySearch?.linkId === id ? null : s.relaySearch,
+    }));
+    get().recalcBudgets([id]);
   },
 
-  recalcLinkBudget: (id) => {
-    const { links, nodes, units } = get();
-    const link = links.find(l => l.id === id);
-    if (!link) return;
+  // Only the changed links get new path budgets; the engine adds the links their interference reaches
+  recalcBudgets: (linkIds) => queueBudgets(linkIds ?? 'all'),
 
-    const fromNode = nodes.find(n => n.id === link.fromNodeId);
-    const toNode = nodes.find(n => n.id === link.toNodeId);
-    if (!fromNode || !toNode) return;
+  addNet: (netData) => {
+    const net: FrequencyNet = { ...netData, id: nanoid() };
+    set(s => ({ nets: [...s.nets, net] }));
+    if (net.topology) syncTopology(net);
+    else if (net.hopsetId) get().recalcBudgets(linkIdsInNets(get().links, [net.name]));
+  },
 
-    // Find equipment
-    const fromVehicle = units.flatMap(u => u.vehicles).find(v => v.id === fromNode.vehicleId);
-    const toVehicle = units.flatMap(u => u.vehicles).find(v => v.id === toNode.vehicleId);
-    const fromEquip = fromVehicle?.equipment.find(e => e.id === link.equipmentFromId);
-    const toEquip = toVehicle?.equipment.find(e => e.id === link.equipmentToId);
+  // The net's links hop (or stop hopping) with it, which changes their interference
+  updateNet: (id, patch) => {
+    const before = get().nets.find(n => n.id === id);
+    if (!before) return;
+    // NCS, alternate NCS and roles leave with their member
+    const net = patch.memberNodeIds ? pruneNetMembers({ ...before, ...patch }) : { ...before, ...patch };
+    set(s => ({ nets: s.nets.map(n => n.id === id ? net : n) }));
+    const hoppingChanged = (['name', 'hopsetId', 'hopNetId'] as const).some(k => k in patch && patch[k] !== before[k]);
+    if (hoppingChanged) get().recalcBudgets(linkIdsInNets(get().links, [before.name, net.name]));
 
-    const budget = calcLinkBudget(fromNode.position, toNode.position, link, fromEquip, toEquip);
+    if (net.topology) {
+      const topologyChanged = (Object.keys(patch) as (keyof FrequencyNet)[]).some(k => TOPOLOGY_FIELDS.includes(k) && patch[k] !== before[k]);
+      if (topologyChanged) syncTopology(net);
+    } else if (before.topology) {
+      // Dropping the topology hands the generated links over to manual planning
+      set(s => ({ links: s.links.map(l => l.netId === id ? { ...l, netId: undefined } : l) }));
+    }
+  },
+
+  // Links the net generated go with it
+  deleteNet: (id) => {
+    const net = get().nets.find(n => n.id === id);
+    const generated = get().links.filter(l => l.netId === id).map(l => l.id);
     set(s => ({
-      links: s.links.map(l => l.id === id ? { ...l, linkBudget: budget } : l),
+      nets: s.nets.filter(n => n.id !== id),
+      links: s.links.filter(l => l.netId !== id),
+      relaySearch: s.relaySearch && generated.includes(s.relaySearch.linkId) ? null : s.relaySearch,
+      lassoNetId: s.lassoNetId === id ? null : s.lassoNetId,
     }));
+    get().recalcBudgets([...generated, ...(net?.hopsetId ? linkIdsInNets(get().links, [net.name]) : [])]);
   },
 
-  recalcAllBudgets: () => {
-    get().links.forEach(l => get().recalcLinkBudget(l.id));
+  addHopset: (hopset) => {
+    set(s => ({ hopsets: [...s.hopsets, { ...hopset, id: nanoid() }] }));
   },
 
-  addNet: (netData) => {
-    set(s => ({ nets: [...s.nets, { ...netData, id: nanoid() }] }));
+  // Only the channels feed the budgets; a rename leaves them as they are
+  updateHopset: (id, patch) => {
+    set(s => ({ hopsets: s.hopsets.map(h => h.id === id ? { ...h, ...patch } : h) }));
+    if (!HOPSET_CHANNEL_FIELDS.some(k => k in patch)) return;
+    const { nets, links } = get();
+    get().recalcBudgets(linkIdsInNets(links, nets.filter(n => n.hopsetId === id).map(n => n.name)));
   },
 
-  updateNet: (id, patch) => {
-    set(s => ({ nets: s.nets.map(n => n.id === id ? { ...n, ...patch } : n) }));
+  // Nets on a deleted hopset fall back to their fixed frequency
+  deleteHopset: (id) => {
+    const netNames = get().nets.filter(n => n.hopsetId === id).map(n => n.name);
+    set(s => ({
+      hopsets: s.hopsets.filter(h => h.id !== id),
+      nets: s.nets.map(n => n.hopsetId === id ? { ...n, hopsetId: undefined } : n),
+    }));
+    get().recalcBudgets(linkIdsInNets(get().links, netNames));
   },
 
-  deleteNet: (id) => {
-    set(s => ({ nets: s.nets.filter(n => n.id !== id) }));
+  importFrequencyPlan: async (file) => {
+    set({ frequencyPlan: parseFrequencyPlan(await file.text(), file.name) });
+  },
+
+  clearFrequencyPlan: () => set({ frequencyPlan: null }),
+
+  updateFrequencyPool: (frequencyPool) => set({ frequencyPool }),
+
+  planFrequencies: (options) => {
+    const { nets, links, nodes, frequencyPool, frequencyPlan } = get();
+    return assignFrequencies(assignmentTargets(nets, links, nodes, options.assignAlternates), frequencyPool, {
+      ...options,
+      plan: frequencyPlan,
+    });
+  },
+
+  // Targets the solver could not place keep their current frequencies
+  applyFrequencyAssignment: (result) => {
+    const netFreqs = new Map<string, { primaryFreqMhz: number; altFreqMhz?: number }>();
+    const linkFreqs = new Map<string, number>();
+    const linkById = new Map(get().links.map(l => [l.id, l]));
+    for (const { target, mhz } of result.assignments) {
+      if (mhz.PRIMARY === undefined) continue;
+      if (target.netId) {
+        netFreqs.set(target.netId, {
+          primaryFreqMhz: mhz.PRIMARY,
+          altFreqMhz: target.slots.includes('ALT') ? mhz.ALT : target.current.ALT,
+        });
+      }
+      // Links on the net's alternate channel, such as a relay's second hop, follow the alternate
+      const alt = (target.slots.includes('ALT') ? mhz.ALT : undefined) ?? target.current.ALT;
+      for (const id of target.linkIds) {
+        const onAlt = alt !== undefined && linkById.get(id)?.frequencyMhz === target.current.ALT;
+        linkFreqs.set(id, onAlt ? alt : mhz.PRIMARY);
+      }
+    }
+    const changed = get().links.filter(l => linkFreqs.has(l.id) && linkFreqs.get(l.id) !== l.frequencyMhz).map(l => l.id);
+    set(s => ({
+      nets: s.nets.map(n => netFreqs.has(n.id) ? { ...n, ...netFreqs.get(n.id) } : n),
+      links: s.links.map(l => linkFreqs.has(l.id) ? { ...l, frequencyMhz: linkFreqs.get(l.id)! } : l),
+    }));
+    get().recalcBudgets(changed);
+  },
+
+  importScan: async (file) => {
+    const scans = parseScanCsv(await file.text(), file.name);
+    set(s => ({ scans: [...s.scans, ...scans], activeScanId: scans[0].id }));
+  },
+
+  selectScan: (activeScanId) => set({ activeScanId }),
+
+  deleteScan: (id) => {
+    set(s => ({
+      scans: s.scans.filter(sc => sc.id !== id),
+      activeScanId: s.activeScanId === id ? null : s.activeScanId,
+    }));
   },
 }));
 
 // Recalculate all link budgets on startup
-setTimeout(() => useStore.getState().recalcAllBudgets(), 0);
+setTimeout(() => useStore.getState().recalcBudgets(), 0);
@@ -7,6 +7,15 @@ export interface LatLng {
 // ── Equipment ──────────────────────────────────────────────────────────────
 export type EquipmentCategory = 'VHF' | 'HF' | 'UHF' | 'SHF' | 'SATCOM' | 'DATALINK';
 
+/** Antenna radiation pattern, attenuation relative to peak gain in 1° steps */
+export interface AntennaPattern {
+  id: string;
+  name: string;
+  peakGainDbi: number;
+  horizontal: number[]; // 360 values, index = degrees clockwise from boresight
+  vertical: number[];   // 360 values, index = degrees below horizon (MSI convention)
+}
+
 export interface RadioEquipment {
   id: string;
   name: string;
@@ -15,8 +24,16 @@ export interface RadioEquipment {
   freqMin: number;   // MHz
   freqMax: number;   // MHz
   maxPowerW: number; // Watts
+  waveforms?: WaveformType[];       // supported modulations; any when absent
+  bandwidthsKhz?: number[];         // channel filters fitted; any when absent
   rxSensitivityDbm: number;
+  noiseFigureDb?: number;           // receiver noise figure; a typical value is assumed when absent
   antennaGainDbi: number;
+  antennaPattern?: AntennaPattern;  // directional antenna; omni with antennaGainDbi when absent
+  antennaAzimuthDeg?: number;       // boresight pointing of the mounted antenna
+  antennaHeightM?: number;          // antenna height above ground when not on the mast
+  mastMounted?: boolean;            // antenna is carried up when the vehicle raises its mast
+  minElevationDeg?: number;         // SATCOM: lowest look angle the terminal can work
   description?: string;
 }
 
@@ -43,6 +60,8 @@ export interface Vehicle {
   position?: LatLng;
   equipment: RadioEquipment[];
   unitId: string;
+  mastHeightM?: number; // telescopic mast height when raised
+  mastUp?: boolean;     // halted with mast raised vs. on the move
 }
 
 export interface Unit {
@@ -62,16 +81,101 @@ export type WaveformType = 'AM' | 'FM' | 'USB' | 'LSB' | 'WBFM' | 'FSK' | 'PSK'
 export type LinkStatus = 'planned' | 'active' | 'degraded' | 'failed';
 export type NetType = 'COMMAND' | 'ADMIN_LOG' | 'FIRE_SUPPORT' | 'AIR' | 'DATA' | 'COORD';
 
+export type PropagationMode = 'TERRESTRIAL' | 'SKYWAVE' | 'NVIS' | 'SATELLITE';
+export type MultipathKind = 'RICIAN' | 'RAYLEIGH';
+export type LinkDirection = 'FORWARD' | 'REVERSE';
+
+/** One interfering transmitter as seen by a link's receiver */
+export interface InterferenceEntry {
+  linkId: string;          // interfering link (its transmitter)
+  netName: string;
+  frequencyMhz: number;
+  offsetKhz: number;       // carrier offset from the victim channel
+  rejectionDb: number;     // receiver selectivity against the interferer
+  interferenceDbm: number; // interfering power after rejection
+  ciDb: number;            // wanted carrier over this interferer
+  overlapPct?: number;     // hopping: share of the victim's hops that collide
+  sourceDirection?: LinkDirection;   // REVERSE when the interferer's answering end is the stronger emitter
+}
+
+/** Pointing from a ground terminal to a satellite */
+export interface LookAngles {
+  azimuthDeg: number;    // clockwise from true north
+  elevationDeg: number;  // above the horizon, negative when the satellite is below it
+  slantKm: number;
+}
+
+/** One hop of a bent-pipe satellite link, terminal → satellite or satellite → terminal */
+export interface SatcomHop {
+  frequencyMhz: number;
+  look: LookAngles;             // from the ground terminal of this hop
+  minElevationDeg: number;
+  belowMinElevation: boolean;
+  eirpDbw: number;              // transmitting end
+  fsplDb: number;
+  rainLossDb: number;           // slant path, ITU-R P.618
+  gasLossDb: number;
+  cloudLossDb: number;
+  gtDbK: number;                // receiving end figure of merit
+  cn0DbHz: number;
+}
+
+export interface SatcomBudget {
+  satelliteId: string;
+  uplink: SatcomHop;
+  downlink: SatcomHop;
+  cn0DbHz: number;              // end to end, uplink noise relayed by the transponder
+  cnDb: number;                 // in the channel bandwidth
+  belowMinElevation: boolean;   // either terminal
+  evaluatedAt: string;          // ISO, worst moment of the link's window, where the hops are worked out
+  visiblePct: number;           // share of the window with both terminals above their minimum elevation
+}
+
 export interface LinkBudget {
+  propagationMode: PropagationMode;
   txPowerDbm: number;
   txGainDbi: number;
   rxGainDbi: number;
   fsplDb: number;
   terrainLossDb: number;
-  atmosphericLossDb: number;
+  atmosphericLossDb: number;    // rain + gas + cloud
+  rainLossDb: number;           // ITU-R P.838 / P.530
+  gasLossDb: number;            // ITU-R P.676
+  cloudLossDb: number;          // ITU-R P.840
+  fromAntennaHeightM: number;   // AGL
+  toAntennaHeightM: number;     // AGL
+  fromSiteElevationM?: number;  // ground above MSL from the DEM
+  toSiteElevationM?: number;
+  radioHorizonKm: number;       // smooth-earth horizon for the two antenna heights
+  beyondHorizon: boolean;
+  skywaveLossDb?: number;       // HF: absorption + reflection + excess loss
+  mufMhz?: number;              // HF: maximum usable frequency at link start
+  fotMhz?: number;              // HF: optimum traffic frequency at link start
   receivedPowerDbm: number;
   rxSensitivityDbm: number;
   linkMarginDb: number;
+  noiseFloorDbm: number;        // receiver plus external noise in the channel bandwidth
+  interferenceDbm?: number;     // aggregate interference at the receiver
+  ciDb?: number;                // carrier over aggregate interference
+  sinrDb: number;
+  effectiveMarginDb: number;    // margin after desensitisation by interference
+  requiredSnrDb: number;        // readable voice, or the slowest data mode, on this waveform
+  snrMarginDb: number;
+  voiceGrade: number;           // 1 (unusable) – 5 (excellent)
+  dataRateKbps: number;         // fastest data mode that closes, 0 if none
+  dataMode?: string;
+  multipath: MultipathKind;
+  shadowSigmaDb: number;
+  fadeMarginDb: number;             // the tighter of power and SNR margin
+  locationReliabilityPct: number;
+  timeAvailabilityPct: number;
+  availabilityPct: number;          // time-location reliability
+  requiredAvailabilityPct: number;  // target for the link's net type
+  belowAvailabilityTarget: boolean;
+  interference?: InterferenceEntry[];
+  satcom?: SatcomBudget;        // path items above then describe the downlink
+  reverse?: LinkBudget;         // to → from, when the far end answers; never nested further
+  limitingDirection?: LinkDirection;
   distanceKm: number;
   feasible: boolean;
 }
@@ -81,14 +185,17 @@ export interface RadioLink {
   name: string;
   netName: string;
   netType: NetType;
+  netId?: string;        // generated from this net's topology and kept in step with it
   fromNodeId: string;
   toNodeId: string;
   equipmentFromId?: string;
   equipmentToId?: string;
-  frequencyMhz: number;
+  satelliteId?: string;  // SATCOM: relayed via this satellite instead of point to point
+  frequencyMhz: number;  // receive (downlink) frequency on satellite links
   bandwidthKhz: number;
   waveform: WaveformType;
   txPowerW: number;
+  reverseTxPowerW?: number;  // far end answering; its radio's max power, capped at txPowerW, when absent
   startTime: string;  // ISO
   endTime: string;    // ISO
   status: LinkStatus;
@@ -96,7 +203,69 @@ export interface RadioLink {
   notes?: string;
 }
 
+// ── Satellites ─────────────────────────────────────────────────────────────
+export interface TwoLineElements {
+  line1: string;
+  line2: string;
+}
+
+/** Bent-pipe satellite, either parked in GEO or propagated from a TLE */
+export interface Satellite {
+  id: string;
+  name: string;
+  orbit: 'GEO' | 'TLE';
+  longitudeDeg?: number;      // GEO: sub-satellite longitude, east positive
+  tle?: TwoLineElements;      // TLE: element set for Kepler propagation
+  uplinkOffsetMhz: number;    // uplink = link frequency + offset
+  gtDbK: number;              // receive G/T towards the coverage area
+  rxGainDbi: number;          // receive antenna gain
+  transponderGainDb: number;  // receive antenna output to transmit EIRP
+  saturatedEirpDbw: number;   // downlink EIRP ceiling for the carrier
+}
+
+// ── Spectrum monitoring ────────────────────────────────────────────────────
+export interface ScanSample {
+  frequencyMhz: number;
+  levelDbm: number;
+}
+
+/** One measured sweep set from a monitoring site, samples sorted by frequency */
+export interface SpectrumScan {
+  id: string;
+  name: string;             // imported file
+  location?: LatLng;
+  locationLabel?: string;   // site name from the file, when given instead of / besides coordinates
+  startTime: string;        // ISO, first and …
+  endTime: string;          // … last timestamp of the set
+  samples: ScanSample[];
+}
+
+// ── Frequency hopping ──────────────────────────────────────────────────────
+/** Hop rate class of a TRANSEC net: slow ≈ tens, medium ≈ a hundred, fast ≈ several hundred hops/s */
+export type HopRateClass = 'SLOW' | 'MEDIUM' | 'FAST';
+
+export interface FrequencyRange {
+  minMhz: number;
+  maxMhz: number;
+}
+
+/** Named set of channels a hopping net spreads over */
+export interface Hopset {
+  id: string;
+  name: string;
+  channelSpacingKhz: number;   // raster of the channels within `ranges`
+  ranges: FrequencyRange[];
+  frequenciesMhz: number[];    // single channels on top of the ranges
+  lockouts: FrequencyRange[];  // never hopped on
+}
+
 // ── Frequency Nets ─────────────────────────────────────────────────────────
+/** How a net's members are linked: each to the NCS, every pair, or one after another in member order */
+export type NetTopology = 'STAR' | 'MESH' | 'CHAIN';
+
+/** A member's part in the net; members without one take part in full */
+export type NetMemberRole = 'MEMBER' | 'LISTEN_ONLY' | 'RELAY';
+
 export interface FrequencyNet {
   id: string;
   name: string;
@@ -106,10 +275,76 @@ export interface FrequencyNet {
   netType: NetType;
   memberNodeIds: string[];
   color: string;
+  ncsNodeId?: string;          // Net Control Station, one of the members
+  altNcsNodeId?: string;       // takes over net control when the NCS drops out
+  memberRoles?: Record<string, NetMemberRole>;   // by node ID
+  topology?: NetTopology;      // links derived from the members when set
+  hopsetId?: string;           // hops over this set instead of the fixed frequency
+  hopNetId?: number;           // TRANSEC net ID selecting the hop sequence
+  hopRate?: HopRateClass;
+}
+
+// ── Frequency plan ─────────────────────────────────────────────────────────
+/** Allotted bands may be used; protected (guarded/taboo) frequencies and civil bands may not */
+export type FrequencyPlanKind = 'ALLOTTED' | 'PROTECTED' | 'CIVIL';
+
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface FrequencyPlanEntry {
+  id: string;
+  kind: FrequencyPlanKind;
+  minMhz: number;
+  maxMhz: number;      // equal to minMhz for a single protected frequency
+  label: string;
+  region?: GeoBounds;  // only applies to transmitters inside; unset = nationwide
+}
+
+/** National frequency authorization plan */
+export interface FrequencyPlan {
+  name: string;
+  entries: FrequencyPlanEntry[];
+}
+
+/** A block of spectrum frequencies may be assigned from */
+export interface FrequencyPoolBand {
+  id: string;
+  label: string;
+  minMhz: number;
+  maxMhz: number;
+  channelSpacingKhz: number;
+  guardBandKhz: number;      // extra clearance between neighbouring channel edges
+  reuseDistanceKm: number;   // users further apart than this may share a channel
+}
+
+// ── Coverage ───────────────────────────────────────────────────────────────
+export interface CoverageRequest {
+  nodeId: string;
+  equipmentId: string;
+  txPowerW: number;
+  frequencyMhz: number;
+  counterpartEquipmentId: string; // catalogue radio on the receiving side
+  radiusKm: number;
 }
 
 // ── App State ──────────────────────────────────────────────────────────────
-export type AppView = 'map' | 'org' | 'spectrum' | 'timeline' | 'planning';
+export type AppView = 'map' | 'org' | 'spectrum' | 'timeline' | 'occupancy' | 'planning';
+
+/** Rain climate and atmosphere for the ITU-R attenuation models */
+export interface AtmosphereSettings {
+  rainMode: 'RATE' | 'EXCEEDANCE'; // fixed rain rate, or the loss exceeded p % of the year
+  rainRateMmH: number;             // used in RATE mode
+  regionRain001MmH: number;        // rain rate exceeded 0.01 % of the year in the region
+  exceedancePct: number;           // p, 0.001–1 %
+  temperatureC: number;
+  pressureHpa: number;
+  waterVapourGm3: number;
+  cloudLiquidGm3: number;          // cloud/fog liquid water along the path
+}
 
 export interface AppSettings {
   coordSystem: 'WGS84' | 'SWEREF99' | 'RT90';
@@ -117,4 +352,8 @@ export interface AppSettings {
   showFresnel: boolean;
   showLinkBudgets: boolean;
   showGrid: boolean;
+  kFactor: number;       // effective earth-radius factor for path profiles
+  sunspotNumber: number; // smoothed SSN driving the HF skywave model
+  requiredAvailabilityPct: Record<NetType, number>;
+  atmosphere: AtmosphereSettings;
 }
@@ -0,0 +1,128 @@
+import type { AntennaPattern, RadioEquipment, Vehicle } from '../types';
+import { nanoid } from './id';
+import { DEFAULT_ANTENNA_HEIGHT_M } from './terrain';
+
+/** Mast height assumed for vehicles that have a mast but no height recorded */
+export const DEFAULT_MAST_HEIGHT_M = 10;
+
+/** Antenna height above ground for a radio as currently configured on its vehicle */
+export function effectiveAntennaHeightM(vehicle: Vehicle | undefined, equip: RadioEquipment | undefined): number {
+  if (equip?.mastMounted && vehicle?.mastUp) return vehicle.mastHeightM ?? DEFAULT_MAST_HEIGHT_M;
+  return equip?.antennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M;
+}
+
+/** Resample sparse (angle, attenuation) points onto a 0–359° grid, interpolating around the circle */
+function resample360(points: [number, number][]): number[] {
+  if (points.length === 0) return new Array(360).fill(0);
+  const sorted = points
+    .map(([a, v]) => [((a % 360) + 360) % 360, v] as [number, number])
+    .sort((a, b) => a[0] - b[0]);
+  const out: number[] = [];
+  for (let deg = 0; deg < 360; deg++) {
+    let hi = sorted.findIndex(([a]) => a >= deg);
+    if (hi === -1) hi = 0;
+    const lo = (hi - 1 + sorted.length) % sorted.length;
+    const [aLo, vLo] = sorted[lo];
+    const [aHi, vHi] = sorted[hi];
+    const span = (aHi - aLo + 360) % 360 || 360;
+    const t = ((deg - aLo + 360) % 360) / span;
+    out.push(sorted.length === 1 ? vLo : vLo + (vHi - vLo) * t);
+  }
+  return out;
+}
+
+/**
+ * Parse an MSI/Planet pattern file:
+ *   NAME …, GAIN <value> [dBd|dBi], HORIZONTAL <n>, <angle> <loss> …, VERTICAL <n>, …
+ * Losses are dB below peak. dBd gains are converted to dBi.
+ */
+export function parseMsiPattern(text: string, fallbackName = 'Antenn'): AntennaPattern {
+  let name = fallbackName;
+  let peakGainDbi = 0;
+  const h: [number, number][] = [];
+  const v: [number, number][] = [];
+  let section: 'H' | 'V' | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const [key, ...rest] = line.split(/\s+/);
+    const upper = key.toUpperCase();
+    if (upper === 'NAME') { name = rest.join(' ') || name; continue; }
+    if (upper === 'GAIN') {
+      const g = parseFloat(rest[0]);
+      peakGainDbi = /dbd/i.test(rest[1] ?? '') ? g + 2.15 : g;
+      continue;
+    }
+    if (upper === 'HORIZONTAL') { section = 'H'; continue; }
+    if (upper === 'VERTICAL') { section = 'V'; continue; }
+    const angle = parseFloat(key), loss = parseFloat(rest[0]);
+    if (section && Number.isFinite(angle) && Number.isFinite(loss)) {
+      (section === 'H' ? h : v).push([angle, loss]);
+    }
+  }
+  if (h.length === 0) throw new Error('Mönsterfilen saknar HORIZONTAL-data');
+  return { id: nanoid(), name, peakGainDbi, horizontal: resample360(h), vertical: resample360(v) };
+}
+
+/**
+ * Parse a simple CSV pattern: `plane,angle,gain` with plane H/V and absolute
+ * gain in dBi. A header row is optional.
+ */
+export function parseCsvPattern(text: string, name = 'Antenn'): AntennaPattern {
+  const h: [number, number][] = [];
+  const v: [number, number][] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const [plane, angle, gain] = raw.split(/[,;\t]/).map(c => c.trim());
+    const a = parseFloat(angle), g = parseFloat(gain);
+    if (!plane || !Number.isFinite(a) || !Number.isFinite(g)) continue;
+    (/^h/i.test(plane) ? h : v).push([a, g]);
+  }
+  if (h.length === 0) throw new Error('CSV-filen saknar H-rader (plane,angle,gain)');
+  const peakGainDbi = Math.max(...h.map(([, g]) => g), ...v.map(([, g]) => g));
+  const toLoss = (pts: [number, number][]) => pts.map(([a, g]) => [a, peakGainDbi - g] as [number, number]);
+  return { id: nanoid(), name, peakGainDbi, horizontal: resample360(toLoss(h)), vertical: resample360(toLoss(v)) };
+}
+
+/** Pick the parser from the file name / content */
+export function parseAntennaPattern(text: string, fileName: string): AntennaPattern {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  return /\.csv$/i.test(fileName) ? parseCsvPattern(text, name) : parseMsiPattern(text, name);
+}
+
+/** Pattern shaped by half-power beamwidths and front-to-back ratio — for built-in antenna types */
+export function syntheticPattern(
+  name: string,
+  peakGainDbi: number,
+  hBeamwidthDeg: number,
+  frontToBackDb: number,
+  vBeamwidthDeg = 60,
+): AntennaPattern {
+  const lobe = (off: number, bw: number, floor: number) => Math.min(12 * (off / bw) ** 2, floor);
+  const horizontal = Array.from({ length: 360 }, (_, d) => lobe(Math.min(d, 360 - d), hBeamwidthDeg, frontToBackDb));
+  const vertical = Array.from({ length: 360 }, (_, d) => lobe(Math.min(d, 360 - d), vBeamwidthDeg, 25));
+  return { id: `syn_${name}`, name, peakGainDbi, horizontal, vertical };
+}
+
+function lookup(values: number[], deg: number): number {
+  const d = ((deg % 360) + 360) % 360;
+  const i = Math.floor(d);
+  const t = d - i;
+  return values[i] * (1 - t) + values[(i + 1) % 360] * t;
+}
+
+/** Antenna gain (dBi) of mounted equipment towards an azimuth/elevation */
+export function antennaGainTowards(equip: RadioEquipment | undefined, azimuthDeg: number, elevationDeg = 0): number {
+  if (!equip) return 0;
+  const p = equip.antennaPattern;
+  if (!p) return equip.antennaGainDbi;
+  const off = azimuthDeg - (equip.antennaAzimuthDeg ?? 0);
+  return p.peakGainDbi - lookup(p.horizontal, off) - lookup(p.vertical, -elevationDeg);
+}
+
+/** Horizontal half-power (−3 dB) beamwidth in degrees */
+export function beamwidthDeg(p: AntennaPattern): number {
+  let half = 0;
+  while (half < 180 && p.horizontal[half] < 3 && p.horizontal[(360 - half) % 360] < 3) half++;
+  return half * 2;
+}
@@ -0,0 +1,243 @@
+import type { AtmosphereSettings } from '../types';
+
+/** Rain climate and atmosphere for a temperate inland region (Sweden, P.837 zone E) */
+export const DEFAULT_ATMOSPHERE: AtmosphereSettings = {
+  rainMode: 'EXCEEDANCE',
+  rainRateMmH: 10,
+  regionRain001MmH: 25,
+  exceedancePct: 0.1,
+  temperatureC: 15,
+  pressureHpa: 1013,
+  waterVapourGm3: 7.5,
+  cloudLiquidGm3: 0,
+};
+
+// ── ITU-R P.838-3: rain specific attenuation ──────────────────────────────
+
+interface GaussTerm { a: number; b: number; c: number }
+
+const gaussSum = (terms: GaussTerm[], x: number) =>
+  terms.reduce((s, { a, b, c }) => s + a * Math.exp(-(((x - b) / c) ** 2)), 0);
+
+const K_H: GaussTerm[] = [
+  { a: -5.33980, b: -0.10008, c: 1.13098 },
+  { a: -0.35351, b: 1.26970, c: 0.45400 },
+  { a: -0.23789, b: 0.86036, c: 0.15354 },
+  { a: -0.94158, b: 0.64552, c: 0.16817 },
+];
+const K_V: GaussTerm[] = [
+  { a: -3.80595, b: 0.56934, c: 0.81061 },
+  { a: -3.44965, b: -0.22911, c: 0.51059 },
+  { a: -0.39902, b: 0.73042, c: 0.11899 },
+  { a: 0.50167, b: 1.07319, c: 0.27195 },
+];
+const ALPHA_H: GaussTerm[] = [
+  { a: -0.14318, b: 1.82442, c: -0.55187 },
+  { a: 0.29591, b: 0.77564, c: 0.19822 },
+  { a: 0.32177, b: 0.63773, c: 0.13164 },
+  { a: -5.37610, b: -0.96230, c: 1.47828 },
+  { a: 16.1721, b: -3.29980, c: 3.43990 },
+];
+const ALPHA_V: GaussTerm[] = [
+  { a: -0.07771, b: 2.33840, c: -0.76284 },
+  { a: 0.56727, b: 0.95545, c: 0.54039 },
+  { a: -0.20238, b: 1.14520, c: 0.26809 },
+  { a: -48.2991, b: 0.791669, c: 0.116226 },
+  { a: 48.5833, b: 0.791459, c: 0.116479 },
+];
+
+/**
+ * P.838-3 regression coefficients k and α for circular polarisation (τ = 45°),
+ * which averages the horizontal and vertical values. Valid 1–1000 GHz.
+ */
+export function rainCoefficients(freqGhz: number): { k: number; alpha: number } {
+  const x = Math.log10(freqGhz);
+  const kH = Math.pow(10, gaussSum(K_H, x) - 0.18961 * x + 0.71147);
+  const kV = Math.pow(10, gaussSum(K_V, x) - 0.16398 * x + 0.63297);
+  const aH = gaussSum(ALPHA_H, x) + 0.67849 * x - 1.95537;
+  const aV = gaussSum(ALPHA_V, x) - 0.053739 * x + 0.83433;
+  const k = (kH + kV) / 2;
+  return { k, alpha: (kH * aH + kV * aV) / (2 * k) };
+}
+
+/** Rain specific attenuation γR = k·R^α (dB/km) */
+export function rainSpecificAttenuation(freqGhz: number, rainRateMmH: number): number {
+  if (freqGhz < 1 || rainRateMmH <= 0) return 0;
+  const { k, alpha } = rainCoefficients(freqGhz);
+  return k * Math.pow(rainRateMmH, alpha);
+}
+
+/** P.530 path reduction: rain cells are smaller than long paths */
+function rainPathFactor(distKm: number, rainRateMmH: number): number {
+  const d0 = 35 * Math.exp(-0.015 * Math.min(rainRateMmH, 100));
+  return 1 / (1 + distKm / d0);
+}
+
+/** P.530 scaling from the 0.01 % attenuation to p % of the time (latitude ≥ 30°) */
+function exceedanceScale(freqGhz: number, pct: number): number {
+  const p = Math.min(1, Math.max(0.001, pct));
+  const c0 = freqGhz >= 10 ? 0.12 + 0.4 * Math.log10(Math.pow(freqGhz / 10, 0.8)) : 0.12;
+  const c1 = Math.pow(0.07, c0) * Math.pow(0.12, 1 - c0);
+  const c2 = 0.855 * c0 + 0.546 * (1 - c0);
+  const c3 = 0.139 * c0 + 0.043 * (1 - c0);
+  return c1 * Math.pow(p, -(c2 + c3 * Math.log10(p)));
+}
+
+/**
+ * Rain attenuation (dB) over a terrestrial path, either at a fixed rain rate or
+ * the level exceeded for the given percentage of an average year.
+ */
+export function rainAttenuationDb(freqGhz: number, distKm: number, atm: AtmosphereSettings): number {
+  if (atm.rainMode === 'RATE') {
+    return rainSpecificAttenuation(freqGhz, atm.rainRateMmH) * distKm * rainPathFactor(distKm, atm.rainRateMmH);
+  }
+  const r = atm.regionRain001MmH;
+  const a001 = rainSpecificAttenuation(freqGhz, r) * distKm * rainPathFactor(distKm, r);
+  return a001 * exceedanceScale(freqGhz, atm.exceedancePct);
+}
+
+// ── ITU-R P.676 (Annex 2): gaseous absorption ──────────────────────────────
+
+/**
+ * Specific attenuation of dry air and water vapour (dB/km), simplified P.676
+ * Annex 2 formulas. Dry air uses the ≤ 54 GHz branch, so values are held above
+ * the oxygen complex.
+ */
+function gasComponents(freqGhz: number, atm: AtmosphereSettings): { oxygen: number; water: number } {
+  const f = Math.min(freqGhz, 54);
+  const rp = atm.pressureHpa / 1013;
+  const rt = 288 / (273 + atm.temperatureC);
+  const rho = atm.waterVapourGm3;
+  const phi = (a: number, b: number, c: number, d: number) =>
+    Math.pow(rp, a) * Math.pow(rt, b) * Math.exp(c * (1 - rp) + d * (1 - rt));
+
+  const xi1 = phi(0.0717, -1.8132, 0.0156, -1.6515);
+  const xi2 = phi(0.5146, -4.6368, -0.1921, -5.7416);
+  const xi3 = phi(0.3414, -6.5851, 0.2130, -8.5854);
+  const gammaO = (7.2 * Math.pow(rt, 2.8) / (f * f + 0.34 * rp * rp * Math.pow(rt, 1.6))
+    + 0.62 * xi3 / (Math.pow(54 - f, 1.16 * xi1) + 0.83 * xi2)) * f * f * rp * rp * 1e-3;
+
+  const fw = freqGhz;
+  const eta1 = 0.955 * rp * Math.pow(rt, 0.68) + 0.006 * rho;
+  const eta2 = 0.735 * rp * Math.pow(rt, 0.5) + 0.0353 * Math.pow(rt, 4) * rho;
+  const g = (fi: number) => 1 + ((fw - fi) / (fw + fi)) ** 2;
+  const line = (c: number, e: number, fi: number, w: number, eta = eta1) =>
+    (c * eta * Math.exp(e * (1 - rt))) / ((fw - fi) ** 2 + w * eta * eta);
+  const gammaW = (
+    line(3.98, 2.23, 22.235, 9.42) * g(22)
+    + line(11.96, 0.7, 183.31, 11.14)
+    + line(0.081, 6.44, 321.226, 6.29)
+    + line(3.66, 1.6, 325.153, 9.22)
+    + (25.37 * eta1 * Math.exp(1.09 * (1 - rt))) / (fw - 380) ** 2
+    + (17.4 * eta1 * Math.exp(1.46 * (1 - rt))) / (fw - 448) ** 2
+    + (844.6 * eta1 * Math.exp(0.17 * (1 - rt))) / (fw - 557) ** 2 * g(557)
+    + (290 * eta1 * Math.exp(0.41 * (1 - rt))) / (fw - 752) ** 2 * g(752)
+    + (8.3328e4 * eta2 * Math.exp(0.99 * (1 - rt))) / (fw - 1780) ** 2 * g(1780)
+  ) * fw * fw * Math.pow(rt, 2.5) * rho * 1e-4;
+
+  return { oxygen: gammaO, water: gammaW };
+}
+
+/** Specific attenuation of dry air plus water vapour (dB/km) */
+export function gasSpecificAttenuation(freqGhz: number, atm: AtmosphereSettings): number {
+  const { oxygen, water } = gasComponents(freqGhz, atm);
+  return oxygen + water;
+}
+
+// ── ITU-R P.840: cloud and fog attenuation ─────────────────────────────────
+
+/** Cloud/fog specific attenuation coefficient Kl ((dB/km)/(g/m³)) — double-Debye model */
+export function cloudCoefficient(freqGhz: number, temperatureC = 0): number {
+  const theta = 300 / (273.15 + temperatureC);
+  const e0 = 77.66 + 103.3 * (theta - 1);
+  const e1 = 0.0671 * e0;
+  const e2 = 3.52;
+  const fp = 20.20 - 146 * (theta - 1) + 316 * (theta - 1) ** 2;
+  const fs = 39.8 * fp;
+  const f = freqGhz;
+  const epsII = (f * (e0 - e1)) / (fp * (1 + (f / fp) ** 2)) + (f * (e1 - e2)) / (fs * (1 + (f / fs) ** 2));
+  const epsI = (e0 - e1) / (1 + (f / fp) ** 2) + (e1 - e2) / (1 + (f / fs) ** 2) + e2;
+  const eta = (2 + epsI) / epsII;
+  return (0.819 * f) / (epsII * (1 + eta * eta));
+}
+
+/** Cloud/fog attenuation (dB) for a path through liquid water content M (g/m³) */
+export function cloudAttenuationDb(freqGhz: number, distKm: number, atm: AtmosphereSettings): number {
+  if (freqGhz < 1 || atm.cloudLiquidGm3 <= 0) return 0;
+  return cloudCoefficient(freqGhz, Math.min(atm.temperatureC, 0)) * atm.cloudLiquidGm3 * distKm;
+}
+
+/** Rain, gas and cloud loss (dB) along a terrestrial path */
+export function atmosphericLosses(
+  freqMhz: number,
+  distKm: number,
+  atm: AtmosphereSettings = DEFAULT_ATMOSPHERE,
+): { rainLossDb: number; gasLossDb: number; cloudLossDb: number } {
+  const fGhz = freqMhz / 1000;
+  return {
+    rainLossDb: rainAttenuationDb(fGhz, distKm, atm),
+    gasLossDb: gasSpecificAttenuation(fGhz, atm) * distKm,
+    cloudLossDb: cloudAttenuationDb(fGhz, distKm, atm),
+  };
+}
+
+// ── Earth–space paths ──────────────────────────────────────────────────────
+
+/** Rain height above MSL (km), P.839 0 °C isotherm + 0.36 km at Scandinavian latitudes */
+const RAIN_HEIGHT_KM = 2.4;
+/** P.676 equivalent heights of the oxygen and water vapour layers (km) */
+const OXYGEN_HEIGHT_KM = 6;
+const WATER_VAPOUR_HEIGHT_KM = 2;
+/** Cloud layer thickness turning liquid water content into a columnar amount (km) */
+const CLOUD_THICKNESS_KM = 1;
+/** Below this the flat-earth cosecant law breaks down; clamp the geometry */
+const MIN_SLANT_ELEVATION_DEG = 5;
+
+/** P.618 rain attenuation (dB) for the given rain rate on a slant path */
+function slantRainDb(freqGhz: number, rainRateMmH: number, elevationDeg: number, stationAltKm: number): number {
+  const gamma = rainSpecificAttenuation(freqGhz, rainRateMmH);
+  if (gamma <= 0 || stationAltKm >= RAIN_HEIGHT_KM) return 0;
+  const theta = (elevationDeg * Math.PI) / 180;
+  const slantKm = (RAIN_HEIGHT_KM - stationAltKm) / Math.sin(theta);
+  const groundKm = slantKm * Math.cos(theta);
+  const reduction = 1 / (1 + 0.78 * Math.sqrt((groundKm * gamma) / freqGhz) - 0.38 * (1 - Math.exp(-2 * groundKm)));
+  return gamma * slantKm * reduction;
+}
+
+/**
+ * Rain, gas and cloud loss (dB) from a ground station up through the
+ * atmosphere at the given elevation. Rain follows P.618 with the
+ * exceedance scaling for latitudes ≥ 36°.
+ */
+export function slantPathLosses(
+  freqMhz: number,
+  elevationDeg: number,
+  atm: AtmosphereSettings = DEFAULT_ATMOSPHERE,
+  stationAltKm = 0,
+): { rainLossDb: number; gasLossDb: number; cloudLossDb: number } {
+  const fGhz = freqMhz / 1000;
+  const el = Math.max(elevationDeg, MIN_SLANT_ELEVATION_DEG);
+  const cosec = 1 / Math.sin((el * Math.PI) / 180);
+
+  let rainLossDb: number;
+  if (atm.rainMode === 'RATE') {
+    rainLossDb = slantRainDb(fGhz, atm.rainRateMmH, el, stationAltKm);
+  } else {
+    const a001 = slantRainDb(fGhz, atm.regionRain001MmH, el, stationAltKm);
+    const p = Math.min(1, Math.max(0.001, atm.exceedancePct));
+    rainLossDb = a001 > 0
+      ? a001 * Math.pow(p / 0.01, -(0.655 + 0.033 * Math.log(p) - 0.045 * Math.log(a001)))
+      : 0;
+  }
+
+  const { oxygen, water } = gasComponents(fGhz, atm);
+  const cloudLossDb = fGhz < 1 || atm.cloudLiquidGm3 <= 0
+    ? 0
+    : cloudCoefficient(fGhz, 0) * atm.cloudLiquidGm3 * CLOUD_THICKNESS_KM * cosec;
+
+  return {
+    rainLossDb,
+    gasLossDb: (oxygen * OXYGEN_HEIGHT_KM + water * WATER_VAPOUR_HEIGHT_KM) * cosec,
+    cloudLossDb,
+  };
+}
@@ -0,0 +1,92 @@
+import type { LinkBudget, RadioLink, Satellite } from '../types';
+import type { PropagationOptions } from './linkBudget';
+import { calcBidirectionalBudget, pairBudgets, reverseLink } from './linkBudget';
+import type { LinkEnds } from './interference';
+import { applyInterference, canInterfere, findInterferers, flipEnds } from './interference';
+import type { HoppingResolver, LinkHopping } from './hopset';
+import { noHopping } from './hopset';
+
+/** One link with its resolved ends — plain data so it can be posted to a worker */
+export interface BudgetJobLink {
+  link: RadioLink;
+  ends?: LinkEnds;        // unset while a node is missing; the link keeps its last budget
+  satellite?: Satellite;
+  hopping?: LinkHopping;  // unset for a fixed-frequency link
+}
+
+/** Every link in the plan, and the ones whose own path or settings have changed */
+export interface BudgetJob {
+  links: BudgetJobLink[];
+  changedIds: string[];   // may name links that have since been deleted
+  opts: PropagationOptions;
+}
+
+/**
+ * Links whose interference a change to `changedIds` can alter: the changed
+ * links themselves, links that listed one of them as an interferer, and links
+ * one of them could now interfere with.
+ */
+export function affectedLinkIds(
+  links: RadioLink[],
+  changedIds: Set<string>,
+  hoppingOf: HoppingResolver = noHopping,
+): Set<string> {
+  const changed = links.filter(l => changedIds.has(l.id));
+  const affected = new Set(changed.map(l => l.id));
+  for (const victim of links) {
+    if (affected.has(victim.id)) continue;
+    const b = victim.linkBudget;
+    const listed = [...(b?.interference ?? []), ...(b?.reverse?.interference ?? [])].some(e => changedIds.has(e.linkId));
+    if (listed || changed.some(c => canInterfere(victim, c, hoppingOf))) affected.add(victim.id);
+  }
+  return affected;
+}
+
+/**
+ * Recompute the path budgets of the changed links and the interference of
+ * every link they touch; only paths from changed transmitters are re-run for
+ * the others. Returns the new budgets by link id; links left out are unaffected.
+ */
+export function computeBudgets(job: BudgetJob): Record<string, LinkBudget> {
+  const changedIds = new Set(job.changedIds);
+  const endsById = new Map(job.links.map(j => [j.link.id, j.ends]));
+  const hoppingById = new Map(job.links.map(j => [j.link.id, j.hopping]));
+  const hoppingOf: HoppingResolver = l => hoppingById.get(l.id);
+  // Reversed links keep their id, so their ends are recognised by the swapped nodes
+  const endsOf = (l: RadioLink) => {
+    const ends = endsById.get(l.id);
+    return ends && l.fromNodeId === ends.toNodeId && l.toNodeId === ends.fromNodeId ? flipEnds(ends) : ends;
+  };
+
+  const links = job.links.map(({ link, ends, satellite }) => {
+    if (!changedIds.has(link.id) || !ends) return link;
+    const linkBudget = calcBidirectionalBudget(ends.from, ends.to, link, ends.fromEquip, ends.toEquip, {
+      ...job.opts,
+      fromAntennaHeightM: ends.fromAntennaHeightM,
+      toAntennaHeightM: ends.toAntennaHeightM,
+      satellite,
+    });
+    return { ...link, linkBudget };
+  });
+
+  // A victim whose own path is unchanged keeps its entries from unchanged interferers
+  const changedLinks = links.filter(l => changedIds.has(l.id));
+  const interferersOf = (victim: RadioLink, budget: LinkBudget) => changedIds.has(victim.id)
+    ? findInterferers(victim, links, endsOf, job.opts, hoppingOf)
+    : [
+      ...(budget.interference ?? []).filter(e => !changedIds.has(e.linkId)),
+      ...findInterferers(victim, changedLinks, endsOf, job.opts, hoppingOf),
+    ].sort((x, y) => y.interferenceDbm - x.interferenceDbm);
+  const withInterference = (l: RadioLink, budget: LinkBudget) => applyInterference(l, budget, interferersOf(l, budget));
+  const affected = affectedLinkIds(links, changedIds, hoppingOf);
+  const budgets: Record<string, LinkBudget> = {};
+  for (const l of links) {
+    const b = l.linkBudget;
+    if (!b || !affected.has(l.id)) continue;
+    const forward = withInterference(l, b);
+    budgets[l.id] = b.reverse
+      ? pairBudgets(forward, withInterference(reverseLink(l, endsOf(l)?.toEquip), b.reverse))
+      : forward;
+  }
+  return budgets;
+}
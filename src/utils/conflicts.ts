@@ -0,0 +1,105 @@
+import type { InterferenceEntry, LatLng, LinkBudget, LinkDirection, RadioLink } from '../types';
+import { haversineKm } from './geo';
+
+export type ConflictSeverity = 'CRITICAL' | 'MAJOR' | 'MINOR';
+
+/** C/I this far above the victim's required SNR still counts as a major conflict (dB) */
+const MAJOR_CI_MARGIN_DB = 10;
+
+/**
+ * A transmitter that reaches another link's receiver while both are on the
+ * air. Built from the C/I engine's entries, which already account for the
+ * time overlap, the path between the two and the receiver's selectivity.
+ */
+export interface FrequencyConflict {
+  id: string;
+  severity: ConflictSeverity;
+  victimLinkId: string;
+  direction: LinkDirection;   // which of the victim's receivers is hit
+  sourceLinkId: string;
+  victimFrequencyMhz: number;
+  sourceFrequencyMhz: number;
+  offsetKhz: number;
+  ciDb: number;
+  ciMarginDb: number;         // C/I above the victim's required SNR
+  overlapPct?: number;        // hopping: share of the victim's hops that collide
+  distanceKm?: number;        // interfering transmitter to victim receiver
+  overlapStart: string;       // ISO, both links on the air from …
+  overlapEnd: string;         // … until
+}
+
+export const SEVERITY_ORDER: ConflictSeverity[] = ['CRITICAL', 'MAJOR', 'MINOR'];
+
+export const SEVERITY_LABEL: Record<ConflictSeverity, string> = {
+  CRITICAL: 'Kritisk',
+  MAJOR: 'Allvarlig',
+  MINOR: 'Lindrig',
+};
+
+export const SEVERITY_COLOR: Record<ConflictSeverity, string> = {
+  CRITICAL: '#ef4444',
+  MAJOR: '#f97316',
+  MINOR: '#eab308',
+};
+
+/** Critical when the interferer alone drops the victim below its required SNR */
+export function conflictSeverity(ciMarginDb: number): ConflictSeverity {
+  if (ciMarginDb < 0) return 'CRITICAL';
+  if (ciMarginDb < MAJOR_CI_MARGIN_DB) return 'MAJOR';
+  return 'MINOR';
+}
+
+/** Every interfering transmitter in the plan, worst first */
+export function detectConflicts(
+  links: RadioLink[],
+  positionOf: (nodeId: string) => LatLng | undefined,
+): FrequencyConflict[] {
+  const byId = new Map(links.map(l => [l.id, l]));
+  const conflicts: FrequencyConflict[] = [];
+
+  const toConflict = (
+    victim: RadioLink, budget: LinkBudget, direction: LinkDirection, rxNodeId: string,
+    source: RadioLink, entry: InterferenceEntry,
+  ): FrequencyConflict => {
+    const rx = positionOf(rxNodeId);
+    const tx = positionOf(entry.sourceDirection === 'REVERSE' ? source.toNodeId : source.fromNodeId);
+    const ciMarginDb = entry.ciDb - budget.requiredSnrDb;
+    return {
+      id: `${victim.id}:${direction}:${source.id}`,
+      severity: conflictSeverity(ciMarginDb),
+      victimLinkId: victim.id,
+      direction,
+      sourceLinkId: source.id,
+      victimFrequencyMhz: victim.frequencyMhz,
+      sourceFrequencyMhz: source.frequencyMhz,
+      offsetKhz: entry.offsetKhz,
+      ciDb: entry.ciDb,
+      ciMarginDb,
+      overlapPct: entry.overlapPct,
+      distanceKm: rx && tx ? haversineKm(tx, rx) : undefined,
+      overlapStart: Date.parse(victim.startTime) > Date.parse(source.startTime) ? victim.startTime : source.startTime,
+      overlapEnd: Date.parse(victim.endTime) < Date.parse(source.endTime) ? victim.endTime : source.endTime,
+    };
+  };
+
+  const collect = (victim: RadioLink, budget: LinkBudget, direction: LinkDirection, rxNodeId: string) => {
+    for (const entry of budget.interference ?? []) {
+      const source = byId.get(entry.linkId);
+      if (source) conflicts.push(toConflict(victim, budget, direction, rxNodeId, source, entry));
+    }
+  };
+
+  for (const victim of links) {
+    const b = victim.linkBudget;
+    if (!b) continue;
+    collect(victim, b, 'FORWARD', victim.toNodeId);
+    if (b.reverse) collect(victim, b.reverse, 'REVERSE', victim.fromNodeId);
+  }
+  return conflicts.sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || a.ciMarginDb - b.ciMarginDb);
+}
+
+/** Worst severity among the conflicts that involve a link, as victim or source */
+export function worstSeverityFor(linkId: string, conflicts: FrequencyConflict[]): ConflictSeverity | undefined {
+  return conflicts.find(c => c.victimLinkId === linkId || c.sourceLinkId === linkId)?.severity;
+}
@@ -0,0 +1,193 @@
+import type { LatLng, RadioEquipment, RadioLink } from '../types';
+import { haversineKm } from './geo';
+import { freespacePathLossDb, reverseLink, wattToDbm } from './linkBudget';
+import { timesOverlap } from './interference';
+
+/** Antenna-to-antenna isolation between radios on the same vehicle (dB) */
+export const COSITE_ISOLATION_DB = 30;
+
+/** Receivers within this distance of a transmitting site are checked */
+export const COSITE_VICINITY_KM = 1;
+
+/** Power at the receiver input that starts to block / desensitise the front end */
+export const BLOCKING_LEVEL_DBM = -30;
+
+/** A transmitter this close in frequency (fraction of the receive frequency) passes the preselector */
+const PRESELECTOR_FRACTION = 0.1;
+
+/** Loss from the weaker tone to the IM product in the transmitter output stage, per order */
+const IM_CONVERSION_LOSS_DB: Record<ImOrder, number> = { 2: 20, 3: 10, 5: 30 };
+
+/** Products more than this far below the victim's sensitivity are not reported */
+const REPORT_BELOW_SENSITIVITY_DB = 10;
+
+export type ImOrder = 2 | 3 | 5;
+
+/** One transmit frequency at a site, possibly shared by several links of a net */
+interface Tone {
+  frequencyMhz: number;
+  bandwidthKhz: number;
+  powerDbm: number;
+  links: RadioLink[];
+}
+
+export interface CositeHit {
+  kind: 'IM' | 'DESENS';
+  siteNodeId: string;        // node whose transmitters cause the hit
+  order?: ImOrder;
+  productMhz: number;        // IM product, or the blocking carrier for DESENS
+  formula: string;           // e.g. "2×45.5 − 8.5"
+  sourceLinkIds: string[];
+  victimLinkId: string;
+  victimNodeId: string;      // end of the victim link whose receiver is hit
+  levelDbm: number;          // estimated power at the victim receiver input
+  marginDb: number;          // level above sensitivity (IM) or blocking level (DESENS)
+}
+
+/** Inputs the analysis needs beyond the links themselves */
+export interface CositeContext {
+  positionOf: (nodeId: string) => LatLng | undefined;
+  rxSensitivityDbm: (link: RadioLink) => number;
+  equipmentOf?: (nodeId: string, equipmentId?: string) => RadioEquipment | undefined;
+}
+
+/** Two-tone coefficient pairs (m, k) giving m·f1 + k·f2 with |m| + |k| = order */
+const IM_TERMS: { order: ImOrder; m: number; k: number }[] = [
+  { order: 2, m: 1, k: 1 }, { order: 2, m: 1, k: -1 },
+  { order: 3, m: 2, k: 1 }, { order: 3, m: 2, k: -1 },
+  { order: 3, m: 1, k: 2 }, { order: 3, m: -1, k: 2 },
+  { order: 5, m: 3, k: 2 }, { order: 5, m: 3, k: -2 },
+  { order: 5, m: 2, k: 3 }, { order: 5, m: -2, k: 3 },
+];
+
+function fmtTerm(coeff: number, f: number, first: boolean): string {
+  const abs = Math.abs(coeff);
+  const term = `${abs === 1 ? '' : `${abs}×`}${f}`;
+  if (first) return coeff < 0 ? `−${term}` : term;
+  return coeff < 0 ? ` − ${term}` : ` + ${term}`;
+}
+
+/** Transmitters keyed by the node they radiate from, merged per frequency */
+function tonesBySite(links: RadioLink[]): Map<string, Tone[]> {
+  const sites = new Map<string, Tone[]>();
+  for (const link of links) {
+    const tones = sites.get(link.fromNodeId) ?? [];
+    const tone = tones.find(t => t.frequencyMhz === link.frequencyMhz);
+    if (tone) {
+      tone.links.push(link);
+      tone.powerDbm = Math.max(tone.powerDbm, wattToDbm(link.txPowerW));
+      tone.bandwidthKhz = Math.max(tone.bandwidthKhz, link.bandwidthKhz);
+    } else {
+      tones.push({
+        frequencyMhz: link.frequencyMhz,
+        bandwidthKhz: link.bandwidthKhz,
+        powerDbm: wattToDbm(link.txPowerW),
+        links: [link],
+      });
+    }
+    sites.set(link.fromNodeId, tones);
+  }
+  return sites;
+}
+
+/** Whether the links' windows share a moment when all of them are on the air */
+function allOnAir(...links: RadioLink[]): boolean {
+  const start = Math.max(...links.map(l => Date.parse(l.startTime)));
+  const end = Math.min(...links.map(l => Date.parse(l.endTime)));
+  return start < end;
+}
+
+/** Coupling loss (dB) from a site's antennas to a receiver at the given distance */
+function couplingLossDb(distKm: number, freqMhz: number): number {
+  return Math.max(COSITE_ISOLATION_DB, freespacePathLossDb(distKm, freqMhz));
+}
+
+/**
+ * Co-site analysis: for every node with two or more transmitters on the air at
+ * the same time, compute the 2nd/3rd/5th-order two-tone IM products and check
+ * them against receivers within COSITE_VICINITY_KM. Transmitters on the same
+ * node as a receiver are also checked for front-end blocking. Links are half
+ * duplex, so both ends count as transmitters and as receivers.
+ */
+export function analyzeCosite(links: RadioLink[], ctx: CositeContext): CositeHit[] {
+  const hits: CositeHit[] = [];
+  // Each link in both directions; the reverse keeps the link's id
+  const directed = links.flatMap(l => [l, reverseLink(l, ctx.equipmentOf?.(l.toNodeId, l.equipmentToId))]);
+  const sameLink = (tone: Tone, link: RadioLink) => tone.links.some(l => l.id === link.id);
+
+  for (const [siteNodeId, tones] of tonesBySite(directed)) {
+    const site = ctx.positionOf(siteNodeId);
+    if (!site) continue;
+
+    const victims = directed
+      .map(link => ({ link, pos: ctx.positionOf(link.toNodeId) }))
+      .filter((v): v is { link: RadioLink; pos: LatLng } => !!v.pos && haversineKm(site, v.pos) <= COSITE_VICINITY_KM)
+      .map(v => ({ ...v, distKm: haversineKm(site, v.pos) }));
+    if (victims.length === 0) continue;
+
+    // Intermodulation between pairs of tones that are up together
+    for (let i = 0; i < tones.length; i++) {
+      for (let j = i + 1; j < tones.length; j++) {
+        const a = tones[i], b = tones[j];
+        for (const { order, m, k } of IM_TERMS) {
+          const productMhz = Math.round((m * a.frequencyMhz + k * b.frequencyMhz) * 1e6) / 1e6;
+          if (productMhz <= 0) continue;
+          const productBwKhz = Math.abs(m) * a.bandwidthKhz + Math.abs(k) * b.bandwidthKhz;
+          const generatedDbm =
+            Math.min(a.powerDbm, b.powerDbm) - COSITE_ISOLATION_DB - IM_CONVERSION_LOSS_DB[order];
+
+          for (const { link: victim, distKm } of victims) {
+            if (sameLink(a, victim) || sameLink(b, victim)) continue;
+            // Both tones and the victim must be on the air at one common moment
+            const together = a.links.flatMap(x => b.links.filter(y => allOnAir(x, y, victim)).map(y => [x, y]));
+            if (together.length === 0) continue;
+            const sources = [...new Set(together.flat())];
+            if (Math.abs(productMhz - victim.frequencyMhz) * 1000 > (productBwKhz + victim.bandwidthKhz) / 2) continue;
+
+            const levelDbm = generatedDbm - couplingLossDb(distKm, productMhz);
+            const marginDb = levelDbm - ctx.rxSensitivityDbm(victim);
+            if (marginDb < -REPORT_BELOW_SENSITIVITY_DB) continue;
+            hits.push({
+              kind: 'IM',
+              siteNodeId,
+              order,
+              productMhz,
+              formula: fmtTerm(m, a.frequencyMhz, true) + fmtTerm(k, b.frequencyMhz, false),
+              sourceLinkIds: sources.map(l => l.id),
+              victimLinkId: victim.id,
+              victimNodeId: victim.toNodeId,
+              levelDbm,
+              marginDb,
+            });
+          }
+        }
+      }
+    }
+
+    // Desensitisation of receivers on the transmitting node itself
+    for (const { link: victim } of victims) {
+      if (victim.toNodeId !== siteNodeId) continue;
+      for (const tone of tones) {
+        const sources = tone.links.filter(l => l.netName !== victim.netName && timesOverlap(l, victim));
+        if (sources.length === 0) continue;
+        if (Math.abs(tone.frequencyMhz - victim.frequencyMhz) > victim.frequencyMhz * PRESELECTOR_FRACTION) continue;
+        const levelDbm = tone.powerDbm - COSITE_ISOLATION_DB;
+        const marginDb = levelDbm - BLOCKING_LEVEL_DBM;
+        if (marginDb < 0) continue;
+        hits.push({
+          kind: 'DESENS',
+          siteNodeId,
+          productMhz: tone.frequencyMhz,
+          formula: `${tone.frequencyMhz}`,
+          sourceLinkIds: sources.map(l => l.id),
+          victimLinkId: victim.id,
+          victimNodeId: victim.toNodeId,
+          levelDbm,
+          marginDb,
+        });
+      }
+    }
+  }
+
+  return hits.sort((a, b) => b.marginDb - a.marginDb);
+}
@@ -0,0 +1,76 @@
+import type { LatLng, RadioEquipment, RadioLink } from '../types';
+import type { PropagationOptions } from './linkBudget';
+import { calcLinkBudget, linkQuality } from './linkBudget';
+
+/** Everything a coverage run needs — plain data so it can be posted to a worker */
+export interface CoverageJob {
+  center: LatLng;
+  radiusKm: number;
+  size: number; // cells per side
+  link: RadioLink; // template link: frequency, power, waveform, time
+  txEquip?: RadioEquipment;
+  rxEquip?: RadioEquipment;
+  opts: PropagationOptions;
+}
+
+export interface CoverageResult {
+  west: number;
+  east: number;
+  north: number;
+  south: number;
+  width: number;
+  height: number;
+  receivedDbm: Float32Array; // row-major, row 0 at the north edge
+  rxSensitivityDbm: number;
+}
+
+/** Grid resolution used for coverage runs */
+export const COVERAGE_GRID_SIZE = 80;
+
+/** Predicted received power over a square grid around `center`, using calcLinkBudget per cell */
+export function computeCoverageGrid(job: CoverageJob): CoverageResult {
+  const { center, radiusKm, size } = job;
+  const dLat = radiusKm / 111.32;
+  const dLng = radiusKm / (111.32 * Math.cos((center.lat * Math.PI) / 180));
+  const bounds = {
+    west: center.lng - dLng,
+    east: center.lng + dLng,
+    north: center.lat + dLat,
+    south: center.lat - dLat,
+  };
+
+  const receivedDbm = new Float32Array(size * size);
+  let rxSensitivityDbm = -110;
+  for (let row = 0; row < size; row++) {
+    const lat = bounds.north - ((row + 0.5) / size) * (bounds.north - bounds.south);
+    for (let col = 0; col < size; col++) {
+      const lng = bounds.west + ((col + 0.5) / size) * (bounds.east - bounds.west);
+      const b = calcLinkBudget(center, { lat, lng }, job.link, job.txEquip, job.rxEquip, job.opts);
+      receivedDbm[row * size + col] = b.receivedPowerDbm;
+      rxSensitivityDbm = b.rxSensitivityDbm;
+    }
+  }
+  return { ...bounds, width: size, height: size, receivedDbm, rxSensitivityDbm };
+}
+
+function hexToRgb(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+/** Render a coverage result as a PNG data URL — cells below sensitivity stay transparent */
+export function coverageToDataUrl(result: CoverageResult): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = result.width;
+  canvas.height = result.height;
+  const ctx = canvas.getContext('2d')!;
+  const img = ctx.createImageData(result.width, result.height);
+  for (let i = 0; i < result.receivedDbm.length; i++) {
+    const margin = result.receivedDbm[i] - result.rxSensitivityDbm;
+    if (margin <= 0) continue;
+    const [r, g, b] = hexToRgb(linkQuality(margin).color);
+    img.data.set([r, g, b, 150], i * 4);
+  }
+  ctx.putImageData(img, 0, 0);
+  return canvas.toDataURL();
+}
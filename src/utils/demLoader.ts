@@ -0,0 +1,173 @@
+import type { DemGrid } from './terrain';
+
+// Local DEM file decoding. Everything here works on files the user picks from
+// disk — no tile servers are contacted.
+
+// ── Terrarium PNG tiles ────────────────────────────────────────────────────
+
+/** Bounds of slippy-map tile z/x/y in degrees */
+function tileBounds(z: number, x: number, y: number) {
+  const n = 2 ** z;
+  const lng = (tx: number) => (tx / n) * 360 - 180;
+  const lat = (ty: number) => (Math.atan(Math.sinh(Math.PI * (1 - (2 * ty) / n))) * 180) / Math.PI;
+  return { west: lng(x), east: lng(x + 1), north: lat(y), south: lat(y + 1) };
+}
+
+/** Parse z/x/y from paths like `12/2245/1190.png`, `12_2245_1190.png` or `12-2245-1190.png` */
+export function parseTileName(path: string): { z: number; x: number; y: number } | null {
+  const m = path.match(/(\d+)[/_-](\d+)[/_-](\d+)\.png$/i);
+  if (!m) return null;
+  return { z: Number(m[1]), x: Number(m[2]), y: Number(m[3]) };
+}
+
+/** Decode terrarium-encoded RGBA pixels: h = R·256 + G + B/256 − 32768 */
+export function decodeTerrarium(rgba: Uint8ClampedArray, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height);
+  for (let i = 0; i < out.length; i++) {
+    const r = rgba[i * 4], g = rgba[i * 4 + 1], b = rgba[i * 4 + 2], a = rgba[i * 4 + 3];
+    out[i] = a === 0 ? NaN : r * 256 + g + b / 256 - 32768;
+  }
+  return out;
+}
+
+async function loadTerrariumTile(file: File): Promise<DemGrid> {
+  const tile = parseTileName(file.webkitRelativePath || file.name);
+  if (!tile) throw new Error(`Okänt tilenamn (förväntar z/x/y.png eller z_x_y.png): ${file.name}`);
+
+  const bitmap = await createImageBitmap(file);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas saknas');
+  ctx.drawImage(bitmap, 0, 0);
+  const { data } = ctx.getImageData(0, 0, bitmap.width, bitmap.height);
+
+  return {
+    ...tileBounds(tile.z, tile.x, tile.y),
+    width: bitmap.width,
+    height: bitmap.height,
+    projection: 'mercator',
+    data: decodeTerrarium(data, bitmap.width, bitmap.height),
+  };
+}
+
+// ── GeoTIFF (uncompressed, EPSG:4326) ──────────────────────────────────────
+
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  rowsPerStrip: 278,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  sampleFormat: 339,
+  pixelScale: 33550,
+  tiepoint: 33922,
+  gdalNoData: 42113,
+} as const;
+
+const TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 11: 4, 12: 8, 16: 8 };
+
+/** Minimal GeoTIFF reader: single band, uncompressed strips or tiles, geographic coordinates */
+export function parseGeoTiff(buf: ArrayBuffer): DemGrid {
+  const view = new DataView(buf);
+  const le = view.getUint16(0) === 0x4949;
+  const u16 = (o: number) => view.getUint16(o, le);
+  const u32 = (o: number) => view.getUint32(o, le);
+  if (u16(2) !== 42) throw new Error('Inte en klassisk TIFF-fil');
+
+  const ifd = u32(4);
+  const tags = new Map<number, number[]>();
+  const ascii = new Map<number, string>();
+  for (let i = 0; i < u16(ifd); i++) {
+    const e = ifd + 2 + i * 12;
+    const tag = u16(e), type = u16(e + 2), count = u32(e + 4);
+    const size = (TYPE_SIZE[type] ?? 1) * count;
+    const base = size <= 4 ? e + 8 : u32(e + 8);
+    if (type === 2) {
+      ascii.set(tag, new TextDecoder().decode(new Uint8Array(buf, base, count)).replace(/\0+$/, ''));
+      continue;
+    }
+    const values: number[] = [];
+    for (let j = 0; j < count; j++) {
+      if (type === 3) values.push(u16(base + j * 2));
+      else if (type === 4) values.push(u32(base + j * 4));
+      else if (type === 12) values.push(view.getFloat64(base + j * 8, le));
+      else if (type === 1) values.push(view.getUint8(base + j));
+    }
+    tags.set(tag, values);
+  }
+
+  const get = (t: number) => tags.get(t)?.[0];
+  const width = get(TAG.width)!;
+  const height = get(TAG.height)!;
+  if ((get(TAG.compression) ?? 1) !== 1) throw new Error('Endast okomprimerade GeoTIFF stöds');
+  const scale = tags.get(TAG.pixelScale);
+  const tie = tags.get(TAG.tiepoint);
+  if (!scale || !tie) throw new Error('GeoTIFF saknar georeferens');
+
+  const bits = get(TAG.bitsPerSample) ?? 16;
+  const format = get(TAG.sampleFormat) ?? 1; // 1=uint 2=int 3=float
+  const bytes = bits / 8;
+  const read = (o: number): number => {
+    if (format === 3) return bits === 64 ? view.getFloat64(o, le) : view.getFloat32(o, le);
+    if (bits === 8) return format === 2 ? view.getInt8(o) : view.getUint8(o);
+    if (bits === 16) return format === 2 ? view.getInt16(o, le) : u16(o);
+    return format === 2 ? view.getInt32(o, le) : u32(o);
+  };
+  const noData = ascii.has(TAG.gdalNoData) ? Number(ascii.get(TAG.gdalNoData)) : undefined;
+
+  const data = new Float32Array(width * height);
+  const put = (x: number, y: number, o: number) => {
+    const v = read(o);
+    data[y * width + x] = v === noData ? NaN : v;
+  };
+
+  const tileOffsets = tags.get(TAG.tileOffsets);
+  if (tileOffsets) {
+    const tw = get(TAG.tileWidth)!, th = get(TAG.tileLength)!;
+    const across = Math.ceil(width / tw);
+    tileOffsets.forEach((off, t) => {
+      const tx0 = (t % across) * tw, ty0 = Math.floor(t / across) * th;
+      for (let y = 0; y < th && ty0 + y < height; y++)
+        for (let x = 0; x < tw && tx0 + x < width; x++)
+          put(tx0 + x, ty0 + y, off + (y * tw + x) * bytes);
+    });
+  } else {
+    const rowsPerStrip = get(TAG.rowsPerStrip) ?? height;
+    (tags.get(TAG.stripOffsets) ?? []).forEach((off, s) => {
+      for (let r = 0; r < rowsPerStrip && s * rowsPerStrip + r < height; r++)
+        for (let x = 0; x < width; x++)
+          put(x, s * rowsPerStrip + r, off + (r * width + x) * bytes);
+    });
+  }
+
+  // Tiepoint maps raster (i,j) → model (x,y); pixel scale is degrees per pixel
+  const west = tie[3] - tie[0] * scale[0];
+  const north = tie[4] + tie[1] * scale[1];
+  return {
+    west,
+    north,
+    east: west + width * scale[0],
+    south: north - height * scale[1],
+    width,
+    height,
+    projection: 'latlng',
+    data,
+  };
+}
+
+// ── Entry point ────────────────────────────────────────────────────────────
+
+/** Decode a batch of local DEM files (terrarium .png tiles and/or .tif) into grids */
+export async function loadDemFiles(files: File[]): Promise<DemGrid[]> {
+  const grids: DemGrid[] = [];
+  for (const file of files) {
+    if (/\.png$/i.test(file.name)) grids.push(await loadTerrariumTile(file));
+    else if (/\.tiff?$/i.test(file.name)) grids.push(parseGeoTiff(await file.arrayBuffer()));
+  }
+  if (grids.length === 0) throw new Error('Inga DEM-filer hittades (.png terrarium eller .tif)');
+  return grids;
+}
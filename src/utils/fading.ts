@@ -0,0 +1,106 @@
+import type { LinkBudget, MultipathKind, NetType } from '../types';
+
+/** Required time-location availability per net type (%) */
+export const DEFAULT_REQUIRED_AVAILABILITY: Record<NetType, number> = {
+  COMMAND: 99,
+  FIRE_SUPPORT: 99,
+  AIR: 99,
+  DATA: 95,
+  ADMIN_LOG: 90,
+  COORD: 90,
+};
+
+/** Diffraction loss above which a terrestrial path counts as obstructed (no dominant ray) */
+const OBSTRUCTED_LOSS_DB = 6;
+
+/** Statistical fading on a path: log-normal shadowing on top of small-scale multipath */
+export interface FadingModel {
+  multipath: MultipathKind;
+  ricianKDb?: number;     // direct-to-scattered power ratio for Rician paths
+  shadowSigmaDb: number;  // location variability
+}
+
+/** Pick the fading model from how the signal gets there */
+export function fadingModelFor(path: Pick<LinkBudget, 'propagationMode' | 'terrainLossDb'>): FadingModel {
+  if (path.propagationMode === 'SATELLITE') return { multipath: 'RICIAN', ricianKDb: 10, shadowSigmaDb: 2 };
+  if (path.propagationMode !== 'TERRESTRIAL') return { multipath: 'RAYLEIGH', shadowSigmaDb: 6 };
+  if (path.terrainLossDb >= OBSTRUCTED_LOSS_DB) return { multipath: 'RAYLEIGH', shadowSigmaDb: 8 };
+  return { multipath: 'RICIAN', ricianKDb: 6, shadowSigmaDb: 5 };
+}
+
+/** Standard normal CDF — Abramowitz & Stegun 26.2.17 */
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const poly = t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  const tail = (Math.exp(-x * x / 2) / Math.sqrt(2 * Math.PI)) * poly;
+  return x >= 0 ? 1 - tail : tail;
+}
+
+/** Exponentially scaled modified Bessel function e^(−x)·I₀(x) — A&S 9.8.1/9.8.2 */
+function besselI0e(x: number): number {
+  const ax = Math.abs(x);
+  if (ax < 3.75) {
+    const y = (x / 3.75) ** 2;
+    const i0 = 1 + y * (3.5156229 + y * (3.0899424 + y * (1.2067492 + y * (0.2659732 + y * (0.0360768 + y * 0.0045813)))));
+    return i0 * Math.exp(-ax);
+  }
+  const y = 3.75 / ax;
+  return (0.39894228 + y * (0.01328592 + y * (0.00225319 + y * (-0.00157565 + y * (0.00916281
+    + y * (-0.02057706 + y * (0.02635537 + y * (-0.01647633 + y * 0.00392377)))))))) / Math.sqrt(ax);
+}
+
+/**
+ * Probability that multipath fades the signal deeper than `fadeDb` below its
+ * mean power. Rayleigh has a closed form; Rician integrates the power pdf.
+ */
+export function multipathOutage(fadeDb: number, multipath: MultipathKind, ricianKDb = 6): number {
+  const threshold = Math.pow(10, -fadeDb / 10); // normalised power, mean = 1
+  if (multipath === 'RAYLEIGH') return 1 - Math.exp(-threshold);
+
+  const k = Math.pow(10, ricianKDb / 10);
+  const upper = Math.min(threshold, 20);
+  const pdf = (x: number) => {
+    const z = 2 * Math.sqrt(k * (k + 1) * x);
+    return (k + 1) * Math.exp(-k - (k + 1) * x + z) * besselI0e(z);
+  };
+  // Simpson's rule over [0, threshold]
+  const n = 64;
+  const h = upper / n;
+  let sum = pdf(0) + pdf(upper);
+  for (let i = 1; i < n; i++) sum += (i % 2 ? 4 : 2) * pdf(i * h);
+  return Math.min(1, (h / 3) * sum);
+}
+
+/** Availability figures for a link with the given fade margin */
+export interface Availability {
+  locationReliabilityPct: number;  // share of locations where the median signal clears the threshold
+  timeAvailabilityPct: number;     // share of time at a median location
+  availabilityPct: number;         // combined time-location reliability
+}
+
+/**
+ * Time-location availability: the shadowing offset s ~ N(0, σ²) shifts the
+ * margin, and multipath outage is averaged over it numerically.
+ */
+export function linkAvailability(fadeMarginDb: number, model: FadingModel): Availability {
+  const sigma = model.shadowSigmaDb;
+  const outageAt = (marginDb: number) => multipathOutage(marginDb, model.multipath, model.ricianKDb);
+
+  let outage = 0;
+  const steps = 40;
+  const span = 4 * sigma;
+  const ds = (2 * span) / steps;
+  for (let i = 0; i <= steps; i++) {
+    const s = -span + i * ds;
+    const weight = (Math.exp(-(s * s) / (2 * sigma * sigma)) / (sigma * Math.sqrt(2 * Math.PI))) * ds;
+    outage += weight * outageAt(fadeMarginDb + s);
+  }
+  // Mass beyond ±4σ is negligible; fold the lower tail in as full outage
+  outage += normalCdf(-4);
+
+  return {
+    locationReliabilityPct: 100 * normalCdf(fadeMarginDb / sigma),
+    timeAvailabilityPct: 100 * (1 - outageAt(fadeMarginDb)),
+    availabilityPct: 100 * Math.max(0, Math.min(1, 1 - outage)),
+  };
+}
@@ -0,0 +1,301 @@
+import type {
+  FrequencyNet, FrequencyPlan, FrequencyPoolBand, LatLng, RadioEquipment, RadioLink, RadioNode, WaveformType,
+} from '../types';
+import { haversineKm } from './geo';
+import { isPermitted } from './frequencyPlan';
+
+export type AssignmentSlot = 'PRIMARY' | 'ALT';
+
+/** Radios of which at least one has to cover the assigned frequency */
+interface RadioSet {
+  label: string;
+  radios: RadioEquipment[];
+}
+
+/** A net, or the links of a net name without a FrequencyNet, that gets its own channel */
+export interface AssignmentTarget {
+  id: string;
+  kind: 'NET' | 'LINKS';
+  name: string;
+  netId?: string;
+  linkIds: string[];
+  waveform: WaveformType;
+  bandwidthKhz: number;
+  windows: { start: number; end: number }[];   // empty when on the air throughout
+  positions: LatLng[];
+  radioSets: RadioSet[];
+  current: Partial<Record<AssignmentSlot, number>>;  // MHz
+  slots: AssignmentSlot[];
+}
+
+export interface FrequencyAssignment {
+  target: AssignmentTarget;
+  mhz: Partial<Record<AssignmentSlot, number>>;
+}
+
+/** A channel the solver could not give out, and why */
+export interface UnmetConstraint {
+  target: AssignmentTarget;
+  slot: AssignmentSlot;
+  reason: string;
+  blockedBy: AssignmentTarget[];
+}
+
+export interface AssignmentResult {
+  assignments: FrequencyAssignment[];
+  unmet: UnmetConstraint[];
+}
+
+export interface AssignmentOptions {
+  assignAlternates?: boolean;  // nets also get an alternate frequency
+  keepExisting?: boolean;      // a current frequency that still fits is kept
+  plan?: FrequencyPlan | null; // only channels the national plan permits at the target's sites
+}
+
+export const SLOT_LABEL: Record<AssignmentSlot, string> = { PRIMARY: 'primär', ALT: 'alternativ' };
+
+/** Occupied bandwidth for a net without links to take it from (kHz) */
+export function defaultBandwidthKhz(waveform: WaveformType): number {
+  return waveform === 'USB' || waveform === 'LSB' ? 3 : 25;
+}
+
+const supportsWaveform = (waveform: WaveformType) => (e: RadioEquipment) => !e.waveforms || e.waveforms.includes(waveform);
+
+/** What each net and each stand-alone link group needs from a channel */
+export function assignmentTargets(
+  nets: FrequencyNet[],
+  links: RadioLink[],
+  nodes: RadioNode[],
+  assignAlternates = true,
+): AssignmentTarget[] {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  // Satellite channels are the transponder operator's to give out
+  const terrestrial = links.filter(l => !l.satelliteId);
+  const netNames = new Set(nets.map(n => n.name));
+
+  const linkRadioSets = (l: RadioLink): RadioSet[] => ([
+    [l.fromNodeId, l.equipmentFromId],
+    [l.toNodeId, l.equipmentToId],
+  ] as const).flatMap(([nodeId, equipId]) => {
+    const node = nodeById.get(nodeId);
+    if (!node || node.equipment.length === 0) return [];
+    const fitted = node.equipment.find(e => e.id === equipId);
+    return [{ label: node.label, radios: fitted ? [fitted] : node.equipment.filter(supportsWaveform(l.waveform)) }];
+  });
+  const windowOf = (l: RadioLink) => ({ start: Date.parse(l.startTime), end: Date.parse(l.endTime) });
+  const positionsOf = (nodeIds: string[], ls: RadioLink[]) => [...new Set([...nodeIds, ...ls.flatMap(l => [l.fromNodeId, l.toNodeId])])]
+    .flatMap(id => nodeById.get(id)?.position ?? []);
+
+  const netTargets = nets.map((net): AssignmentTarget => {
+    const netLinks = terrestrial.filter(l => l.netName === net.name);
+    const members = net.memberNodeIds.flatMap(id => nodeById.get(id) ?? []).filter(n => n.equipment.length > 0);
+    return {
+      id: net.id,
+      kind: 'NET',
+      name: net.name,
+      netId: net.id,
+      linkIds: netLinks.map(l => l.id),
+      waveform: net.waveform,
+      bandwidthKhz: netLinks.length > 0 ? Math.max(...netLinks.map(l => l.bandwidthKhz)) : defaultBandwidthKhz(net.waveform),
+      windows: netLinks.map(windowOf),
+      positions: positionsOf(net.memberNodeIds, netLinks),
+      radioSets: [
+        ...members.map(n => ({ label: n.label, radios: n.equipment.filter(supportsWaveform(net.waveform)) })),
+        ...netLinks.flatMap(linkRadioSets),
+      ],
+      current: { PRIMARY: net.primaryFreqMhz, ALT: net.altFreqMhz },
+      slots: assignAlternates ? ['PRIMARY', 'ALT'] : ['PRIMARY'],
+    };
+  });
+
+  const groups = new Map<string, RadioLink[]>();
+  for (const l of terrestrial) {
+    if (!netNames.has(l.netName)) groups.set(l.netName, [...(groups.get(l.netName) ?? []), l]);
+  }
+  const linkTargets = [...groups].map(([netName, ls]): AssignmentTarget => ({
+    id: `links:${netName}`,
+    kind: 'LINKS',
+    name: netName,
+    linkIds: ls.map(l => l.id),
+    waveform: ls[0].waveform,
+    bandwidthKhz: Math.max(...ls.map(l => l.bandwidthKhz)),
+    windows: ls.map(windowOf),
+    positions: positionsOf([], ls),
+    radioSets: ls.flatMap(linkRadioSets),
+    current: { PRIMARY: ls[0].frequencyMhz },
+    slots: ['PRIMARY'],
+  }));
+
+  return [...netTargets, ...linkTargets];
+}
+
+// The solver works in whole hertz so channel rasters compare exactly
+const toHz = (mhz: number) => Math.round(mhz * 1e6);
+
+/** Channels in the pool that the target's radios can all tune and the plan permits, sorted by frequency (Hz) */
+function candidateChannels(target: AssignmentTarget, pool: FrequencyPoolBand[], plan?: FrequencyPlan | null): number[] {
+  const halfBwHz = (target.bandwidthKhz * 1000) / 2;
+  const tunable = (hz: number) => target.radioSets.every(set =>
+    set.radios.some(e => toHz(e.freqMin) <= hz && hz <= toHz(e.freqMax)));
+  const channels: number[] = [];
+  for (const band of pool) {
+    const minHz = toHz(band.minMhz);
+    const maxHz = toHz(band.maxMhz);
+    const stepHz = Math.max(1, Math.round(band.channelSpacingKhz * 1000));
+    for (let hz = minHz + Math.ceil(halfBwHz / stepHz) * stepHz; hz + halfBwHz <= maxHz; hz += stepHz) {
+      if (tunable(hz) && (!plan || isPermitted(plan, hz / 1e6, target.bandwidthKhz, target.positions))) channels.push(hz);
+    }
+  }
+  return [...new Set(channels)].sort((a, b) => a - b);
+}
+
+function windowsOverlap(a: AssignmentTarget, b: AssignmentTarget): boolean {
+  if (a.windows.length === 0 || b.windows.length === 0) return true;
+  return a.windows.some(x => b.windows.some(y => x.start < y.end && y.start < x.end));
+}
+
+/** Closest approach between two targets' sites; targets without a position are treated as co-located */
+function minDistanceKm(a: AssignmentTarget, b: AssignmentTarget): number {
+  if (a.positions.length === 0 || b.positions.length === 0) return 0;
+  let min = Infinity;
+  for (const p of a.positions) for (const q of b.positions) min = Math.min(min, haversineKm(p, q));
+  return min;
+}
+
+/** First index in the sorted array whose value is >= x (or > x when `strict`) */
+function lowerBound(arr: number[], x: number, strict = false): number {
+  let lo = 0;
+  let hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (arr[mid] < x || (strict && arr[mid] === x)) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Assign primary (and alternate) frequencies by DSATUR graph colouring with
+ * forward checking. Each net's channels are variables whose domains are the
+ * pool channels all its radios can tune. Two targets constrain each other when
+ * they are on the air at the same time and closer than the band's reuse
+ * distance: their channels must then be separated by half of each bandwidth
+ * plus the band's guard band. The most constrained variable is coloured first;
+ * a variable left without channels is reported with the targets that took them.
+ */
+export function assignFrequencies(
+  targets: AssignmentTarget[],
+  pool: FrequencyPoolBand[],
+  options: AssignmentOptions = {},
+): AssignmentResult {
+  const { keepExisting = true, plan } = options;
+  const bandOf = (hz: number) => pool.find(b => toHz(b.minMhz) <= hz && hz <= toHz(b.maxMhz));
+  const maxReuseKm = Math.max(0, ...pool.map(b => b.reuseDistanceKm));
+
+  // Targets close enough in time and space to ever share a constraint
+  const distances = targets.map(a => targets.map(b => (a === b ? 0 : minDistanceKm(a, b))));
+  const near = targets.map((a, i) => targets.flatMap((b, j) =>
+    i !== j && windowsOverlap(a, b) && distances[i][j] < maxReuseKm ? [j] : []));
+
+  const vars = targets.flatMap((target, t) => target.slots.map(slot => ({ t, slot })));
+  const channelsOf = targets.map(target => candidateChannels(target, pool, plan));
+  const domains = vars.map(v => [...channelsOf[v.t]]);
+  const neighbours = vars.map((v, i) => vars.flatMap((w, j) =>
+    i !== j && (w.t === v.t || near[v.t].includes(w.t)) ? [j] : []));
+  const assigned: (number | undefined)[] = vars.map(() => undefined);
+  const done = vars.map(() => false);
+  const useCount = new Map<number, number>();
+
+  /** Channels of `w` that a carrier at `hz` on `v` rules out, as a half-open [from, to) range, or null */
+  const blockedRange = (v: number, hz: number, w: number): [number, number] | null => {
+    const band = bandOf(hz);
+    const a = targets[vars[v].t];
+    const b = targets[vars[w].t];
+    if (a !== b && distances[vars[v].t][vars[w].t] >= (band?.reuseDistanceKm ?? maxReuseKm)) return null;
+    const sepHz = ((a.bandwidthKhz + b.bandwidthKhz) / 2 + (band?.guardBandKhz ?? 0)) * 1000;
+    return [hz - sepHz, hz + sepHz];
+  };
+  const conflicts = (v: number, hz: number, w: number, whz: number) => {
+    const range = blockedRange(v, hz, w);
+    return range !== null && range[0] < whz && whz < range[1];
+  };
+
+  const unmet: UnmetConstraint[] = [];
+  for (let remaining = vars.length; remaining > 0; remaining--) {
+    // Most constrained first: fewest channels left, then most neighbours, primaries before alternates
+    let v = -1;
+    for (let i = 0; i < vars.length; i++) {
+      if (done[i]) continue;
+      const order = v < 0 ? -1
+        : domains[i].length - domains[v].length
+          || neighbours[v].length - neighbours[i].length
+          || (vars[i].slot === 'PRIMARY' ? 0 : 1) - (vars[v].slot === 'PRIMARY' ? 0 : 1);
+      if (order < 0) v = i;
+    }
+    done[v] = true;
+    const target = targets[vars[v].t];
+    const slot = vars[v].slot;
+    const domain = domains[v];
+
+    if (domain.length === 0) {
+      unmet.push(explainUnmet(v));
+      continue;
+    }
+
+    // Keep the current channel if it still fits, otherwise reuse a channel in use elsewhere, lowest first
+    const current = target.current[slot];
+    const currentHz = current !== undefined ? toHz(current) : undefined;
+    let hz = domain[0];
+    if (keepExisting && currentHz !== undefined && domain[lowerBound(domain, currentHz)] === currentHz) {
+      hz = currentHz;
+    } else {
+      for (const c of domain) if ((useCount.get(c) ?? 0) > (useCount.get(hz) ?? 0)) hz = c;
+    }
+    assigned[v] = hz;
+    useCount.set(hz, (useCount.get(hz) ?? 0) + 1);
+
+    // Forward checking: strike the channels this one rules out for every unassigned neighbour
+    for (const w of neighbours[v]) {
+      if (done[w]) continue;
+      const range = blockedRange(v, hz, w);
+      if (!range) continue;
+      const from = lowerBound(domains[w], range[0], true);
+      const to = lowerBound(domains[w], range[1]);
+      if (to > from) domains[w].splice(from, to - from);
+    }
+  }
+
+  function explainUnmet(v: number): UnmetConstraint {
+    const target = targets[vars[v].t];
+    const slot = vars[v].slot;
+    const channels = channelsOf[vars[v].t];
+    if (channels.length === 0) {
+      const unequipped = target.radioSets.filter(s => s.radios.length === 0).map(s => s.label);
+      return {
+        target, slot, blockedBy: [],
+        reason: unequipped.length > 0
+          ? `${[...new Set(unequipped)].join(', ')} saknar radio för ${target.waveform}`
+          : plan && candidateChannels(target, pool).length > 0
+            ? 'Frekvensplanen tillåter ingen av poolens kanaler på nätets platser'
+            : 'Ingen poolkanal inom radioapparaternas gemensamma frekvensområde',
+      };
+    }
+    const blockers = neighbours[v].filter(w => {
+      const whz = assigned[w];
+      return whz !== undefined && channels.some(c => conflicts(w, whz, v, c));
+    });
+    const blockedBy = [...new Set(blockers.map(w => targets[vars[w].t]))];
+    const names = blockedBy.map(b => (b === target ? `egen ${SLOT_LABEL.PRIMARY}frekvens` : b.name));
+    return {
+      target, slot, blockedBy: blockedBy.filter(b => b !== target),
+      reason: `Alla ${channels.length} kanaler upptagna av ${names.join(', ')} (samtidig drift inom återanvändningsavstånd)`,
+    };
+  }
+
+  const assignments = targets.map((target, t): FrequencyAssignment => ({
+    target,
+    mhz: Object.fromEntries(vars.flatMap((v, i) =>
+      v.t === t && assigned[i] !== undefined ? [[v.slot, assigned[i]! / 1e6]] : [])),
+  }));
+  return { assignments, unmet };
+}
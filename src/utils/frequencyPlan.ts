@@ -0,0 +1,197 @@
+import type { FrequencyPlan, FrequencyPlanEntry, FrequencyPlanKind, GeoBounds, LatLng } from '../types';
+import type { ValidationIssue } from './validation';
+import { nanoid } from './id';
+
+export const PLAN_KIND_LABEL: Record<FrequencyPlanKind, string> = {
+  ALLOTTED: 'Tilldelat',
+  PROTECTED: 'Skyddad',
+  CIVIL: 'Civilt',
+};
+
+/** Spellings accepted for the entry kind in imported plans */
+const KIND_ALIASES: Record<string, FrequencyPlanKind> = {
+  ALLOTTED: 'ALLOTTED', ALLOTMENT: 'ALLOTTED', TILLDELAT: 'ALLOTTED', TILLDELAD: 'ALLOTTED',
+  PROTECTED: 'PROTECTED', GUARDED: 'PROTECTED', TABOO: 'PROTECTED', SKYDDAD: 'PROTECTED', TABU: 'PROTECTED',
+  CIVIL: 'CIVIL', CIVILT: 'CIVIL',
+};
+
+const inRegion = (p: LatLng, r: GeoBounds) => p.lat >= r.south && p.lat <= r.north && p.lng >= r.west && p.lng <= r.east;
+
+/** A plan rule that a channel breaks; `entry` is unset for a channel outside every allotment */
+interface Breach {
+  kind: FrequencyPlanKind;
+  entry?: FrequencyPlanEntry;
+}
+
+/** Rules broken by a channel [lo, hi] transmitted from `site` (undefined: only nationwide rules apply) */
+function breachesAt(plan: FrequencyPlan, loMhz: number, hiMhz: number, site?: LatLng): Breach[] {
+  const rules = plan.entries.filter(e => !e.region || (site && inRegion(site, e.region)));
+  const breaches: Breach[] = rules
+    .filter(e => (e.kind === 'PROTECTED' && e.minMhz <= hiMhz && e.maxMhz >= loMhz)
+      || (e.kind === 'CIVIL' && e.minMhz < hiMhz && e.maxMhz > loMhz))
+    .map(entry => ({ kind: entry.kind, entry }));
+  // A plan with allotments permits nothing outside them
+  const allotsAnything = plan.entries.some(e => e.kind === 'ALLOTTED');
+  if (allotsAnything && !rules.some(e => e.kind === 'ALLOTTED' && e.minMhz <= loMhz && e.maxMhz >= hiMhz)) {
+    breaches.push({ kind: 'ALLOTTED' });
+  }
+  return breaches;
+}
+
+/** The channel occupied by a carrier (MHz) */
+const channelEdges = (frequencyMhz: number, bandwidthKhz: number): [number, number] =>
+  [frequencyMhz - bandwidthKhz / 2000, frequencyMhz + bandwidthKhz / 2000];
+
+/** Whether the plan lets every one of the sites transmit on the channel */
+export function isPermitted(plan: FrequencyPlan, frequencyMhz: number, bandwidthKhz: number, sites: LatLng[]): boolean {
+  const [lo, hi] = channelEdges(frequencyMhz, bandwidthKhz);
+  return (sites.length > 0 ? sites : [undefined]).every(site => breachesAt(plan, lo, hi, site).length === 0);
+}
+
+const fmtRange = (e: FrequencyPlanEntry) => (e.minMhz === e.maxMhz ? `${e.minMhz} MHz` : `${e.minMhz}–${e.maxMhz} MHz`);
+
+/** A stretch of spectrum as the plan treats it, for drawing behind the link bars */
+export interface PlanSegment {
+  minMhz: number;
+  maxMhz: number;
+  kind: FrequencyPlanKind | 'UNALLOTTED';
+  label: string;
+  regional: boolean;
+}
+
+const SEGMENT_ORDER: PlanSegment['kind'][] = ['UNALLOTTED', 'ALLOTTED', 'CIVIL', 'PROTECTED'];
+
+/** Plan entries clipped to [minMhz, maxMhz], plus the gaps between nationwide allotments, forbidden ones last */
+export function planSegments(plan: FrequencyPlan, minMhz: number, maxMhz: number): PlanSegment[] {
+  const segments: PlanSegment[] = plan.entries
+    .filter(e => (e.minMhz === e.maxMhz
+      ? e.minMhz >= minMhz && e.minMhz <= maxMhz
+      : e.minMhz < maxMhz && e.maxMhz > minMhz))
+    .map(e => ({
+      minMhz: Math.max(e.minMhz, minMhz),
+      maxMhz: Math.min(e.maxMhz, maxMhz),
+      kind: e.kind,
+      label: `${PLAN_KIND_LABEL[e.kind]}: ${e.label} ${fmtRange(e)}${e.region ? ' (regional)' : ''}`,
+      regional: !!e.region,
+    }));
+  if (plan.entries.some(e => e.kind === 'ALLOTTED')) {
+    const allotted = plan.entries
+      .filter(e => e.kind === 'ALLOTTED' && !e.region)
+      .sort((a, b) => a.minMhz - b.minMhz);
+    let from = minMhz;
+    for (const e of [...allotted, { minMhz: maxMhz, maxMhz }]) {
+      if (e.minMhz > from) {
+        const to = Math.min(e.minMhz, maxMhz);
+        segments.push({ minMhz: from, maxMhz: to, kind: 'UNALLOTTED', label: `Ej tilldelat ${from}–${to} MHz`, regional: false });
+      }
+      from = Math.max(from, e.maxMhz);
+      if (from >= maxMhz) break;
+    }
+  }
+  return segments.sort((a, b) => SEGMENT_ORDER.indexOf(a.kind) - SEGMENT_ORDER.indexOf(b.kind));
+}
+
+/** Plan breaches for a carrier transmitted from the given sites, as validation errors */
+export function planViolations(
+  plan: FrequencyPlan,
+  frequencyMhz: number,
+  bandwidthKhz: number,
+  sites: LatLng[],
+): ValidationIssue[] {
+  const [lo, hi] = channelEdges(frequencyMhz, bandwidthKhz);
+  const messages = new Set<string>();
+  for (const site of sites.length > 0 ? sites : [undefined]) {
+    for (const { kind, entry } of breachesAt(plan, lo, hi, site)) {
+      const where = entry?.region ? ' (regional)' : '';
+      if (!entry) messages.add(`${frequencyMhz} MHz ligger utanför frekvensplanens tilldelade band`);
+      else if (kind === 'PROTECTED') messages.add(`${frequencyMhz} MHz täcker skyddad frekvens ${entry.label} ${fmtRange(entry)}${where}`);
+      else messages.add(`${frequencyMhz} MHz ligger i civilt band ${entry.label} ${fmtRange(entry)}${where}`);
+    }
+  }
+  return [...messages].map(message => ({ severity: 'ERROR', field: 'frequencyMhz', message }));
+}
+
+function parseKind(raw: unknown, where: string): FrequencyPlanKind {
+  const kind = KIND_ALIASES[String(raw ?? '').trim().toUpperCase()];
+  if (!kind) throw new Error(`Okänd typ "${raw}" ${where} (ALLOTTED, PROTECTED eller CIVIL)`);
+  return kind;
+}
+
+function toEntry(
+  kind: FrequencyPlanKind, minMhz: number, maxMhz: number, label: string, region: GeoBounds | undefined, where: string,
+): FrequencyPlanEntry {
+  if (!Number.isFinite(minMhz) || !Number.isFinite(maxMhz) || maxMhz < minMhz) {
+    throw new Error(`Ogiltigt frekvensområde ${where}`);
+  }
+  return { id: nanoid(), kind, minMhz, maxMhz, label: label || PLAN_KIND_LABEL[kind], region };
+}
+
+/**
+ * Parse a CSV plan: `kind,minMhz,maxMhz,label,south,west,north,east`. An empty
+ * maxMhz means a single frequency; the four region columns are optional. Blank
+ * lines are skipped, and so is the first row when it is a header; any other
+ * row that does not parse is an error.
+ */
+export function parseCsvPlan(text: string, name: string): FrequencyPlan {
+  const entries: FrequencyPlanEntry[] = [];
+  const num = (col: string | undefined) => (col ? Number(col) : NaN);
+  let first = true;
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const cols = raw.split(/[,;\t]/).map(c => c.trim());
+    if (cols.every(c => c === '')) return;
+    const isFirst = first;
+    first = false;
+    const minMhz = num(cols[1]);
+    if (isFirst && !Number.isFinite(minMhz)) return;
+    const where = `på rad ${i + 1}`;
+    const regionCols = cols.slice(4, 8).filter(c => c !== '');
+    const bounds = regionCols.map(num);
+    if (regionCols.length > 0 && (bounds.length !== 4 || !bounds.every(Number.isFinite))) {
+      throw new Error(`Ogiltig region ${where} (south, west, north och east i grader)`);
+    }
+    const region = bounds.length === 4 ? { south: bounds[0], west: bounds[1], north: bounds[2], east: bounds[3] } : undefined;
+    const maxMhz = cols[2] ? num(cols[2]) : minMhz;
+    entries.push(toEntry(parseKind(cols[0], where), minMhz, maxMhz, cols[3] ?? '', region, where));
+  });
+  if (entries.length === 0) throw new Error('CSV-filen saknar planrader (kind,minMhz,maxMhz,label)');
+  return { name, entries };
+}
+
+/** Region of a JSON entry: absent, or an object with all four edges in degrees */
+function parseRegion(raw: unknown, where: string): GeoBounds | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const r = raw as Record<string, unknown>;
+  const edges = [r.south, r.west, r.north, r.east];
+  if (typeof raw !== 'object' || !edges.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    throw new Error(`Ogiltig region ${where} (south, west, north och east i grader)`);
+  }
+  const [south, west, north, east] = edges as number[];
+  return { south, west, north, east };
+}
+
+/**
+ * Parse a JSON plan: `{ name?, entries: [{ kind, minMhz, maxMhz?, label?, region? }] }`
+ * or the bare entry array.
+ */
+export function parseJsonPlan(text: string, fallbackName: string): FrequencyPlan {
+  const data = JSON.parse(text) as unknown;
+  const doc = (Array.isArray(data) ? { entries: data } : data) as { name?: string; entries?: unknown };
+  if (!Array.isArray(doc.entries)) throw new Error('JSON-filen saknar "entries"');
+  const entries = doc.entries.map((item: unknown, i: number) => {
+    const where = `i post ${i + 1}`;
+    if (typeof item !== 'object' || item === null || Array.isArray(item)) throw new Error(`Förväntade ett objekt ${where}`);
+    const raw = item as Record<string, unknown>;
+    const minMhz = Number(raw.minMhz);
+    return toEntry(
+      parseKind(raw.kind, where), minMhz, raw.maxMhz === undefined ? minMhz : Number(raw.maxMhz),
+      String(raw.label ?? ''), parseRegion(raw.region, where), where,
+    );
+  });
+  return { name: doc.name ?? fallbackName, entries };
+}
+
+/** Pick the parser from the file name */
+export function parseFrequencyPlan(text: string, fileName: string): FrequencyPlan {
+  const name = fileName.replace(/\.[^.]+$/, '');
+  return /\.json$/i.test(fileName) ? parseJsonPlan(text, name) : parseCsvPlan(text, name);
+}
@@ -48,3 +48,17 @@ export function destPoint(origin: LatLng, bearingDegParam: number, distKm: numbe
   const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
   return { lat: φ2 * 180 / Math.PI, lng: λ2 * 180 / Math.PI };
 }
+
+/** Whether the point lies inside the polygon (ray casting on lat/lng, fine for areas a map view spans) */
+export function insidePolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat)
+      && point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
@@ -0,0 +1,188 @@
+import type { LatLng } from '../types';
+import { haversineKm, midPoint } from './geo';
+
+// Simplified HF skywave prediction in the spirit of ITU-R P.533: a single F2
+// layer whose critical frequency follows the sun, secant-law MUF, and CCIR
+// D-layer absorption. Good enough to pick frequencies, not to replace VOACAP.
+
+const R_KM = 6371;
+const F2_HEIGHT_KM = 300;
+const D_LAYER_HEIGHT_KM = 110;
+const MAX_HOP_KM = 4000;
+/** Paths shorter than this are worked with near-vertical incidence antennas */
+export const NVIS_MAX_KM = 400;
+/** Fixed excess system loss (P.533 "Lz") */
+const EXCESS_LOSS_DB = 9;
+const GROUND_REFLECTION_LOSS_DB = 2;
+/** D-layer absorption at which a frequency counts as below the LUF (dB) */
+const LUF_ABSORPTION_DB = 30;
+
+/** Convert 10.7 cm solar flux to smoothed sunspot number */
+export function sunspotFromFlux(sfi: number): number {
+  // Inverse of F = 63.7 + 0.728 R + 0.00089 R²
+  const a = 0.00089, b = 0.728, c = 63.7 - sfi;
+  return Math.max(0, (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a));
+}
+
+/** Convert smoothed sunspot number to 10.7 cm solar flux */
+export function fluxFromSunspot(ssn: number): number {
+  return 63.7 + 0.728 * ssn + 0.00089 * ssn * ssn;
+}
+
+/** Solar zenith angle (deg) at a position and time — NOAA low-precision formulas */
+export function solarZenithDeg(pos: LatLng, time: Date): number {
+  const rad = Math.PI / 180;
+  const start = Date.UTC(time.getUTCFullYear(), 0, 0);
+  const day = (time.getTime() - start) / 86400000;
+  const γ = (2 * Math.PI / 365) * (day - 1);
+  const decl = 0.006918 - 0.399912 * Math.cos(γ) + 0.070257 * Math.sin(γ)
+    - 0.006758 * Math.cos(2 * γ) + 0.000907 * Math.sin(2 * γ);
+  const eqTime = 229.18 * (0.000075 + 0.001868 * Math.cos(γ) - 0.032077 * Math.sin(γ)
+    - 0.014615 * Math.cos(2 * γ) - 0.040849 * Math.sin(2 * γ));
+  const utcMin = time.getUTCHours() * 60 + time.getUTCMinutes();
+  const solarMin = utcMin + eqTime + 4 * pos.lng;
+  const ha = (solarMin / 4 - 180) * rad;
+  const lat = pos.lat * rad;
+  const cosZ = Math.sin(lat) * Math.sin(decl) + Math.cos(lat) * Math.cos(decl) * Math.cos(ha);
+  return Math.acos(Math.max(-1, Math.min(1, cosZ))) / rad;
+}
+
+/** F2 critical frequency (MHz) — day/night envelope scaled by sunspot number */
+export function foF2Mhz(zenithDeg: number, ssn: number): number {
+  const day = 6.5 + 0.04 * ssn;
+  const night = 2.5 + 0.015 * ssn;
+  // Keep some ionisation through twilight (sun up to ~6° below the horizon)
+  const sun = Math.max(0, Math.cos((zenithDeg * Math.PI) / 180) + 0.1) / 1.1;
+  return night + (day - night) * Math.sqrt(sun);
+}
+
+interface HopGeometry {
+  hops: number;
+  elevationDeg: number;
+  /** Angle of incidence at a layer of the given height, from vertical */
+  incidence: (layerKm: number) => number;
+  slantKm: number;
+}
+
+function hopGeometry(groundKm: number): HopGeometry {
+  const hops = Math.max(1, Math.ceil(groundKm / MAX_HOP_KM));
+  const θ = groundKm / hops / (2 * R_KM); // half-hop earth-centre angle
+  const rh = R_KM + F2_HEIGHT_KM;
+  const elev = θ < 1e-9 ? Math.PI / 2 : Math.atan((Math.cos(θ) - R_KM / rh) / Math.sin(θ));
+  const slantPerHop = 2 * Math.sqrt(R_KM ** 2 + rh ** 2 - 2 * R_KM * rh * Math.cos(θ));
+  return {
+    hops,
+    elevationDeg: (elev * 180) / Math.PI,
+    incidence: (layerKm) => Math.asin((R_KM * Math.cos(elev)) / (R_KM + layerKm)),
+    slantKm: hops * slantPerHop,
+  };
+}
+
+export interface SkywavePrediction {
+  mode: 'SKYWAVE' | 'NVIS';
+  lufMhz: number;        // lowest frequency not absorbed by the D layer
+  mufMhz: number;
+  fotMhz: number;
+  elevationDeg: number;
+  hops: number;
+  slantKm: number;       // total ray path length through the ionosphere
+  skywaveLossDb: number; // absorption + reflections + excess + above-MUF penalty
+}
+
+/** Predict skywave LUF/MUF/FOT and path loss between two points at a given time */
+export function predictSkywave(
+  from: LatLng,
+  to: LatLng,
+  freqMhz: number,
+  time: Date,
+  ssn: number,
+): SkywavePrediction {
+  const groundKm = haversineKm(from, to);
+  const geo = hopGeometry(groundKm);
+  const mid = midPoint(from, to);
+  const χ = solarZenithDeg(mid, time);
+
+  const mufMhz = foF2Mhz(χ, ssn) / Math.cos(geo.incidence(F2_HEIGHT_KM));
+  const fotMhz = 0.85 * mufMhz;
+
+  // CCIR D-layer absorption, two passes per hop
+  const cosχ = Math.max(0, Math.cos((0.881 * χ * Math.PI) / 180));
+  const absIndex = (1 + 0.0037 * ssn) * Math.pow(cosχ, 1.3);
+  const secI = 1 / Math.cos(geo.incidence(D_LAYER_HEIGHT_KM));
+  const absorption = geo.hops * 677.2 * secI * 2 * absIndex;
+  const absorptionDb = absorption / ((freqMhz + 1.2) ** 1.98 + 10.2);
+  // LUF: the same formula solved for the frequency where absorption falls to the limit
+  const lufMhz = Math.max(0, Math.max(0, absorption / LUF_ABSORPTION_DB - 10.2) ** (1 / 1.98) - 1.2);
+
+  // Above the MUF the ray escapes; P.533-style penalty that grows fast past ~1.2·MUF
+  const aboveMuf = freqMhz > mufMhz ? Math.min(60, 130 * (freqMhz / mufMhz - 1) ** 2) : 0;
+
+  return {
+    mode: groundKm < NVIS_MAX_KM ? 'NVIS' : 'SKYWAVE',
+    lufMhz,
+    mufMhz,
+    fotMhz,
+    elevationDeg: geo.elevationDeg,
+    hops: geo.hops,
+    slantKm: geo.slantKm,
+    skywaveLossDb: absorptionDb + (geo.hops - 1) * GROUND_REFLECTION_LOSS_DB + EXCESS_LOSS_DB + aboveMuf,
+  };
+}
+
+export interface HfWindowSample {
+  time: string;
+  lufMhz: number;
+  mufMhz: number;
+  fotMhz: number;
+  usable: boolean;
+}
+
+/**
+ * Hourly LUF/MUF/FOT across a time window and whether `freqMhz` stays between
+ * them. Empty when the window's times cannot be parsed.
+ */
+export function hfUsabilityOverWindow(
+  from: LatLng,
+  to: LatLng,
+  freqMhz: number,
+  startIso: string,
+  endIso: string,
+  ssn: number,
+): HfWindowSample[] {
+  const start = new Date(startIso).getTime();
+  const end = Math.max(start, new Date(endIso).getTime());
+  const step = Math.max(3600000, (end - start) / 96);
+  const samples: HfWindowSample[] = [];
+  for (let t = start; t <= end; t += step) {
+    const p = predictSkywave(from, to, freqMhz, new Date(t), ssn);
+    samples.push({
+      time: new Date(t).toISOString(),
+      lufMhz: p.lufMhz,
+      mufMhz: p.mufMhz,
+      fotMhz: p.fotMhz,
+      usable: freqMhz >= p.lufMhz && freqMhz <= p.mufMhz,
+    });
+  }
+  return samples;
+}
+
+/**
+ * Suggested day/night working frequencies: FOT at local noon and local
+ * midnight of the path midpoint on the given date, clamped to the radio's range.
+ */
+export function suggestDayNightFrequencies(
+  from: LatLng,
+  to: LatLng,
+  dateIso: string,
+  ssn: number,
+  freqMin = 2,
+  freqMax = 30,
+): { dayMhz: number; nightMhz: number } {
+  const mid = midPoint(from, to);
+  const date = new Date(dateIso);
+  // Local solar noon ≈ 12:00 UTC − longitude/15 h
+  const noonUtc = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate(), 12) - (mid.lng / 15) * 3600000;
+  const fot = (t: number) => predictSkywave(from, to, freqMin, new Date(t), ssn).fotMhz;
+  const clamp = (f: number) => Math.round(Math.min(freqMax, Math.max(freqMin, f)) * 20) / 20;
+  return { dayMhz: clamp(fot(noonUtc)), nightMhz: clamp(fot(noonUtc + 12 * 3600000)) };
+}
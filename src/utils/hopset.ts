@@ -0,0 +1,138 @@
+import type { FrequencyNet, FrequencyRange, HopRateClass, Hopset, RadioLink } from '../types';
+
+export const HOP_RATE_LABEL: Record<HopRateClass, string> = {
+  SLOW: 'Långsam',
+  MEDIUM: 'Medel',
+  FAST: 'Snabb',
+};
+
+/** How a link hops: its net's hopset and TRANSEC net ID */
+export interface LinkHopping {
+  hopset: Hopset;
+  netId?: number;
+}
+
+/** Hopping of a link; undefined for a link on a fixed frequency */
+export type HoppingResolver = (link: RadioLink) => LinkHopping | undefined;
+
+export const noHopping: HoppingResolver = () => undefined;
+
+/** Links hop when the net they belong to (matched by name) has a hopset */
+export function hoppingResolver(nets: FrequencyNet[], hopsets: Hopset[]): HoppingResolver {
+  const hopsetById = new Map(hopsets.map(h => [h.id, h]));
+  const netByName = new Map(nets.map(n => [n.name, n]));
+  return link => {
+    const net = netByName.get(link.netName);
+    const hopset = net?.hopsetId ? hopsetById.get(net.hopsetId) : undefined;
+    return hopset ? { hopset, netId: net?.hopNetId } : undefined;
+  };
+}
+
+// Channels are handled in whole hertz so rasters compare exactly
+const toHz = (mhz: number) => Math.round(mhz * 1e6);
+
+const channelCache = new WeakMap<Hopset, number[]>();
+
+/** Every channel of the hopset (Hz), sorted, with the lockouts taken out */
+function channelsHz(hopset: Hopset): number[] {
+  const cached = channelCache.get(hopset);
+  if (cached) return cached;
+  const stepHz = Math.max(1, Math.round(hopset.channelSpacingKhz * 1000));
+  const all = hopset.frequenciesMhz.map(toHz);
+  for (const r of hopset.ranges) {
+    for (let hz = toHz(r.minMhz); hz <= toHz(r.maxMhz); hz += stepHz) all.push(hz);
+  }
+  const lockedOut = (hz: number) => hopset.lockouts.some(r => toHz(r.minMhz) <= hz && hz <= toHz(r.maxMhz));
+  const channels = [...new Set(all)].filter(hz => !lockedOut(hz)).sort((a, b) => a - b);
+  channelCache.set(hopset, channels);
+  return channels;
+}
+
+export function hopChannelCount(hopset: Hopset): number {
+  return channelsHz(hopset).length;
+}
+
+/** Stretches of spectrum the hopset occupies: runs of channels on the raster, lockouts leaving gaps */
+export function hopSegments(hopset: Hopset): FrequencyRange[] {
+  const stepHz = Math.max(1, Math.round(hopset.channelSpacingKhz * 1000));
+  const segments: FrequencyRange[] = [];
+  let start: number | undefined;
+  let prev = 0;
+  for (const hz of channelsHz(hopset)) {
+    if (start === undefined) start = hz;
+    else if (hz - prev > stepHz) {
+      segments.push({ minMhz: start / 1e6, maxMhz: prev / 1e6 });
+      start = hz;
+    }
+    prev = hz;
+  }
+  if (start !== undefined) segments.push({ minMhz: start / 1e6, maxMhz: prev / 1e6 });
+  return segments;
+}
+
+/** First index in the sorted array whose value is >= x (or > x when `strict`) */
+function lowerBound(arr: number[], x: number, strict = false): number {
+  let lo = 0;
+  let hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (arr[mid] < x || (strict && arr[mid] === x)) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Hopset against hopset is the costly case; keyed by the cached channel arrays and the collision width
+const overlapCache = new WeakMap<number[], WeakMap<number[], Map<number, number>>>();
+
+/**
+ * Share of the victim's hops (0–1) on which the interferer occupies an
+ * overlapping channel. Hops are taken as uncorrelated and equally likely over
+ * each set, so two nets on the same hopset with different net IDs collide on
+ * about one hop in N, while the same hopset and net ID hop in step and
+ * always collide. A fixed-frequency side counts as a set of one channel.
+ */
+export function hopOverlap(
+  victim: RadioLink,
+  victimHop: LinkHopping | undefined,
+  interferer: RadioLink,
+  interfererHop: LinkHopping | undefined,
+): number {
+  if (victimHop && interfererHop && victimHop.hopset.id === interfererHop.hopset.id
+    && victimHop.netId !== undefined && victimHop.netId === interfererHop.netId) return 1;
+
+  const v = victimHop ? channelsHz(victimHop.hopset) : [toHz(victim.frequencyMhz)];
+  const i = interfererHop ? channelsHz(interfererHop.hopset) : [toHz(interferer.frequencyMhz)];
+  if (v.length === 0 || i.length === 0) return 0;
+  // Channels collide when their occupied bandwidths overlap
+  const halfHz = Math.round((Math.max(victim.bandwidthKhz, 0.1) + Math.max(interferer.bandwidthKhz, 0.1)) * 500);
+
+  const cache = victimHop && interfererHop ? overlapCache.get(v)?.get(i) : undefined;
+  const cached = cache?.get(halfHz);
+  if (cached !== undefined) return cached;
+
+  const [small, large] = v.length <= i.length ? [v, i] : [i, v];
+  let hits = 0;
+  for (const x of small) hits += lowerBound(large, x + halfHz) - lowerBound(large, x - halfHz, true);
+  const overlap = hits / (v.length * i.length);
+
+  if (victimHop && interfererHop) {
+    const byInterferer = overlapCache.get(v) ?? new WeakMap<number[], Map<number, number>>();
+    overlapCache.set(v, byInterferer);
+    byInterferer.set(i, (byInterferer.get(i) ?? new Map()).set(halfHz, overlap));
+  }
+  return overlap;
+}
+
+/** Parse "30-40, 45.5; 50–60" into ranges; a single value gives a range of one frequency */
+export function parseRanges(text: string): FrequencyRange[] {
+  return text.split(/[,;\n]/).map(p => p.trim()).filter(Boolean).map(part => {
+    const [lo, hi = lo] = part.split(/\s*[-–]\s*/).map(Number);
+    if (!Number.isFinite(lo) || !Number.isFinite(hi) || hi < lo) throw new Error(`Ogiltigt frekvensintervall "${part}"`);
+    return { minMhz: lo, maxMhz: hi };
+  });
+}
+
+export function formatRanges(ranges: FrequencyRange[]): string {
+  return ranges.map(r => (r.minMhz === r.maxMhz ? `${r.minMhz}` : `${r.minMhz}–${r.maxMhz}`)).join(', ');
+}
@@ -0,0 +1,197 @@
+import type {
+  InterferenceEntry, LatLng, LinkBudget, LinkDirection, RadioEquipment, RadioLink, WaveformType,
+} from '../types';
+import type { PropagationOptions } from './linkBudget';
+import { calcLinkBudget, budgetOutcome, reverseLink } from './linkBudget';
+import type { HoppingResolver } from './hopset';
+import { hopOverlap, noHopping } from './hopset';
+
+/** Receiver selectivity per waveform: rejection of the adjacent and alternate channel (dB) */
+const REJECTION_MASK: Record<WaveformType, { adjacentDb: number; alternateDb: number }> = {
+  AM: { adjacentDb: 50, alternateDb: 60 },
+  FM: { adjacentDb: 60, alternateDb: 70 },
+  USB: { adjacentDb: 60, alternateDb: 70 },
+  LSB: { adjacentDb: 60, alternateDb: 70 },
+  WBFM: { adjacentDb: 45, alternateDb: 55 },
+  FSK: { adjacentDb: 55, alternateDb: 65 },
+  PSK: { adjacentDb: 45, alternateDb: 60 },
+  QAM: { adjacentDb: 40, alternateDb: 55 },
+};
+
+/** Extra rejection beyond the alternate channel, up to the cut-off below */
+const FAR_OFF_CHANNEL_DB = 10;
+
+/** Interferers further away than this many victim channel widths are ignored */
+const MAX_OFFSET_CHANNELS = 10;
+
+/** Interferers this far below the noise floor are left out of the list */
+const REPORT_BELOW_NOISE_DB = 10;
+
+/** Geometry and equipment at both ends of a link, resolved from the org tree */
+export interface LinkEnds {
+  from: LatLng;
+  to: LatLng;
+  fromNodeId: string;
+  toNodeId: string;
+  fromEquip?: RadioEquipment;
+  toEquip?: RadioEquipment;
+  fromAntennaHeightM: number;
+  toAntennaHeightM: number;
+}
+
+/** The same ends seen from the other direction */
+export function flipEnds(ends: LinkEnds): LinkEnds {
+  return {
+    from: ends.to,
+    to: ends.from,
+    fromNodeId: ends.toNodeId,
+    toNodeId: ends.fromNodeId,
+    fromEquip: ends.toEquip,
+    toEquip: ends.fromEquip,
+    fromAntennaHeightM: ends.toAntennaHeightM,
+    toAntennaHeightM: ends.fromAntennaHeightM,
+  };
+}
+
+/** Whether two links are planned to be on the air at the same time */
+export function timesOverlap(a: RadioLink, b: RadioLink): boolean {
+  return Date.parse(a.startTime) < Date.parse(b.endTime) && Date.parse(b.startTime) < Date.parse(a.endTime);
+}
+
+/**
+ * Rejection (dB) the victim receiver offers against the interferer's emission.
+ * Overlapping channels only lose the share of interferer power outside the
+ * receive passband; separated channels follow the waveform's selectivity mask.
+ * When either side hops, the interferer only counts on the share of hops that
+ * collide and its power is averaged over them; off-channel leakage is then
+ * neglected. Returns Infinity when the interferer is too far off-channel to matter.
+ */
+export function channelRejectionDb(victim: RadioLink, interferer: RadioLink, hoppingOf: HoppingResolver = noHopping): number {
+  const victimHop = hoppingOf(victim);
+  const interfererHop = hoppingOf(interferer);
+  if (victimHop || interfererHop) {
+    const overlap = hopOverlap(victim, victimHop, interferer, interfererHop);
+    return overlap > 0 ? -10 * Math.log10(overlap) : Infinity;
+  }
+
+  const vBw = Math.max(victim.bandwidthKhz, 0.1);
+  const iBw = Math.max(interferer.bandwidthKhz, 0.1);
+  // Round to Hz so channels on an exact raster don't register as overlapping
+  const offsetKhz = Math.round(Math.abs(victim.frequencyMhz - interferer.frequencyMhz) * 1e6) / 1000;
+  const gapKhz = offsetKhz - (vBw + iBw) / 2;
+
+  if (gapKhz < 0) {
+    const overlapKhz = Math.min(vBw, iBw, -gapKhz);
+    return Math.max(0, -10 * Math.log10(overlapKhz / iBw));
+  }
+
+  const channels = gapKhz / vBw;
+  if (channels > MAX_OFFSET_CHANNELS) return Infinity;
+  const mask = REJECTION_MASK[victim.waveform];
+  if (channels < 1) return mask.adjacentDb;
+  if (channels < 2) return mask.alternateDb;
+  return mask.alternateDb + FAR_OFF_CHANNEL_DB;
+}
+
+/**
+ * Whether `other` can interfere with `victim` at all: another net, on the air
+ * at the same time, near the channel. SATCOM links are left out on either
+ * side, as their paths run through the satellite rather than ground to ground.
+ */
+export function canInterfere(victim: RadioLink, other: RadioLink, hoppingOf: HoppingResolver = noHopping): boolean {
+  return other.id !== victim.id && other.netName !== victim.netName
+    && !victim.satelliteId && !other.satelliteId
+    && timesOverlap(victim, other) && Number.isFinite(channelRejectionDb(victim, other, hoppingOf));
+}
+
+/**
+ * Every other transmitter that reaches the victim's receiver, with its power
+ * after channel rejection. Both ends of a half-duplex link transmit in turn,
+ * never together, so each link counts with whichever end reaches the victim
+ * stronger. Links in the same net share the channel by net discipline and
+ * ends transmitting from the receiving node itself are co-site cases, so both
+ * are skipped here.
+ */
+export function findInterferers(
+  victim: RadioLink,
+  links: RadioLink[],
+  endsOf: (link: RadioLink) => LinkEnds | undefined,
+  opts: PropagationOptions = {},
+  hoppingOf: HoppingResolver = noHopping,
+): InterferenceEntry[] {
+  const vEnds = endsOf(victim);
+  const wanted = victim.linkBudget;
+  if (!vEnds || !wanted) return [];
+
+  const entries: InterferenceEntry[] = [];
+  for (const other of links) {
+    if (!canInterfere(victim, other, hoppingOf)) continue;
+    const rejectionDb = channelRejectionDb(victim, other, hoppingOf);
+    const iEnds = endsOf(other);
+    if (!iEnds) continue;
+
+    // Interfering paths: each end of the other link to this link's receiver
+    const emitters: [LinkDirection, RadioLink, LinkEnds][] = [
+      ['FORWARD', other, iEnds],
+      ['REVERSE', reverseLink(other, iEnds.toEquip), flipEnds(iEnds)],
+    ];
+    let strongest: { interferenceDbm: number; direction: LinkDirection } | undefined;
+    for (const [direction, emitter, eEnds] of emitters) {
+      if (eEnds.fromNodeId === vEnds.toNodeId) continue;
+      const path = calcLinkBudget(eEnds.from, vEnds.to, emitter, eEnds.fromEquip, vEnds.toEquip, {
+        ...opts,
+        fromAntennaHeightM: eEnds.fromAntennaHeightM,
+        toAntennaHeightM: vEnds.toAntennaHeightM,
+      });
+      const interferenceDbm = path.receivedPowerDbm - rejectionDb;
+      if (!strongest || interferenceDbm > strongest.interferenceDbm) strongest = { interferenceDbm, direction };
+    }
+    if (!strongest || strongest.interferenceDbm < wanted.noiseFloorDbm - REPORT_BELOW_NOISE_DB) continue;
+    const { interferenceDbm, direction } = strongest;
+
+    entries.push({
+      linkId: other.id,
+      netName: other.netName,
+      frequencyMhz: other.frequencyMhz,
+      offsetKhz: Math.round((other.frequencyMhz - victim.frequencyMhz) * 1e6) / 1000,
+      rejectionDb,
+      interferenceDbm,
+      ciDb: wanted.receivedPowerDbm - interferenceDbm,
+      sourceDirection: direction,
+      // For hoppers the rejection is nothing but the collision duty cycle
+      overlapPct: hoppingOf(victim) || hoppingOf(other) ? 100 * Math.pow(10, -rejectionDb / 10) : undefined,
+    });
+  }
+  return entries.sort((a, b) => b.interferenceDbm - a.interferenceDbm);
+}
+
+const dbToLin = (db: number) => Math.pow(10, db / 10);
+const linToDb = (lin: number) => 10 * Math.log10(lin);
+
+/**
+ * Fold interferers into a link's budget: aggregate I, C/I, SINR and the margin
+ * left once interference raises the receiver's effective noise floor.
+ */
+export function applyInterference(link: RadioLink, budget: LinkBudget, entries: InterferenceEntry[]): LinkBudget {
+  if (entries.length === 0) {
+    return {
+      ...budget,
+      interferenceDbm: undefined,
+      ciDb: undefined,
+      interference: undefined,
+      ...budgetOutcome(link, budget, budget.receivedPowerDbm - budget.noiseFloorDbm, budget.linkMarginDb),
+    };
+  }
+
+  const noiseLin = dbToLin(budget.noiseFloorDbm);
+  const interferenceLin = entries.reduce((sum, e) => sum + dbToLin(e.interferenceDbm), 0);
+  const interferenceDbm = linToDb(interferenceLin);
+  const noiseRiseDb = linToDb(1 + interferenceLin / noiseLin);
+  return {
+    ...budget,
+    interferenceDbm,
+    ciDb: budget.receivedPowerDbm - interferenceDbm,
+    interference: entries,
+    ...budgetOutcome(link, budget, budget.receivedPowerDbm - linToDb(interferenceLin + noiseLin), budget.linkMarginDb - noiseRiseDb),
+  };
+}
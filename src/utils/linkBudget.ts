@@ -1,6 +1,24 @@
-import type { LinkBudget, RadioEquipment, RadioLink } from '../types';
+import type {
+  AtmosphereSettings, LinkBudget, NetType, PropagationMode, RadioEquipment, RadioLink, Satellite, SatcomBudget,
+} from '../types';
 import type { LatLng } from '../types';
-import { haversineKm } from './geo';
+import { haversineKm, bearingDeg } from './geo';
+import type { ElevationSource } from './terrain';
+import { predictSkywave } from './hfPropagation';
+import { antennaGainTowards } from './antenna';
+import { assessWaveform } from './waveform';
+import { DEFAULT_REQUIRED_AVAILABILITY, fadingModelFor, linkAvailability } from './fading';
+import { atmosphericLosses } from './atmosphere';
+import { satcomBudget } from './satellite';
+import {
+  FLAT_ELEVATION, DEFAULT_K_FACTOR, DEFAULT_ANTENNA_HEIGHT_M, terrainProfile, deygoutLossDb, radioHorizonKm,
+} from './terrain';
+
+/** Sunspot number used for HF predictions when none is configured */
+export const DEFAULT_SUNSPOT_NUMBER = 100;
+
+/** Receiver noise figure assumed for tactical radios (dB) */
+export const DEFAULT_NOISE_FIGURE_DB = 10;
 
 /** Free Space Path Loss (dB) — Friis equation
  *  FSPL = 20·log₁₀(d_km) + 20·log₁₀(f_MHz) + 32.44
@@ -10,19 +28,28 @@ export function freespacePathLossDb(distKm: number, freqMhz: number): number {
   return 20 * Math.log10(distKm) + 20 * Math.log10(freqMhz) + 32.44;
 }
 
-/** Approximate terrain/obstacle loss based on distance & frequency */
-function estimateTerrainLoss(distKm: number, freqMhz: number): number {
-  // Simple model: extra loss grows with distance, VHF/HF has more terrain issues
-  const factor = freqMhz < 100 ? 0.5 : freqMhz < 1000 ? 0.3 : 0.15;
-  return Math.min(factor * distKm, 30);
+/** Environment the propagation model runs against */
+export interface PropagationOptions {
+  elevation?: ElevationSource;
+  kFactor?: number;
+  fromAntennaHeightM?: number;
+  toAntennaHeightM?: number;
+  sunspotNumber?: number;
+  requiredAvailabilityPct?: Record<NetType, number>;
+  atmosphere?: AtmosphereSettings;
+  satellite?: Satellite;  // relay for SATCOM links
 }
 
-/** Atmospheric loss dB (simple approximation) */
-function atmosphericLoss(distKm: number, freqMhz: number): number {
-  // Significant above ~10 GHz
-  if (freqMhz < 1000) return 0.01 * distKm;
-  if (freqMhz < 10000) return 0.05 * distKm;
-  return 0.2 * distKm;
+/** Terrain diffraction loss (dB) from a sampled elevation profile — Deygout knife-edge */
+export function terrainLossDb(from: LatLng, to: LatLng, freqMhz: number, opts: PropagationOptions = {}): number {
+  const profile = terrainProfile(from, to, opts.elevation ?? FLAT_ELEVATION);
+  return deygoutLossDb(
+    profile,
+    freqMhz,
+    opts.fromAntennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M,
+    opts.toAntennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M,
+    opts.kFactor ?? DEFAULT_K_FACTOR,
+  );
 }
 
 /** Convert Watts to dBm */
@@ -35,6 +62,51 @@ export function dbmToWatt(dbm: number): number {
   return Math.pow(10, (dbm - 30) / 10);
 }
 
+/** Man-made noise figure Fa (dB) in a rural environment — ITU-R P.372, valid 0.3–250 MHz */
+export function externalNoiseFigureDb(freqMhz: number): number {
+  if (freqMhz <= 0 || freqMhz > 250) return 0;
+  return Math.max(0, 67.2 - 27.7 * Math.log10(freqMhz));
+}
+
+/**
+ * Noise floor (dBm) in a channel: −174 dBm/Hz + 10·log₁₀(B) + F, where F combines
+ * the receiver noise figure with external noise when the frequency is given.
+ */
+export function noiseFloorDbm(bandwidthKhz: number, noiseFigureDb = DEFAULT_NOISE_FIGURE_DB, freqMhz?: number): number {
+  const fRx = Math.pow(10, noiseFigureDb / 10);
+  const fA = freqMhz === undefined ? 1 : Math.pow(10, externalNoiseFigureDb(freqMhz) / 10);
+  const systemNfDb = 10 * Math.log10(fA + fRx - 1);
+  return -174 + 10 * Math.log10(Math.max(bandwidthKhz, 0.1) * 1000) + systemNfDb;
+}
+
+/** SNR- and margin-dependent results, shared by the plain budget and the interference pass */
+export function budgetOutcome(
+  link: Pick<RadioLink, 'waveform' | 'bandwidthKhz'>,
+  path: Pick<LinkBudget, 'propagationMode' | 'terrainLossDb' | 'requiredAvailabilityPct' | 'satcom'>,
+  sinrDb: number,
+  effectiveMarginDb: number,
+): Pick<LinkBudget,
+  | 'sinrDb' | 'effectiveMarginDb' | 'requiredSnrDb' | 'snrMarginDb' | 'voiceGrade' | 'dataRateKbps' | 'dataMode'
+  | 'multipath' | 'shadowSigmaDb' | 'fadeMarginDb' | 'locationReliabilityPct' | 'timeAvailabilityPct'
+  | 'availabilityPct' | 'belowAvailabilityTarget' | 'feasible'> {
+  const perf = assessWaveform(link.waveform, link.bandwidthKhz, sinrDb);
+  const fading = fadingModelFor(path);
+  const fadeMarginDb = Math.min(effectiveMarginDb, perf.snrMarginDb);
+  const availability = linkAvailability(fadeMarginDb, fading);
+  const feasible = effectiveMarginDb > 0 && perf.snrMarginDb >= 0 && !path.satcom?.belowMinElevation;
+  return {
+    sinrDb,
+    effectiveMarginDb,
+    ...perf,
+    multipath: fading.multipath,
+    shadowSigmaDb: fading.shadowSigmaDb,
+    fadeMarginDb,
+    ...availability,
+    belowAvailabilityTarget: feasible && availability.availabilityPct < path.requiredAvailabilityPct,
+    feasible,
+  };
+}
+
 /** First Fresnel zone radius (m) at mid-path */
 export function fresnelRadius1(distKm: number, freqMhz: number): number {
   const lambda = 300 / freqMhz; // wavelength in m
@@ -42,6 +114,14 @@ export function fresnelRadius1(distKm: number, freqMhz: number): number {
   return Math.sqrt((lambda * d) / 4); // at midpoint
 }
 
+/** First Fresnel zone radius (m) at d1/d2 km from the path ends */
+export function fresnelRadiusM(d1Km: number, d2Km: number, freqMhz: number): number {
+  const lambda = 300 / freqMhz;
+  const d1 = d1Km * 1000, d2 = d2Km * 1000;
+  if (d1 <= 0 || d2 <= 0) return 0;
+  return Math.sqrt((lambda * d1 * d2) / (d1 + d2));
+}
+
 /** Calculate full link budget */
 export function calcLinkBudget(
   from: LatLng,
@@ -49,39 +129,169 @@ export function calcLinkBudget(
   link: RadioLink,
   fromEquip?: RadioEquipment,
   toEquip?: RadioEquipment,
+  opts: PropagationOptions = {},
 ): LinkBudget {
   const distKm = haversineKm(from, to);
   const freqMhz = link.frequencyMhz;
 
   const txPowerDbm = wattToDbm(link.txPowerW);
-  const txGainDbi = fromEquip?.antennaGainDbi ?? 0;
-  const rxGainDbi = toEquip?.antennaGainDbi ?? 0;
   const rxSensDbm = toEquip?.rxSensitivityDbm ?? -110;
 
-  const fsplDb = freespacePathLossDb(distKm, freqMhz);
-  const terrainLossDb = estimateTerrainLoss(distKm, freqMhz);
-  const atmosphericLossDb = atmosphericLoss(distKm, freqMhz);
+  const elevation = opts.elevation ?? FLAT_ELEVATION;
+  const fromAntennaHeightM = opts.fromAntennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M;
+  const toAntennaHeightM = opts.toAntennaHeightM ?? DEFAULT_ANTENNA_HEIGHT_M;
+  const horizonKm = radioHorizonKm(fromAntennaHeightM, toAntennaHeightM, opts.kFactor ?? DEFAULT_K_FACTOR);
+  const fromSiteM = elevation.elevationAt(from);
+  const toSiteM = elevation.elevationAt(to);
+
+  // Directional antennas: look up the gain each end actually has towards the other
+  const elevAngleDeg = distKm > 0
+    ? (Math.atan2(((toSiteM ?? 0) + toAntennaHeightM) - ((fromSiteM ?? 0) + fromAntennaHeightM), distKm * 1000) * 180) / Math.PI
+    : 0;
+  let txGainDbi = antennaGainTowards(fromEquip, bearingDeg(from, to), elevAngleDeg);
+  let rxGainDbi = antennaGainTowards(toEquip, bearingDeg(to, from), -elevAngleDeg);
 
-  const receivedPowerDbm =
-    txPowerDbm + txGainDbi - fsplDb - terrainLossDb - atmosphericLossDb + rxGainDbi;
+  let propagationMode: PropagationMode = 'TERRESTRIAL';
+  let fsplDb = freespacePathLossDb(distKm, freqMhz);
+  let terrainLoss = terrainLossDb(from, to, freqMhz, opts);
+  let atmosphere = atmosphericLosses(freqMhz, distKm, opts.atmosphere);
+  let atmosphericLossDb = atmosphere.rainLossDb + atmosphere.gasLossDb + atmosphere.cloudLossDb;
+  let hf: Pick<LinkBudget, 'skywaveLossDb' | 'mufMhz' | 'fotMhz'> = {};
+
+  // HF radios: use the skywave path whenever it beats ground wave
+  if (fromEquip?.category === 'HF') {
+    const sky = predictSkywave(
+      from, to, freqMhz, new Date(link.startTime), opts.sunspotNumber ?? DEFAULT_SUNSPOT_NUMBER,
+    );
+    const skyFsplDb = freespacePathLossDb(sky.slantKm, freqMhz);
+    hf = { mufMhz: sky.mufMhz, fotMhz: sky.fotMhz };
+    if (skyFsplDb + sky.skywaveLossDb < fsplDb + terrainLoss + atmosphericLossDb) {
+      propagationMode = sky.mode;
+      fsplDb = skyFsplDb;
+      terrainLoss = 0;
+      atmosphere = { rainLossDb: 0, gasLossDb: 0, cloudLossDb: 0 };
+      atmosphericLossDb = 0;
+      hf.skywaveLossDb = sky.skywaveLossDb;
+    }
+  }
+
+  let receivedPowerDbm =
+    txPowerDbm + txGainDbi - fsplDb - terrainLoss - atmosphericLossDb - (hf.skywaveLossDb ?? 0) + rxGainDbi;
+  let noiseDbm = noiseFloorDbm(link.bandwidthKhz, toEquip?.noiseFigureDb, freqMhz);
+  let satcom: SatcomBudget | undefined;
+
+  // SATCOM: the path goes up to the satellite and down again. The path items
+  // describe the downlink, and the noise floor is referred back from the
+  // end-to-end C/N so that it includes the uplink noise the transponder relays.
+  if (opts.satellite) {
+    const sat = satcomBudget(
+      link,
+      opts.satellite,
+      { position: from, altitudeM: (fromSiteM ?? 0) + fromAntennaHeightM, equip: fromEquip },
+      { position: to, altitudeM: (toSiteM ?? 0) + toAntennaHeightM, equip: toEquip },
+      toEquip?.noiseFigureDb ?? DEFAULT_NOISE_FIGURE_DB,
+      opts.atmosphere,
+    );
+    satcom = sat.satcom;
+    propagationMode = 'SATELLITE';
+    txGainDbi = fromEquip?.antennaGainDbi ?? 0;
+    rxGainDbi = toEquip?.antennaGainDbi ?? 0;
+    fsplDb = satcom.downlink.fsplDb;
+    terrainLoss = 0;
+    atmosphere = {
+      rainLossDb: satcom.downlink.rainLossDb,
+      gasLossDb: satcom.downlink.gasLossDb,
+      cloudLossDb: satcom.downlink.cloudLossDb,
+    };
+    atmosphericLossDb = atmosphere.rainLossDb + atmosphere.gasLossDb + atmosphere.cloudLossDb;
+    receivedPowerDbm = sat.receivedPowerDbm;
+    noiseDbm = receivedPowerDbm - satcom.cnDb;
+  }
 
   const linkMarginDb = receivedPowerDbm - rxSensDbm;
+  const requiredAvailabilityPct = (opts.requiredAvailabilityPct ?? DEFAULT_REQUIRED_AVAILABILITY)[link.netType];
 
   return {
+    propagationMode,
     txPowerDbm,
     txGainDbi,
     rxGainDbi,
     fsplDb,
-    terrainLossDb,
+    terrainLossDb: terrainLoss,
     atmosphericLossDb,
+    ...atmosphere,
+    fromAntennaHeightM,
+    toAntennaHeightM,
+    fromSiteElevationM: fromSiteM ?? undefined,
+    toSiteElevationM: toSiteM ?? undefined,
+    radioHorizonKm: horizonKm,
+    beyondHorizon: propagationMode === 'TERRESTRIAL' && distKm > horizonKm,
+    satcom,
+    ...hf,
     receivedPowerDbm,
     rxSensitivityDbm: rxSensDbm,
     linkMarginDb,
+    noiseFloorDbm: noiseDbm,
+    requiredAvailabilityPct,
     distanceKm: distKm,
-    feasible: linkMarginDb > 0,
+    ...budgetOutcome(
+      link,
+      { propagationMode, terrainLossDb: terrainLoss, requiredAvailabilityPct, satcom },
+      receivedPowerDbm - noiseDbm,
+      linkMarginDb,
+    ),
   };
 }
 
+/** The link seen from its far end: ends, radios and transmit power swapped */
+export function reverseLink(link: RadioLink, toEquip?: RadioEquipment): RadioLink {
+  return {
+    ...link,
+    fromNodeId: link.toNodeId,
+    toNodeId: link.fromNodeId,
+    equipmentFromId: link.equipmentToId,
+    equipmentToId: link.equipmentFromId,
+    txPowerW: link.reverseTxPowerW ?? Math.min(link.txPowerW, toEquip?.maxPowerW ?? link.txPowerW),
+    reverseTxPowerW: link.txPowerW,
+    linkBudget: link.linkBudget?.reverse,
+  };
+}
+
+/** Attach the to → from budget and mark the direction that limits the link */
+export function pairBudgets(forward: LinkBudget, reverse: LinkBudget): LinkBudget {
+  const reverseWorse = forward.feasible !== reverse.feasible
+    ? !reverse.feasible
+    : reverse.fadeMarginDb < forward.fadeMarginDb;
+  return {
+    ...forward,
+    reverse: { ...reverse, reverse: undefined, limitingDirection: undefined },
+    limitingDirection: reverseWorse ? 'REVERSE' : 'FORWARD',
+  };
+}
+
+/** Budget of the direction that limits the link — drives status colours */
+export function limitingBudget(b: LinkBudget): LinkBudget {
+  return b.limitingDirection === 'REVERSE' && b.reverse ? b.reverse : b;
+}
+
+/** Budgets in both directions of a half-duplex link */
+export function calcBidirectionalBudget(
+  from: LatLng,
+  to: LatLng,
+  link: RadioLink,
+  fromEquip?: RadioEquipment,
+  toEquip?: RadioEquipment,
+  opts: PropagationOptions = {},
+): LinkBudget {
+  const forward = calcLinkBudget(from, to, link, fromEquip, toEquip, opts);
+  const reverse = calcLinkBudget(to, from, reverseLink(link, toEquip), toEquip, fromEquip, {
+    ...opts,
+    fromAntennaHeightM: opts.toAntennaHeightM,
+    toAntennaHeightM: opts.fromAntennaHeightM,
+  });
+  return pairBudgets(forward, reverse);
+}
+
 /** Format dB value with sign */
 export function fmtDb(val: number): string {
   return (val >= 0 ? '+' : '') + val.toFixed(1) + ' dB';
@@ -0,0 +1,203 @@
+import type { FrequencyNet, NetMemberRole, NetTopology, RadioLink, RadioNode } from '../types';
+import { defaultBandwidthKhz } from './frequencyAssignment';
+import { equipmentSupports, pickCompatibleEquipment } from './validation';
+import { nanoid } from './id';
+
+export const NET_TOPOLOGY_LABEL: Record<NetTopology, string> = {
+  STAR: 'Stjärna från NCS',
+  MESH: 'Fullt maskat',
+  CHAIN: 'Kedja',
+};
+
+export const NET_ROLE_LABEL: Record<NetMemberRole, string> = {
+  MEMBER: 'Deltagare',
+  LISTEN_ONLY: 'Endast passning',
+  RELAY: 'Relä',
+};
+
+/** Transmit power of a generated link when the net has no link to copy it from, capped at the radio's maximum (W) */
+const DEFAULT_NET_TX_POWER_W = 50;
+
+/** On-air window of a generated link when the net has no link to copy it from (h) */
+const DEFAULT_NET_WINDOW_H = 24;
+
+/** Fields a net's links take from the net, its roles or the radios chosen for it, and the powers that follow the radios */
+const INHERITED: (keyof RadioLink)[] = [
+  'netId', 'netName', 'netType', 'fromNodeId', 'toNodeId', 'frequencyMhz', 'waveform', 'bandwidthKhz', 'equipmentFromId', 'equipmentToId',
+  'txPowerW', 'reverseTxPowerW',
+];
+
+/** Net Control Station: the designated one while it is still a member, else the first member */
+export function netControlStation(net: Pick<FrequencyNet, 'memberNodeIds' | 'ncsNodeId'>): string | undefined {
+  return net.ncsNodeId && net.memberNodeIds.includes(net.ncsNodeId) ? net.ncsNodeId : net.memberNodeIds[0];
+}
+
+export function memberRole(net: Pick<FrequencyNet, 'memberRoles'>, nodeId: string): NetMemberRole {
+  return net.memberRoles?.[nodeId] ?? 'MEMBER';
+}
+
+/** Drop NCS, alternate NCS and roles of nodes that are no longer members */
+export function pruneNetMembers(net: FrequencyNet): FrequencyNet {
+  const isMember = (id: string | undefined) => id !== undefined && net.memberNodeIds.includes(id);
+  return {
+    ...net,
+    ncsNodeId: isMember(net.ncsNodeId) ? net.ncsNodeId : undefined,
+    altNcsNodeId: isMember(net.altNcsNodeId) ? net.altNcsNodeId : undefined,
+    memberRoles: net.memberRoles && Object.fromEntries(Object.entries(net.memberRoles).filter(([id]) => isMember(id))),
+  };
+}
+
+/**
+ * Node pairs the net's topology links, the first of each pair transmitting:
+ * the NCS to every other member (star), every member pair (mesh) or each
+ * member to the next in member order (chain). A listen-only member is always
+ * the receiving end, and two of them are never linked to each other.
+ */
+export function topologyPairs(
+  net: Pick<FrequencyNet, 'memberNodeIds' | 'ncsNodeId' | 'topology' | 'memberRoles'>,
+): [string, string][] {
+  const members = [...new Set(net.memberNodeIds)];
+  let pairs: [string, string][];
+  switch (net.topology) {
+    case 'STAR': {
+      const ncs = netControlStation(net);
+      pairs = members.filter(id => id !== ncs).map(id => [ncs!, id]);
+      break;
+    }
+    case 'MESH':
+      pairs = members.flatMap((a, i) => members.slice(i + 1).map((b): [string, string] => [a, b]));
+      break;
+    case 'CHAIN':
+      pairs = members.slice(1).map((b, i) => [members[i], b]);
+      break;
+    default:
+      return [];
+  }
+  const listens = (id: string) => memberRole(net, id) === 'LISTEN_ONLY';
+  return pairs
+    .filter(([a, b]) => !(listens(a) && listens(b)))
+    .map(([a, b]) => (listens(a) ? [b, a] : [a, b]));
+}
+
+export interface NetLinkSync {
+  links: RadioLink[];    // the whole link list after the sync
+  changedIds: string[];  // added, retuned and removed links, for the budget engine
+}
+
+/**
+ * Bring the links of a topology net in line with its members: one link per
+ * pair in the topology, on the net's primary frequency and waveform. Links
+ * the net generated earlier are kept and retuned where their pair remains and
+ * removed where it does not; hand-made links carrying the net's name are
+ * adopted when they join a pair of the topology and otherwise left alone.
+ * Links ending at a relay are never removed, and a pair that a relay outside
+ * the net already joins through two hand-made hops gets no direct link.
+ * New links copy power and on-air window from the net's existing links.
+ */
+export function syncNetLinks(net: FrequencyNet, links: RadioLink[], nodes: RadioNode[], now: number): NetLinkSync {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const owned = links.filter(l => l.netId === net.id);
+  const adoptable = links.filter(l => !l.netId && !l.satelliteId && l.netName === net.name);
+  const template = owned[0] ?? adoptable[0];
+  const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+  const byPair = new Map<string, RadioLink>();
+  // Generated links first, so a pair already covered by one does not adopt a hand-made duplicate
+  for (const l of [...owned, ...adoptable]) {
+    const key = pairKey(l.fromNodeId, l.toNodeId);
+    if (!byPair.has(key)) byPair.set(key, l);
+  }
+
+  // Relays: members with the relay role, and non-members the net's hand-made links pass through
+  const outsideRelays = new Set(adoptable.flatMap(l => [l.fromNodeId, l.toNodeId]).filter(id => !net.memberNodeIds.includes(id)));
+  const relayIds = new Set([...outsideRelays, ...net.memberNodeIds.filter(id => memberRole(net, id) === 'RELAY')]);
+  const endsAtRelay = (l: RadioLink) => relayIds.has(l.fromNodeId) || relayIds.has(l.toNodeId);
+  const relayed = new Set<string>();
+  for (const relayId of outsideRelays) {
+    // Either hop may have been split off the net's name to get a channel of its own
+    const peers = [...new Set(links.filter(l => !l.netId).flatMap(l =>
+      l.fromNodeId === relayId ? [l.toNodeId] : l.toNodeId === relayId ? [l.fromNodeId] : []))];
+    peers.forEach((a, i) => peers.slice(i + 1).forEach(b => relayed.add(pairKey(a, b))));
+  }
+
+  const inherit = (link: RadioLink): RadioLink => {
+    const tuned: RadioLink = {
+      ...link,
+      netId: net.id,
+      netName: net.name,
+      netType: net.netType,
+      frequencyMhz: net.primaryFreqMhz,
+      waveform: net.waveform,
+      bandwidthKhz: link.waveform === net.waveform ? link.bandwidthKhz : defaultBandwidthKhz(net.waveform),
+    };
+    const fromNode = nodeById.get(link.fromNodeId);
+    const toNode = nodeById.get(link.toNodeId);
+    const fromEquip = fromNode?.equipment.find(e => e.id === link.equipmentFromId);
+    const toEquip = toNode?.equipment.find(e => e.id === link.equipmentToId);
+    if (fromEquip && toEquip && equipmentSupports(fromEquip, tuned) && equipmentSupports(toEquip, tuned)) return tuned;
+    const pair = fromNode && toNode ? pickCompatibleEquipment(fromNode.equipment, toNode.equipment, tuned) : undefined;
+    return pair ? { ...tuned, equipmentFromId: pair.fromEquip.id, equipmentToId: pair.toEquip.id } : tuned;
+  };
+
+  const kept = new Map<string, RadioLink>();
+  const added: RadioLink[] = [];
+  for (const [from, to] of topologyPairs(net)) {
+    const fromNode = nodeById.get(from);
+    const toNode = nodeById.get(to);
+    if (!fromNode || !toNode) continue;
+    const existing = byPair.get(pairKey(from, to));
+    if (!existing && relayed.has(pairKey(from, to))) continue;
+    if (existing) {
+      if (existing.fromNodeId === from) {
+        kept.set(existing.id, inherit(existing));
+        continue;
+      }
+      // A member turned listen-only becomes the receiving end, and the answering power the transmitting one
+      const oriented = inherit({
+        ...existing,
+        fromNodeId: existing.toNodeId,
+        toNodeId: existing.fromNodeId,
+        equipmentFromId: existing.equipmentToId,
+        equipmentToId: existing.equipmentFromId,
+        txPowerW: existing.reverseTxPowerW ?? existing.txPowerW,
+        reverseTxPowerW: existing.txPowerW,
+      });
+      const radio = fromNode.equipment.find(e => e.id === oriented.equipmentFromId);
+      kept.set(existing.id, radio ? { ...oriented, txPowerW: Math.min(oriented.txPowerW, radio.maxPowerW) } : oriented);
+      continue;
+    }
+    const start = template ? template.startTime : new Date(Math.floor(now / 3_600_000) * 3_600_000).toISOString();
+    const link = inherit({
+      id: nanoid(),
+      name: `${net.name} ${fromNode.label}–${toNode.label}`,
+      netName: net.name,
+      netType: net.netType,
+      fromNodeId: from,
+      toNodeId: to,
+      frequencyMhz: net.primaryFreqMhz,
+      bandwidthKhz: template?.waveform === net.waveform ? template.bandwidthKhz : defaultBandwidthKhz(net.waveform),
+      waveform: net.waveform,
+      txPowerW: template?.txPowerW ?? DEFAULT_NET_TX_POWER_W,
+      startTime: start,
+      endTime: template ? template.endTime : new Date(Date.parse(start) + DEFAULT_NET_WINDOW_H * 3_600_000).toISOString(),
+      status: 'planned',
+    });
+    const radio = fromNode.equipment.find(e => e.id === link.equipmentFromId);
+    added.push(radio ? { ...link, txPowerW: Math.min(link.txPowerW, radio.maxPowerW) } : link);
+  }
+
+  const changedIds = added.map(l => l.id);
+  const next = links.flatMap(l => {
+    const synced = kept.get(l.id);
+    if (synced) {
+      if (!INHERITED.some(k => synced[k] !== l[k])) return [l];
+      changedIds.push(l.id);
+      return [synced];
+    }
+    if (l.netId === net.id && !endsAtRelay(l)) {
+      changedIds.push(l.id);
+      return [];
+    }
+    return [l];
+  });
+  return { links: [...next, ...added], changedIds };
+}
@@ -0,0 +1,50 @@
+import type { RadioLink } from '../types';
+
+/** Longest slot offered when nothing else is planned on the channel later on */
+export const MAX_SEED_HOURS = 24;
+
+/** A channel over a time window, free for a new link */
+export interface SpectrumTimeSlot {
+  frequencyMhz: number;
+  bandwidthKhz: number;
+  start: number;   // ms
+  end: number;     // ms
+}
+
+/** Channel raster a seeded frequency snaps to: 5 kHz on HF, 25 kHz on VHF/UHF, 100 kHz above 1 GHz (MHz) */
+export function rasterMhz(mhz: number): number {
+  if (mhz < 30) return 0.005;
+  if (mhz < 1000) return 0.025;
+  return 0.1;
+}
+
+/** Occupied bandwidth a seeded link starts with: an SSB channel on HF, a 25 kHz channel above (kHz) */
+export function seedBandwidthKhz(mhz: number): number {
+  return mhz < 30 ? 3 : 25;
+}
+
+/**
+ * The free slot on the channel at `frequencyMhz` that contains `atMs`: from
+ * the end of the last link occupying the channel before it (or `atMs`
+ * rounded down to the hour) to the start of the next one, at most
+ * MAX_SEED_HOURS long. Null when a link already occupies the channel then.
+ */
+export function freeSlotAt(links: RadioLink[], frequencyMhz: number, atMs: number): SpectrumTimeSlot | null {
+  const step = rasterMhz(frequencyMhz);
+  const f = Math.round(frequencyMhz / step) * step;
+  const bandwidthKhz = seedBandwidthKhz(f);
+  const onChannel = links.filter(l =>
+    Math.abs(l.frequencyMhz - f) * 1000 < (l.bandwidthKhz + bandwidthKhz) / 2);
+
+  let start = Math.floor(atMs / 3_600_000) * 3_600_000;
+  let end = Infinity;
+  for (const l of onChannel) {
+    const s = Date.parse(l.startTime);
+    const e = Date.parse(l.endTime);
+    if (s <= atMs && atMs < e) return null;
+    if (e <= atMs) start = Math.max(start, e);
+    else end = Math.min(end, s);
+  }
+  end = Math.min(end, start + MAX_SEED_HOURS * 3_600_000);
+  return { frequencyMhz: Number(f.toFixed(6)), bandwidthKhz, start, end };
+}
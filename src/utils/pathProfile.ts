@@ -0,0 +1,60 @@
+import type { LatLng } from '../types';
+import type { ElevationSource } from './terrain';
+import { DEFAULT_K_FACTOR, earthBulgeM, terrainProfile } from './terrain';
+import { fresnelRadiusM } from './linkBudget';
+
+export interface PathProfileSample {
+  distKm: number;
+  groundM: number;   // terrain + earth bulge, relative to the chord's MSL datum
+  losM: number;      // straight line between the two antenna tips
+  fresnelM: number;  // first Fresnel zone radius
+  clearanceM: number; // losM − groundM (negative = obstructed)
+}
+
+export interface PathProfileAnalysis {
+  samples: PathProfileSample[];
+  txAntennaM: number;
+  rxAntennaM: number;
+  /** Point with the least Fresnel clearance */
+  worst: PathProfileSample & { clearancePct: number };
+}
+
+/**
+ * Earth-curvature corrected path profile with line of sight and first Fresnel zone.
+ * Clearance is expressed as percent of F1 radius — 60 % or more is the usual
+ * planning target, 0 % means the ray grazes terrain and negative means blocked.
+ */
+export function analyzePathProfile(
+  from: LatLng,
+  to: LatLng,
+  freqMhz: number,
+  source: ElevationSource,
+  txHeightM: number,
+  rxHeightM: number,
+  kFactor = DEFAULT_K_FACTOR,
+): PathProfileAnalysis {
+  const profile = terrainProfile(from, to, source);
+  const totalKm = profile[profile.length - 1].distKm;
+  const txAntennaM = profile[0].elevationM + txHeightM;
+  const rxAntennaM = profile[profile.length - 1].elevationM + rxHeightM;
+
+  const samples = profile.map(p => {
+    const t = totalKm > 0 ? p.distKm / totalKm : 0;
+    const groundM = p.elevationM + earthBulgeM(p.distKm, totalKm - p.distKm, kFactor);
+    const losM = txAntennaM + (rxAntennaM - txAntennaM) * t;
+    return {
+      distKm: p.distKm,
+      groundM,
+      losM,
+      fresnelM: fresnelRadiusM(p.distKm, totalKm - p.distKm, freqMhz),
+      clearanceM: losM - groundM,
+    };
+  });
+
+  let worst = { ...samples[Math.floor(samples.length / 2)], clearancePct: Infinity };
+  for (const s of samples.slice(1, -1)) {
+    const pct = s.fresnelM > 0 ? (s.clearanceM / s.fresnelM) * 100 : Infinity;
+    if (pct < worst.clearancePct) worst = { ...s, clearancePct: pct };
+  }
+  return { samples, txAntennaM, rxAntennaM, worst };
+}
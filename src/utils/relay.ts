@@ -0,0 +1,115 @@
+import type { LatLng, LinkBudget, RadioEquipment, RadioLink } from '../types';
+import type { PropagationOptions } from './linkBudget';
+import { calcBidirectionalBudget, limitingBudget } from './linkBudget';
+import type { LinkEnds } from './interference';
+import { bearingDeg, destPoint, haversineKm } from './geo';
+import { FLAT_ELEVATION } from './terrain';
+
+/** Margin both hops must keep for a relay site to be suggested (dB) */
+export const DEFAULT_RELAY_MARGIN_DB = 6;
+
+/** Mast height of the relay vehicle (m) */
+export const RELAY_MAST_HEIGHT_M = 10;
+
+/** Search grid: along-path fractions and cross-track offsets as a fraction of the path length */
+const ALONG_STEPS = [0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8];
+const CROSS_STEPS = [-0.4, -0.3, -0.2, -0.1, 0, 0.1, 0.2, 0.3, 0.4];
+
+/** A place where a relay closes both hops */
+export interface RelaySuggestion {
+  position: LatLng;
+  siteElevationM?: number;
+  relayEquipId: string;
+  hop1: LinkBudget;      // original transmitter → relay, both directions
+  hop2: LinkBudget;      // relay → original receiver, both directions
+  minMarginDb: number;   // the weakest hop and direction
+}
+
+/**
+ * Catalogue radio that can relay the link: covers the frequency, preferably
+ * the same category as the transmitting radio, then the most powerful.
+ */
+export function pickRelayRadio(
+  catalog: RadioEquipment[],
+  link: Pick<RadioLink, 'frequencyMhz'>,
+  prefer?: RadioEquipment,
+): RadioEquipment | undefined {
+  return catalog
+    .filter(e => e.category !== 'SATCOM' && e.freqMin <= link.frequencyMhz && link.frequencyMhz <= e.freqMax)
+    .sort((a, b) =>
+      Number(b.category === prefer?.category) - Number(a.category === prefer?.category) || b.maxPowerW - a.maxPowerW)[0];
+}
+
+/** Highest ground within a small radius, so suggestions land on hilltops rather than grid points */
+function highestNearby(p: LatLng, radiusKm: number, opts: PropagationOptions): { position: LatLng; elevationM?: number } {
+  const elevation = opts.elevation ?? FLAT_ELEVATION;
+  let best = { position: p, elevationM: elevation.elevationAt(p) ?? undefined };
+  for (let brg = 0; brg < 360; brg += 45) {
+    const q = destPoint(p, brg, radiusKm);
+    const h = elevation.elevationAt(q);
+    if (h !== null && h > (best.elevationM ?? -Infinity)) best = { position: q, elevationM: h };
+  }
+  return best;
+}
+
+/**
+ * Search an ellipse of candidate points around a failing path for relay sites
+ * where both hops close with `requiredMarginDb` in both directions. Ranked by
+ * the weakest hop and direction; suggestions closer than a grid step to a
+ * better one are dropped.
+ */
+export function findRelaySites(
+  link: RadioLink,
+  ends: LinkEnds,
+  relayEquip: RadioEquipment,
+  opts: PropagationOptions = {},
+  requiredMarginDb = DEFAULT_RELAY_MARGIN_DB,
+  maxResults = 5,
+): RelaySuggestion[] {
+  const distKm = haversineKm(ends.from, ends.to);
+  if (distKm <= 0) return [];
+  const brg = bearingDeg(ends.from, ends.to);
+  const stepKm = distKm * 0.1;
+  // The relay answers hop 1 and transmits hop 2 at the power its radio allows
+  const hop1Link: RadioLink = { ...link, reverseTxPowerW: undefined };
+  const hop2Link: RadioLink = { ...link, txPowerW: Math.min(link.txPowerW, relayEquip.maxPowerW) };
+  const closes = (b: LinkBudget) => {
+    const worst = limitingBudget(b);
+    return worst.feasible && worst.effectiveMarginDb >= requiredMarginDb;
+  };
+
+  const found: RelaySuggestion[] = [];
+  for (const along of ALONG_STEPS) {
+    const onPath = destPoint(ends.from, brg, distKm * along);
+    for (const cross of CROSS_STEPS) {
+      const grid = cross === 0 ? onPath : destPoint(onPath, brg + (cross > 0 ? 90 : -90), Math.abs(cross) * distKm);
+      const site = highestNearby(grid, stepKm / 2, opts);
+
+      const hop1 = calcBidirectionalBudget(ends.from, site.position, hop1Link, ends.fromEquip, relayEquip, {
+        ...opts, fromAntennaHeightM: ends.fromAntennaHeightM, toAntennaHeightM: RELAY_MAST_HEIGHT_M,
+      });
+      if (!closes(hop1)) continue;
+      const hop2 = calcBidirectionalBudget(site.position, ends.to, hop2Link, relayEquip, ends.toEquip, {
+        ...opts, fromAntennaHeightM: RELAY_MAST_HEIGHT_M, toAntennaHeightM: ends.toAntennaHeightM,
+      });
+      if (!closes(hop2)) continue;
+
+      found.push({
+        position: site.position,
+        siteElevationM: site.elevationM,
+        relayEquipId: relayEquip.id,
+        hop1,
+        hop2,
+        minMarginDb: Math.min(limitingBudget(hop1).effectiveMarginDb, limitingBudget(hop2).effectiveMarginDb),
+      });
+    }
+  }
+
+  const ranked: RelaySuggestion[] = [];
+  for (const s of found.sort((a, b) => b.minMarginDb - a.minMarginDb)) {
+    if (ranked.some(r => haversineKm(r.position, s.position) < stepKm)) continue;
+    ranked.push(s);
+    if (ranked.length >= maxResults) break;
+  }
+  return ranked;
+}
@@ -1,5 +1,9 @@
-import type { Unit, RadioNode, RadioLink, FrequencyNet, RadioEquipment } from '../types';
+import type {
+  Unit, RadioNode, RadioLink, FrequencyNet, RadioEquipment, AntennaPattern, Satellite, FrequencyPoolBand,
+  FrequencyPlan, Hopset,
+} from '../types';
 import { nanoid } from './id';
+import { syntheticPattern } from './antenna';
 
 // ── Sample Radio Equipment ─────────────────────────────────────────────────
 export const EQUIPMENT_CATALOG: RadioEquipment[] = [
@@ -11,7 +15,10 @@ export const EQUIPMENT_CATALOG: RadioEquipment[] = [
     freqMin: 30,
     freqMax: 88,
     maxPowerW: 50,
+    waveforms: ['FM', 'FSK'],
+    bandwidthsKhz: [25],
     rxSensitivityDbm: -113,
+    noiseFigureDb: 8,
     antennaGainDbi: 2,
     description: 'Markbunden VHF-radio',
   },
@@ -23,7 +30,10 @@ export const EQUIPMENT_CATALOG: RadioEquipment[] = [
     freqMin: 30,
     freqMax: 512,
     maxPowerW: 100,
+    waveforms: ['FM', 'AM', 'FSK', 'PSK'],
+    bandwidthsKhz: [12.5, 25],
     rxSensitivityDbm: -110,
+    noiseFigureDb: 8,
     antennaGainDbi: 3,
     description: 'VHF/UHF multibands-radio',
   },
@@ -35,7 +45,10 @@ export const EQUIPMENT_CATALOG: RadioEquipment[] = [
     freqMin: 2,
     freqMax: 30,
     maxPowerW: 200,
+    waveforms: ['USB', 'LSB', 'AM', 'FSK', 'PSK'],
+    bandwidthsKhz: [3, 6],
     rxSensitivityDbm: -120,
+    noiseFigureDb: 12,
     antennaGainDbi: 0,
     description: 'Kortvågsradio för lång räckvidd',
   },
@@ -47,7 +60,10 @@ export const EQUIPMENT_CATALOG: RadioEquipment[] = [
     freqMin: 225,
     freqMax: 512,
     maxPowerW: 5,
+    waveforms: ['FM', 'AM', 'PSK'],
+    bandwidthsKhz: [12.5, 25],
     rxSensitivityDbm: -108,
+    noiseFigureDb: 10,
     antennaGainDbi: 0,
     description: 'Manuportabel UHF-radio',
   },
@@ -59,15 +75,81 @@ export const EQUIPMENT_CATALOG: RadioEquipment[] = [
     freqMin: 1525,
     freqMax: 1660,
     maxPowerW: 20,
+    waveforms: ['PSK', 'QAM'],
+    bandwidthsKhz: [100, 200, 500, 1000],
     rxSensitivityDbm: -105,
+    noiseFigureDb: 2,
     antennaGainDbi: 12,
+    minElevationDeg: 15,
     description: 'Satellitkommunikationsterminal',
   },
 ];
 
+// ── Built-in antenna patterns ───────────────────────────────────────────────
+export const ANTENNA_PATTERNS: AntennaPattern[] = [
+  syntheticPattern('Log-periodisk 30–512 MHz', 7, 70, 15),
+  syntheticPattern('Sektor 120°', 10, 120, 20, 30),
+  syntheticPattern('Yagi 5-element', 9, 55, 18, 50),
+];
+
+// ── Satellite catalogue ─────────────────────────────────────────────────────
+export const SATELLITES: Satellite[] = [
+  {
+    id: 'sat_geo_l',
+    name: 'GEO L-band 25°E',
+    orbit: 'GEO',
+    longitudeDeg: 25,
+    uplinkOffsetMhz: 101.5,
+    gtDbK: 10,
+    rxGainDbi: 41,
+    transponderGainDb: 174,
+    saturatedEirpDbw: 50,
+  },
+  {
+    id: 'sat_heo_1',
+    name: 'HEO Molnija-bana',
+    orbit: 'TLE',
+    tle: {
+      line1: '1 90001U 26001A   26290.50000000  .00000000  00000-0  00000-0 0  9993',
+      line2: '2 90001  63.4000 250.0000 7200000 270.0000  10.0000  2.00600000  1055',
+    },
+    uplinkOffsetMhz: 101.5,
+    gtDbK: 0,
+    rxGainDbi: 30,
+    transponderGainDb: 170,
+    saturatedEirpDbw: 42,
+  },
+];
+
+// ── Frequency pool ──────────────────────────────────────────────────────────
+export const FREQUENCY_POOL: FrequencyPoolBand[] = [
+  { id: 'pool_hf', label: 'HF', minMhz: 2, maxMhz: 12, channelSpacingKhz: 5, guardBandKhz: 2, reuseDistanceKm: 1000 },
+  { id: 'pool_vhf', label: 'VHF', minMhz: 30, maxMhz: 88, channelSpacingKhz: 25, guardBandKhz: 0, reuseDistanceKm: 40 },
+  { id: 'pool_uhf', label: 'UHF', minMhz: 225, maxMhz: 400, channelSpacingKhz: 25, guardBandKhz: 0, reuseDistanceKm: 30 },
+];
+
+// ── Frequency plan ──────────────────────────────────────────────────────────
+export const FREQUENCY_PLAN: FrequencyPlan = {
+  name: 'Exempelplan',
+  entries: [
+    { id: 'fp_hf', kind: 'ALLOTTED', minMhz: 2, maxMhz: 30, label: 'HF' },
+    { id: 'fp_vhf', kind: 'ALLOTTED', minMhz: 30, maxMhz: 87.5, label: 'VHF låg' },
+    { id: 'fp_fm', kind: 'CIVIL', minMhz: 87.5, maxMhz: 108, label: 'FM-rundradio' },
+    { id: 'fp_air', kind: 'CIVIL', minMhz: 108, maxMhz: 137, label: 'Civil luftfart' },
+    { id: 'fp_uhf', kind: 'ALLOTTED', minMhz: 225, maxMhz: 400, label: 'UHF' },
+    { id: 'fp_lband', kind: 'ALLOTTED', minMhz: 1525, maxMhz: 1660, label: 'L-band SATCOM' },
+    { id: 'fp_sos_hf', kind: 'PROTECTED', minMhz: 2.182, maxMhz: 2.182, label: 'Sjönöd' },
+    { id: 'fp_sos_uhf', kind: 'PROTECTED', minMhz: 243, maxMhz: 243, label: 'Militär flygnöd' },
+    {
+      id: 'fp_onsala', kind: 'PROTECTED', minMhz: 73, maxMhz: 74.6, label: 'Radioastronomi Onsala',
+      region: { south: 56.9, west: 11.4, north: 57.9, east: 12.6 },
+    },
+  ],
+};
+
 // ── Helper ──────────────────────────────────────────────────────────────────
-function eq(id: string): RadioEquipment {
-  return EQUIPMENT_CATALOG.find(e => e.id === id)!;
+function eq(id: string, mount: Partial<RadioEquipment> = {}): RadioEquipment {
+  return { ...EQUIPMENT_CATALOG.find(e => e.id === id)!, ...mount };
 }
 
 // ── Sample Units ────────────────────────────────────────────────────────────
@@ -87,8 +169,10 @@ export const INITIAL_UNITS: Unit[] = [
         callSign: 'ALFA 01',
         type: 'CV90C2',
         position: { lat: 59.33, lng: 18.07 },
-        equipment: [eq('ra190'), eq('hf3000'), eq('satcom1')],
+        equipment: [eq('ra190', { mastMounted: true }), eq('hf3000'), eq('satcom1')],
         unitId: 'u_stab',
+        mastHeightM: 12,
+        mastUp: true,
       },
     ],
   },
@@ -108,8 +192,10 @@ export const INITIAL_UNITS: Unit[] = [
         callSign: 'BRAVO 01',
         type: 'Pansarbandvagn 302',
         position: { lat: 59.36, lng: 18.04 },
-        equipment: [eq('ra190'), eq('ra180')],
+        equipment: [eq('ra190', { mastMounted: true }), eq('ra180')],
         unitId: 'u_1mek',
+        mastHeightM: 10,
+        mastUp: false,
       },
       {
         id: 'v_1mek_k1',
@@ -138,8 +224,10 @@ export const INITIAL_UNITS: Unit[] = [
         callSign: 'CHARLIE 01',
         type: 'Pansarbandvagn 302',
         position: { lat: 59.30, lng: 18.12 },
-        equipment: [eq('ra190'), eq('hf3000')],
+        equipment: [eq('ra190', { mastMounted: true }), eq('hf3000')],
         unitId: 'u_2mek',
+        mastHeightM: 10,
+        mastUp: false,
       },
       {
         id: 'v_2mek_k1',
@@ -168,8 +256,10 @@ export const INITIAL_UNITS: Unit[] = [
         callSign: 'DELTA 01',
         type: 'Terrängbil 6x6',
         position: { lat: 59.325, lng: 18.09 },
-        equipment: [eq('ra190'), eq('hf3000'), eq('satcom1')],
+        equipment: [eq('ra190', { mastMounted: true }), eq('hf3000'), eq('satcom1')],
         unitId: 'u_signal',
+        mastHeightM: 18,
+        mastUp: true,
       },
     ],
   },
@@ -295,6 +385,7 @@ export const INITIAL_LINKS: RadioLink[] = [
     toNodeId: 'v_sig_radio',
     equipmentFromId: 'satcom1',
     equipmentToId: 'satcom1',
+    satelliteId: 'sat_geo_l',
     frequencyMhz: 1545.0,
     bandwidthKhz: 500,
     waveform: 'PSK',
@@ -306,6 +397,26 @@ export const INITIAL_LINKS: RadioLink[] = [
   },
 ];
 
+// ── Sample Hopsets ──────────────────────────────────────────────────────────
+export const INITIAL_HOPSETS: Hopset[] = [
+  {
+    id: 'hs_vhf_full',
+    name: 'HS1 VHF',
+    channelSpacingKhz: 25,
+    ranges: [{ minMhz: 30, maxMhz: 87.475 }],
+    frequenciesMhz: [],
+    lockouts: [{ minMhz: 45.4, maxMhz: 46.1 }, { minMhz: 68.2, maxMhz: 68.3 }],
+  },
+  {
+    id: 'hs_vhf_low',
+    name: 'HS2 VHF låg',
+    channelSpacingKhz: 25,
+    ranges: [{ minMhz: 30, maxMhz: 44.975 }, { minMhz: 50, maxMhz: 59.975 }],
+    frequenciesMhz: [62.5, 63.75],
+    lockouts: [],
+  },
+];
+
 // ── Sample Frequency Nets ───────────────────────────────────────────────────
 export const INITIAL_NETS: FrequencyNet[] = [
   {
@@ -317,6 +428,9 @@ export const INITIAL_NETS: FrequencyNet[] = [
     netType: 'COMMAND',
     memberNodeIds: ['v_stab1', 'v_1mek_stab', 'v_2mek_stab'],
     color: '#ef4444',
+    hopsetId: 'hs_vhf_full',
+    hopNetId: 12,
+    hopRate: 'MEDIUM',
   },
   {
     id: 'net_log',
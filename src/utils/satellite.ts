@@ -0,0 +1,266 @@
+import type {
+  AtmosphereSettings, LatLng, LookAngles, RadioEquipment, RadioLink, Satellite, SatcomBudget, SatcomHop,
+  TwoLineElements,
+} from '../types';
+import { slantPathLosses } from './atmosphere';
+
+// Bent-pipe satellite links: two-body orbit propagation, look angles from the
+// WGS84 ellipsoid, and separate uplink/downlink C/N0 combined end to end.
+// Kepler propagation ignores J2 and drag, so TLE positions drift after a few days.
+
+const WGS84_A_KM = 6378.137;
+const WGS84_E2 = 0.00669437999014;
+const GEO_RADIUS_KM = 42164.17;
+const MU_KM3_S2 = 398600.4418;
+/** Boltzmann's constant, −10·log₁₀(k) in dBW/K/Hz */
+const BOLTZMANN_DB = 228.6;
+/** Sky plus ground spill-over seen by a small terminal antenna (K) */
+const TERMINAL_ANTENNA_TEMP_K = 80;
+
+/** Lowest look angle assumed for a terminal that does not state one */
+export const DEFAULT_MIN_ELEVATION_DEG = 10;
+
+/** Spacing of the look-angle checks across the window of a TLE satellite link (ms) */
+const WINDOW_STEP_MS = 5 * 60_000;
+/** Most look-angle checks made across one window */
+const MAX_WINDOW_SAMPLES = 288;
+
+type Vec3 = [number, number, number];
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/** Keplerian elements read from a two-line element set */
+export interface OrbitalElements {
+  epoch: Date;
+  inclinationDeg: number;
+  raanDeg: number;
+  eccentricity: number;
+  argPerigeeDeg: number;
+  meanAnomalyDeg: number;
+  meanMotionRevDay: number;
+}
+
+/** Parse a TLE by its fixed columns */
+export function parseTle(tle: TwoLineElements): OrbitalElements {
+  const l1 = tle.line1.trimEnd();
+  const l2 = tle.line2.trimEnd();
+  if (!l1.startsWith('1 ') || !l2.startsWith('2 ') || l1.length < 32 || l2.length < 63) {
+    throw new Error('Ogiltig TLE: förväntar två rader som börjar med "1 " och "2 "');
+  }
+  const num = (s: string) => {
+    const v = Number(s.trim());
+    if (!Number.isFinite(v)) throw new Error(`Ogiltig TLE: kan inte tolka "${s.trim()}"`);
+    return v;
+  };
+
+  const yy = num(l1.slice(18, 20));
+  const dayOfYear = num(l1.slice(20, 32));
+  const year = yy < 57 ? 2000 + yy : 1900 + yy;
+  const epoch = new Date(Date.UTC(year, 0, 1) + (dayOfYear - 1) * 86400000);
+
+  return {
+    epoch,
+    inclinationDeg: num(l2.slice(8, 16)),
+    raanDeg: num(l2.slice(17, 25)),
+    eccentricity: num(`0.${l2.slice(26, 33).trim()}`),
+    argPerigeeDeg: num(l2.slice(34, 42)),
+    meanAnomalyDeg: num(l2.slice(43, 51)),
+    meanMotionRevDay: num(l2.slice(52, 63)),
+  };
+}
+
+/** Greenwich mean sidereal time (rad) */
+function gmstRad(time: Date): number {
+  const days = time.getTime() / 86400000 + 2440587.5 - 2451545;
+  return rad((280.46061837 + 360.98564736629 * days) % 360);
+}
+
+/** Two-body position in Earth-fixed coordinates (km) at the given time */
+export function propagateTle(el: OrbitalElements, time: Date): Vec3 {
+  const n = (el.meanMotionRevDay * 2 * Math.PI) / 86400; // rad/s
+  const a = Math.cbrt(MU_KM3_S2 / (n * n));
+  const dt = (time.getTime() - el.epoch.getTime()) / 1000;
+  const e = el.eccentricity;
+  const m = rad(el.meanAnomalyDeg) + n * dt;
+
+  // Kepler's equation by Newton iteration
+  let ea = e < 0.8 ? m : Math.PI;
+  for (let i = 0; i < 20; i++) {
+    const d = (ea - e * Math.sin(ea) - m) / (1 - e * Math.cos(ea));
+    ea -= d;
+    if (Math.abs(d) < 1e-10) break;
+  }
+  const xp = a * (Math.cos(ea) - e);
+  const yp = a * Math.sqrt(1 - e * e) * Math.sin(ea);
+
+  // Perifocal → inertial
+  const [cw, sw] = [Math.cos(rad(el.argPerigeeDeg)), Math.sin(rad(el.argPerigeeDeg))];
+  const [co, so] = [Math.cos(rad(el.raanDeg)), Math.sin(rad(el.raanDeg))];
+  const [ci, si] = [Math.cos(rad(el.inclinationDeg)), Math.sin(rad(el.inclinationDeg))];
+  const x = (co * cw - so * sw * ci) * xp + (-co * sw - so * cw * ci) * yp;
+  const y = (so * cw + co * sw * ci) * xp + (-so * sw + co * cw * ci) * yp;
+  const z = sw * si * xp + cw * si * yp;
+
+  // Inertial → Earth-fixed
+  const g = gmstRad(time);
+  return [Math.cos(g) * x + Math.sin(g) * y, -Math.sin(g) * x + Math.cos(g) * y, z];
+}
+
+/** Earth-fixed satellite position (km) */
+export function satellitePositionKm(sat: Satellite, time: Date): Vec3 {
+  if (sat.orbit === 'TLE' && sat.tle) return propagateTle(parseTle(sat.tle), time);
+  const lon = rad(sat.longitudeDeg ?? 0);
+  return [GEO_RADIUS_KM * Math.cos(lon), GEO_RADIUS_KM * Math.sin(lon), 0];
+}
+
+/** Earth-fixed position (km) of a point on the WGS84 ellipsoid */
+function stationKm(pos: LatLng, altM: number): Vec3 {
+  const lat = rad(pos.lat), lon = rad(pos.lng);
+  const nRad = WGS84_A_KM / Math.sqrt(1 - WGS84_E2 * Math.sin(lat) ** 2);
+  const h = altM / 1000;
+  return [
+    (nRad + h) * Math.cos(lat) * Math.cos(lon),
+    (nRad + h) * Math.cos(lat) * Math.sin(lon),
+    (nRad * (1 - WGS84_E2) + h) * Math.sin(lat),
+  ];
+}
+
+/** Azimuth, elevation and slant range from a ground position to a satellite */
+export function lookAngles(pos: LatLng, altM: number, satKm: Vec3): LookAngles {
+  const st = stationKm(pos, altM);
+  const [dx, dy, dz] = [satKm[0] - st[0], satKm[1] - st[1], satKm[2] - st[2]];
+  const lat = rad(pos.lat), lon = rad(pos.lng);
+  const east = -Math.sin(lon) * dx + Math.cos(lon) * dy;
+  const north = -Math.sin(lat) * Math.cos(lon) * dx - Math.sin(lat) * Math.sin(lon) * dy + Math.cos(lat) * dz;
+  const up = Math.cos(lat) * Math.cos(lon) * dx + Math.cos(lat) * Math.sin(lon) * dy + Math.sin(lat) * dz;
+  const slantKm = Math.hypot(dx, dy, dz);
+  return {
+    azimuthDeg: (deg(Math.atan2(east, north)) + 360) % 360,
+    elevationDeg: deg(Math.asin(up / slantKm)),
+    slantKm,
+  };
+}
+
+/** Terminal G/T (dB/K) from antenna gain and receiver noise figure */
+export function terminalGtDbK(equip: RadioEquipment | undefined, noiseFigureDb: number): number {
+  const tSys = TERMINAL_ANTENNA_TEMP_K + 290 * (Math.pow(10, noiseFigureDb / 10) - 1);
+  return (equip?.antennaGainDbi ?? 0) - 10 * Math.log10(tSys);
+}
+
+/** Ground end of a satellite link */
+export interface SatcomTerminal {
+  position: LatLng;
+  altitudeM: number;  // antenna above MSL
+  equip?: RadioEquipment;
+}
+
+/**
+ * Times across a link's window to check the look angles at. A geostationary
+ * satellite stays put, so its start time stands for the whole window.
+ */
+function windowSamples(sat: Satellite, startIso: string, endIso: string): number[] {
+  const start = Date.parse(startIso);
+  const end = Date.parse(endIso);
+  if (sat.orbit !== 'TLE' || !(end > start)) return [start];
+  const step = Math.max(WINDOW_STEP_MS, (end - start) / MAX_WINDOW_SAMPLES);
+  const times: number[] = [];
+  for (let t = start; t < end; t += step) times.push(t);
+  times.push(end);
+  return times;
+}
+
+/** Sum of C/N0 values (dBHz) in cascade: noise powers add */
+function cascadeCn0(...cn0DbHz: number[]): number {
+  return -10 * Math.log10(cn0DbHz.reduce((s, c) => s + Math.pow(10, -c / 10), 0));
+}
+
+function hopLosses(freqMhz: number, look: LookAngles, altM: number, atm?: AtmosphereSettings) {
+  const fsplDb = 20 * Math.log10(look.slantKm) + 20 * Math.log10(freqMhz) + 32.44;
+  const air = slantPathLosses(freqMhz, look.elevationDeg, atm, altM / 1000);
+  return { fsplDb, ...air, totalDb: fsplDb + air.rainLossDb + air.gasLossDb + air.cloudLossDb };
+}
+
+/**
+ * Uplink and downlink budgets through a bent-pipe transponder. Terminal
+ * antennas are pointed at the satellite, so they work at peak gain. The look
+ * angles are checked across the link's window and the hops worked out at its
+ * worst moment, where one terminal sees the satellite lowest against its
+ * minimum elevation. Returns the end-to-end budget and the carrier power at
+ * the receiving terminal.
+ */
+export function satcomBudget(
+  link: Pick<RadioLink, 'frequencyMhz' | 'bandwidthKhz' | 'txPowerW' | 'startTime' | 'endTime'>,
+  sat: Satellite,
+  tx: SatcomTerminal,
+  rx: SatcomTerminal,
+  rxNoiseFigureDb: number,
+  atm?: AtmosphereSettings,
+): { satcom: SatcomBudget; receivedPowerDbm: number } {
+  const upMhz = link.frequencyMhz + sat.uplinkOffsetMhz;
+  const downMhz = link.frequencyMhz;
+  const upMin = tx.equip?.minElevationDeg ?? DEFAULT_MIN_ELEVATION_DEG;
+  const downMin = rx.equip?.minElevationDeg ?? DEFAULT_MIN_ELEVATION_DEG;
+
+  const samples = windowSamples(sat, link.startTime, link.endTime);
+  let worst: { time: number; headroomDeg: number; satKm: Vec3 } | undefined;
+  let visible = 0;
+  for (const time of samples) {
+    const satKm = satellitePositionKm(sat, new Date(time));
+    const headroomDeg = Math.min(
+      lookAngles(tx.position, tx.altitudeM, satKm).elevationDeg - upMin,
+      lookAngles(rx.position, rx.altitudeM, satKm).elevationDeg - downMin,
+    );
+    if (headroomDeg >= 0) visible++;
+    if (!worst || headroomDeg < worst.headroomDeg) worst = { time, headroomDeg, satKm };
+  }
+  const { time, satKm } = worst!;
+
+  const upLook = lookAngles(tx.position, tx.altitudeM, satKm);
+  const upLoss = hopLosses(upMhz, upLook, tx.altitudeM, atm);
+  const txEirpDbw = 10 * Math.log10(link.txPowerW) + (tx.equip?.antennaGainDbi ?? 0);
+  const upCn0 = txEirpDbw - upLoss.totalDb + sat.gtDbK + BOLTZMANN_DB;
+
+  // Transponder: input power times gain, limited by saturation
+  const satInputDbw = txEirpDbw - upLoss.totalDb + sat.rxGainDbi;
+  const satEirpDbw = Math.min(sat.saturatedEirpDbw, satInputDbw + sat.transponderGainDb);
+
+  const downLook = lookAngles(rx.position, rx.altitudeM, satKm);
+  const downLoss = hopLosses(downMhz, downLook, rx.altitudeM, atm);
+  const rxGtDbK = terminalGtDbK(rx.equip, rxNoiseFigureDb);
+  const downCn0 = satEirpDbw - downLoss.totalDb + rxGtDbK + BOLTZMANN_DB;
+
+  const hop = (
+    frequencyMhz: number, look: LookAngles, minElevationDeg: number, eirpDbw: number,
+    loss: ReturnType<typeof hopLosses>, gtDbK: number, cn0DbHz: number,
+  ): SatcomHop => ({
+    frequencyMhz,
+    look,
+    minElevationDeg,
+    belowMinElevation: look.elevationDeg < minElevationDeg,
+    eirpDbw,
+    fsplDb: loss.fsplDb,
+    rainLossDb: loss.rainLossDb,
+    gasLossDb: loss.gasLossDb,
+    cloudLossDb: loss.cloudLossDb,
+    gtDbK,
+    cn0DbHz,
+  });
+  const uplink = hop(upMhz, upLook, upMin, txEirpDbw, upLoss, sat.gtDbK, upCn0);
+  const downlink = hop(downMhz, downLook, downMin, satEirpDbw, downLoss, rxGtDbK, downCn0);
+  const cn0DbHz = cascadeCn0(upCn0, downCn0);
+
+  return {
+    satcom: {
+      satelliteId: sat.id,
+      uplink,
+      downlink,
+      cn0DbHz,
+      cnDb: cn0DbHz - 10 * Math.log10(Math.max(link.bandwidthKhz, 0.1) * 1000),
+      belowMinElevation: uplink.belowMinElevation || downlink.belowMinElevation,
+      evaluatedAt: Number.isFinite(time) ? new Date(time).toISOString() : link.startTime,
+      visiblePct: (visible / samples.length) * 100,
+    },
+    receivedPowerDbm: satEirpDbw + 30 - downLoss.totalDb + (rx.equip?.antennaGainDbi ?? 0),
+  };
+}
@@ -0,0 +1,120 @@
+/** Whole range the spectrum view can show (MHz) */
+export const SPECTRUM_MIN_MHZ = 2;
+export const SPECTRUM_MAX_MHZ = 40_000;
+
+/** Narrowest window the view zooms to (MHz) — one kHz across */
+export const MIN_SPAN_MHZ = 0.001;
+
+export type AxisScale = 'LOG' | 'LINEAR';
+
+export interface FrequencyWindow {
+  minMhz: number;
+  maxMhz: number;
+}
+
+export const FULL_WINDOW: FrequencyWindow = { minMhz: SPECTRUM_MIN_MHZ, maxMhz: SPECTRUM_MAX_MHZ };
+
+/** Position of a frequency across the window, 0 at the left edge and 1 at the right */
+export function freqToFraction(mhz: number, w: FrequencyWindow, scale: AxisScale): number {
+  if (scale === 'LOG') return Math.log(mhz / w.minMhz) / Math.log(w.maxMhz / w.minMhz);
+  return (mhz - w.minMhz) / (w.maxMhz - w.minMhz);
+}
+
+export function fractionToFreq(x: number, w: FrequencyWindow, scale: AxisScale): number {
+  if (scale === 'LOG') return w.minMhz * Math.pow(w.maxMhz / w.minMhz, x);
+  return w.minMhz + x * (w.maxMhz - w.minMhz);
+}
+
+/** Keep the window inside the full range and no narrower than MIN_SPAN_MHZ, shifting rather than shrinking it */
+export function clampWindow(w: FrequencyWindow, scale: AxisScale): FrequencyWindow {
+  let { minMhz, maxMhz } = w;
+  if (maxMhz - minMhz < MIN_SPAN_MHZ) {
+    const mid = (minMhz + maxMhz) / 2;
+    minMhz = mid - MIN_SPAN_MHZ / 2;
+    maxMhz = mid + MIN_SPAN_MHZ / 2;
+  }
+  if (scale === 'LOG') {
+    const ratio = Math.min(maxMhz / minMhz, SPECTRUM_MAX_MHZ / SPECTRUM_MIN_MHZ);
+    if (minMhz < SPECTRUM_MIN_MHZ) [minMhz, maxMhz] = [SPECTRUM_MIN_MHZ, SPECTRUM_MIN_MHZ * ratio];
+    if (maxMhz > SPECTRUM_MAX_MHZ) [minMhz, maxMhz] = [SPECTRUM_MAX_MHZ / ratio, SPECTRUM_MAX_MHZ];
+  } else {
+    const span = Math.min(maxMhz - minMhz, SPECTRUM_MAX_MHZ - SPECTRUM_MIN_MHZ);
+    if (minMhz < SPECTRUM_MIN_MHZ) [minMhz, maxMhz] = [SPECTRUM_MIN_MHZ, SPECTRUM_MIN_MHZ + span];
+    if (maxMhz > SPECTRUM_MAX_MHZ) [minMhz, maxMhz] = [SPECTRUM_MAX_MHZ - span, SPECTRUM_MAX_MHZ];
+  }
+  return { minMhz, maxMhz };
+}
+
+/** Zoom by `factor` (< 1 zooms in) keeping the frequency under `anchor` (0–1) in place */
+export function zoomWindow(w: FrequencyWindow, anchor: number, factor: number, scale: AxisScale): FrequencyWindow {
+  const at = fractionToFreq(anchor, w, scale);
+  if (scale === 'LOG') {
+    return clampWindow({
+      minMhz: at * Math.pow(w.minMhz / at, factor),
+      maxMhz: at * Math.pow(w.maxMhz / at, factor),
+    }, scale);
+  }
+  return clampWindow({ minMhz: at - (at - w.minMhz) * factor, maxMhz: at + (w.maxMhz - at) * factor }, scale);
+}
+
+/** Shift the window by a fraction of its own width (positive moves towards higher frequencies) */
+export function panWindow(w: FrequencyWindow, delta: number, scale: AxisScale): FrequencyWindow {
+  return clampWindow({
+    minMhz: fractionToFreq(delta, w, scale),
+    maxMhz: fractionToFreq(1 + delta, w, scale),
+  }, scale);
+}
+
+/** Round step of 1, 2 or 5 times a power of ten, about `span / count` */
+function niceStep(span: number, count: number): number {
+  const raw = span / count;
+  const pow = Math.pow(10, Math.floor(Math.log10(raw)));
+  const m = raw / pow;
+  return (m < 1.5 ? 1 : m < 3.5 ? 2 : m < 7.5 ? 5 : 10) * pow;
+}
+
+/** Tick frequencies for the axis: decades (with 2 and 5 between them when room) on a log axis spanning a decade or more */
+export function axisTicks(w: FrequencyWindow, scale: AxisScale, count = 8): number[] {
+  const decades = Math.log10(w.maxMhz / w.minMhz);
+  if (scale === 'LOG' && decades >= 1) {
+    const mantissas = decades <= count / 3 ? [1, 2, 5] : [1];
+    const ticks: number[] = [];
+    for (let e = Math.floor(Math.log10(w.minMhz)); e <= Math.ceil(Math.log10(w.maxMhz)); e++) {
+      for (const m of mantissas) {
+        const f = m * Math.pow(10, e);
+        if (f >= w.minMhz && f <= w.maxMhz) ticks.push(f);
+      }
+    }
+    return ticks;
+  }
+  const step = niceStep(w.maxMhz - w.minMhz, count);
+  const ticks: number[] = [];
+  for (let f = Math.ceil(w.minMhz / step) * step; f <= w.maxMhz; f += step) ticks.push(Number(f.toPrecision(12)));
+  return ticks;
+}
+
+/** Frequency with the unit that keeps it short: kHz, MHz or GHz; decimals follow `resolutionMhz` when given */
+export function fmtFrequency(mhz: number, resolutionMhz?: number): string {
+  const [value, unit, perMhz] = mhz >= 1000 ? [mhz / 1000, 'GHz', 1e-3] : mhz < 1 ? [mhz * 1000, 'kHz', 1e3] : [mhz, 'MHz', 1];
+  if (resolutionMhz === undefined) return `${Number(value.toPrecision(6))} ${unit}`;
+  const decimals = Math.max(0, Math.ceil(-Math.log10(resolutionMhz * perMhz) - 1e-9));
+  return `${value.toFixed(Math.min(decimals, 9))} ${unit}`;
+}
+
+/**
+ * Greedy interval packing: each span (in pixels) goes to the first row whose
+ * last span ends at least `gap` before it starts. Returns the row per span,
+ * in input order.
+ */
+export function packRows(spans: { start: number; end: number }[], gap = 2): number[] {
+  const order = spans.map((_, i) => i).sort((a, b) => spans[a].start - spans[b].start);
+  const rowEnds: number[] = [];
+  const rows = new Array<number>(spans.length);
+  for (const i of order) {
+    let row = rowEnds.findIndex(end => end + gap <= spans[i].start);
+    if (row < 0) row = rowEnds.push(0) - 1;
+    rowEnds[row] = spans[i].end;
+    rows[i] = row;
+  }
+  return rows;
+}
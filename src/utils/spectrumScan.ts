@@ -0,0 +1,252 @@
+import type { LatLng, RadioLink, ScanSample, SpectrumScan } from '../types';
+import { nanoid } from './id';
+import type { AxisScale, FrequencyWindow } from './spectrumAxis';
+import { freqToFraction } from './spectrumAxis';
+import type { ValidationIssue } from './validation';
+
+/** Rows from one site further apart than this start a new measurement set */
+const SWEEP_GAP_MS = 15 * 60_000;
+
+/** A planned channel whose measured level is this far above the scan's noise floor is flagged */
+export const STRONG_SIGNAL_ABOVE_FLOOR_DB = 15;
+
+type Column = 'frequency' | 'level' | 'time' | 'lat' | 'lng' | 'location';
+
+/** Header spellings per column, tried in this order so "level_dbm" is not taken for a frequency */
+const HEADER_PATTERNS: [Column, RegExp][] = [
+  ['level', /dbm|level|niv[aå]|power|effekt/i],
+  ['frequency', /^(f|freq|frequency|frekvens)\b|^freq|^frekv/i],
+  ['time', /^(time|timestamp|tid|tidpunkt|datetime|date)/i],
+  ['lat', /^lat/i],
+  ['lng', /^(lon|lng)/i],
+  ['location', /^(location|plats|site|position|pos)/i],
+];
+
+/** Multiplier to MHz from the unit in the frequency header, MHz when none is given */
+function frequencyUnit(header: string): number {
+  if (/ghz/i.test(header)) return 1000;
+  if (/mhz/i.test(header)) return 1;
+  if (/khz/i.test(header)) return 1e-3;
+  if (/hz/i.test(header)) return 1e-6;
+  return 1;
+}
+
+interface ScanRow {
+  frequencyMhz: number;
+  levelDbm: number;
+  time: number;
+  location?: LatLng;
+  locationLabel?: string;
+}
+
+/** "59.33 18.06", "59.33/18.06" or "59.33;18.06" in a single location cell */
+const COORD_PAIR = /^(-?\d+(?:\.\d+)?)[\s/;]+(-?\d+(?:\.\d+)?)$/;
+
+/**
+ * Parse a monitoring sweep CSV: frequency, dBm, timestamp and location per
+ * row, with or without a header. Location is either one cell (a site name or
+ * "lat lon") or two numeric lat/lon columns. Semicolon-separated files may
+ * use decimal commas. Rows are grouped into measurement sets per location,
+ * split where the timestamps jump by more than a quarter of an hour; a
+ * frequency swept several times in a set keeps its peak level.
+ */
+export function parseScanCsv(text: string, fileName: string): SpectrumScan[] {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '');
+  if (lines.length === 0) throw new Error('Mätfilen är tom');
+  const sep = lines[0].includes(';') ? ';' : lines[0].includes('\t') ? '\t' : ',';
+  const split = (line: string) => line.split(sep).map(c => c.trim().replace(/^"|"$/g, ''));
+  const num = (cell: string | undefined) => (cell === undefined || cell === ''
+    ? NaN
+    : Number(sep === ';' ? cell.replace(',', '.') : cell));
+
+  const first = split(lines[0]);
+  const hasHeader = !Number.isFinite(num(first[0]));
+  const index: Partial<Record<Column, number>> = {};
+  if (hasHeader) {
+    first.forEach((h, i) => {
+      const col = HEADER_PATTERNS.find(([c, re]) => index[c] === undefined && re.test(h))?.[0];
+      if (col) index[col] = i;
+    });
+    if (index.frequency === undefined || index.level === undefined) {
+      throw new Error('Mätfilen saknar kolumner för frekvens och nivå (dBm)');
+    }
+  } else {
+    Object.assign(index, { frequency: 0, level: 1, time: 2, location: 3 });
+  }
+  const toMhz = hasHeader ? frequencyUnit(first[index.frequency!]) : 1;
+  const importedAt = Date.now();
+
+  const rows: ScanRow[] = (hasHeader ? lines.slice(1) : lines).map((line, i) => {
+    const cols = split(line);
+    const where = `på rad ${i + (hasHeader ? 2 : 1)}`;
+    const frequencyMhz = num(cols[index.frequency!]) * toMhz;
+    const levelDbm = num(cols[index.level!]);
+    if (!Number.isFinite(frequencyMhz) || !Number.isFinite(levelDbm)) throw new Error(`Ogiltig frekvens eller nivå ${where}`);
+    const time = index.time === undefined ? importedAt : Date.parse(cols[index.time]);
+    if (!Number.isFinite(time)) throw new Error(`Ogiltig tidpunkt "${cols[index.time!]}" ${where}`);
+
+    const row: ScanRow = { frequencyMhz, levelDbm, time };
+    const lat = index.lat !== undefined ? num(cols[index.lat]) : NaN;
+    const lng = index.lng !== undefined ? num(cols[index.lng]) : NaN;
+    const cell = index.location !== undefined ? cols[index.location] : undefined;
+    const pair = cell?.match(COORD_PAIR);
+    if (Number.isFinite(lat) && Number.isFinite(lng)) row.location = { lat, lng };
+    else if (pair) row.location = { lat: Number(pair[1]), lng: Number(pair[2]) };
+    else if (!hasHeader && Number.isFinite(num(cols[3])) && Number.isFinite(num(cols[4]))) {
+      row.location = { lat: num(cols[3]), lng: num(cols[4]) };
+    }
+    if (cell && !pair && !Number.isFinite(num(cell))) row.locationLabel = cell;
+    return row;
+  });
+  if (rows.length === 0) throw new Error('Mätfilen saknar mätvärden');
+
+  const bySite = new Map<string, ScanRow[]>();
+  for (const r of rows) {
+    const key = r.locationLabel ?? (r.location ? `${r.location.lat.toFixed(4)},${r.location.lng.toFixed(4)}` : '');
+    const site = bySite.get(key);
+    if (site) site.push(r);
+    else bySite.set(key, [r]);
+  }
+
+  const scans: SpectrumScan[] = [];
+  for (const siteRows of bySite.values()) {
+    siteRows.sort((a, b) => a.time - b.time);
+    let set: ScanRow[] = [];
+    const flush = () => {
+      if (set.length === 0) return;
+      const peak = new Map<number, number>();
+      for (const r of set) peak.set(r.frequencyMhz, Math.max(peak.get(r.frequencyMhz) ?? -Infinity, r.levelDbm));
+      const samples: ScanSample[] = [...peak].map(([frequencyMhz, levelDbm]) => ({ frequencyMhz, levelDbm }))
+        .sort((a, b) => a.frequencyMhz - b.frequencyMhz);
+      scans.push({
+        id: nanoid(),
+        name: fileName,
+        location: set[0].location,
+        locationLabel: set[0].locationLabel,
+        startTime: new Date(set[0].time).toISOString(),
+        endTime: new Date(set[set.length - 1].time).toISOString(),
+        samples,
+      });
+      set = [];
+    };
+    for (const r of siteRows) {
+      if (set.length > 0 && r.time - set[set.length - 1].time > SWEEP_GAP_MS) flush();
+      set.push(r);
+    }
+    flush();
+  }
+  return scans.sort((a, b) => Date.parse(a.startTime) - Date.parse(b.startTime));
+}
+
+const floorCache = new WeakMap<SpectrumScan, number>();
+
+/** Median measured level, taken as the noise floor of the set */
+export function scanNoiseFloorDbm(scan: SpectrumScan): number {
+  const cached = floorCache.get(scan);
+  if (cached !== undefined) return cached;
+  const levels = scan.samples.map(s => s.levelDbm).sort((a, b) => a - b);
+  const floor = levels.length === 0 ? -Infinity : levels[Math.floor(levels.length / 2)];
+  floorCache.set(scan, floor);
+  return floor;
+}
+
+/** First sample at or above the frequency */
+function sampleIndex(samples: ScanSample[], mhz: number): number {
+  let lo = 0;
+  let hi = samples.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (samples[mid].frequencyMhz < mhz) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Strongest measured level inside a channel; interpolated between the two
+ * neighbouring samples when the sweep steps over the channel entirely.
+ * Undefined outside the swept range.
+ */
+export function channelLevelDbm(scan: SpectrumScan, frequencyMhz: number, bandwidthKhz: number): number | undefined {
+  const { samples } = scan;
+  const lo = frequencyMhz - bandwidthKhz / 2000;
+  const hi = frequencyMhz + bandwidthKhz / 2000;
+  let i = sampleIndex(samples, lo);
+  let max = -Infinity;
+  for (; i < samples.length && samples[i].frequencyMhz <= hi; i++) max = Math.max(max, samples[i].levelDbm);
+  if (Number.isFinite(max)) return max;
+
+  const at = sampleIndex(samples, frequencyMhz);
+  const next = samples[at];
+  const prev = samples[at - 1];
+  if (!next || !prev) return undefined;
+  const t = (frequencyMhz - prev.frequencyMhz) / (next.frequencyMhz - prev.frequencyMhz);
+  return prev.levelDbm + t * (next.levelDbm - prev.levelDbm);
+}
+
+/** A planned link whose channel is already occupied by a strong measured signal */
+export interface MeasuredSignal {
+  linkId: string;
+  levelDbm: number;
+  aboveFloorDb: number;
+}
+
+/** Links planned onto strong measured signals, strongest first */
+export function strongSignalsOnLinks(scan: SpectrumScan, links: RadioLink[]): MeasuredSignal[] {
+  const floor = scanNoiseFloorDbm(scan);
+  return links.flatMap(l => {
+    const levelDbm = channelLevelDbm(scan, l.frequencyMhz, l.bandwidthKhz);
+    if (levelDbm === undefined || levelDbm - floor < STRONG_SIGNAL_ABOVE_FLOOR_DB) return [];
+    return [{ linkId: l.id, levelDbm, aboveFloorDb: levelDbm - floor }];
+  }).sort((a, b) => b.aboveFloorDb - a.aboveFloorDb);
+}
+
+/** Site a set was measured at: its name from the file, else its coordinates */
+export function scanSiteLabel(scan: SpectrumScan): string {
+  if (scan.locationLabel) return scan.locationLabel;
+  if (scan.location) return `${scan.location.lat.toFixed(4)}, ${scan.location.lng.toFixed(4)}`;
+  return 'Okänd plats';
+}
+
+/** A point of the drawn trace: position across the window (0–1, may fall just outside) and level */
+export interface TracePoint {
+  fraction: number;
+  levelDbm: number;
+}
+
+/**
+ * Peak-hold trace of a set over the window, one point per pixel column that
+ * holds samples, plus the nearest sample beyond each edge so the line runs
+ * on to the border when zoomed in between samples.
+ */
+export function scanTrace(scan: SpectrumScan, w: FrequencyWindow, scale: AxisScale, columns: number): TracePoint[] {
+  const { samples } = scan;
+  const first = Math.max(0, sampleIndex(samples, w.minMhz) - 1);
+  const points: TracePoint[] = [];
+  let column = NaN;
+  for (let i = first; i < samples.length; i++) {
+    const s = samples[i];
+    const fraction = freqToFraction(s.frequencyMhz, w, scale);
+    const col = Math.floor(fraction * columns);
+    if (col === column) {
+      const last = points[points.length - 1];
+      last.levelDbm = Math.max(last.levelDbm, s.levelDbm);
+    } else {
+      points.push({ fraction, levelDbm: s.levelDbm });
+      column = col;
+    }
+    if (s.frequencyMhz > w.maxMhz) break;
+  }
+  return points;
+}
+
+/** Warning for a link planned onto a strong measured signal in the set */
+export function measuredSignalWarnings(scan: SpectrumScan, link: RadioLink): ValidationIssue[] {
+  const [signal] = strongSignalsOnLinks(scan, [link]);
+  if (!signal) return [];
+  return [{
+    severity: 'WARNING',
+    field: 'frequencyMhz',
+    message: `Stark uppmätt signal ${signal.levelDbm.toFixed(0)} dBm (+${signal.aboveFloorDb.toFixed(0)} dB över brusgolvet) vid ${scanSiteLabel(scan)}`,
+  }];
+}
@@ -0,0 +1,189 @@
+import type { LatLng } from '../types';
+import { haversineKm } from './geo';
+
+export const EARTH_RADIUS_M = 6371000;
+
+/** Standard atmosphere effective earth-radius factor */
+export const DEFAULT_K_FACTOR = 4 / 3;
+
+/** Antenna height above ground used when nothing else is known (vehicle whip) */
+export const DEFAULT_ANTENNA_HEIGHT_M = 2;
+
+// ── Elevation sources ──────────────────────────────────────────────────────
+
+/** Anything that can answer "how high is the ground here" in metres above MSL.
+ *  Returns null where the source has no data. */
+export interface ElevationSource {
+  name: string;
+  elevationAt(pos: LatLng): number | null;
+}
+
+/** A regular elevation raster covering a lat/lng box, row 0 at the north edge.
+ *  `mercator` rows are spaced evenly in Web Mercator y (slippy-map tiles),
+ *  `latlng` rows evenly in latitude (GeoTIFF in EPSG:4326). */
+export interface DemGrid {
+  west: number;
+  east: number;
+  north: number;
+  south: number;
+  width: number;
+  height: number;
+  projection: 'latlng' | 'mercator';
+  data: Float32Array; // metres, NaN = no data
+}
+
+/** Sea-level everywhere — used until a DEM is loaded */
+export const FLAT_ELEVATION: ElevationSource = {
+  name: 'Ingen DEM (havsnivå)',
+  elevationAt: () => 0,
+};
+
+function mercatorY(lat: number): number {
+  const φ = (lat * Math.PI) / 180;
+  return Math.log(Math.tan(Math.PI / 4 + φ / 2));
+}
+
+function sampleGrid(g: DemGrid, pos: LatLng): number | null {
+  if (pos.lng < g.west || pos.lng > g.east || pos.lat < g.south || pos.lat > g.north) return null;
+  const fx = ((pos.lng - g.west) / (g.east - g.west)) * (g.width - 1);
+  const fy = g.projection === 'mercator'
+    ? ((mercatorY(g.north) - mercatorY(pos.lat)) / (mercatorY(g.north) - mercatorY(g.south))) * (g.height - 1)
+    : ((g.north - pos.lat) / (g.north - g.south)) * (g.height - 1);
+
+  const x0 = Math.floor(fx), y0 = Math.floor(fy);
+  const x1 = Math.min(x0 + 1, g.width - 1), y1 = Math.min(y0 + 1, g.height - 1);
+  const tx = fx - x0, ty = fy - y0;
+  const v00 = g.data[y0 * g.width + x0];
+  const v10 = g.data[y0 * g.width + x1];
+  const v01 = g.data[y1 * g.width + x0];
+  const v11 = g.data[y1 * g.width + x1];
+  if ([v00, v10, v01, v11].some(Number.isNaN)) {
+    const nearest = g.data[Math.round(fy) * g.width + Math.round(fx)];
+    return Number.isNaN(nearest) ? null : nearest;
+  }
+  return (v00 * (1 - tx) + v10 * tx) * (1 - ty) + (v01 * (1 - tx) + v11 * tx) * ty;
+}
+
+/** Elevation source backed by in-memory DEM grids (first grid that covers a point wins) */
+export function createGridElevationSource(name: string, grids: DemGrid[]): ElevationSource & { grids: DemGrid[] } {
+  return {
+    name,
+    grids,
+    elevationAt(pos) {
+      for (const g of grids) {
+        const h = sampleGrid(g, pos);
+        if (h !== null) return h;
+      }
+      return null;
+    },
+  };
+}
+
+/** DEM grids behind a source, if it is grid-backed — used to ship terrain to workers */
+export function demGridsOf(source: ElevationSource): DemGrid[] | null {
+  return 'grids' in source ? (source as ElevationSource & { grids: DemGrid[] }).grids : null;
+}
+
+// ── Path profile ───────────────────────────────────────────────────────────
+
+export interface ProfilePoint {
+  distKm: number;       // from path start
+  position: LatLng;
+  elevationM: number;   // ground height above MSL (0 where the DEM has no data)
+}
+
+/** Sample spacing target for path profiles (m) */
+const PROFILE_STEP_M = 100;
+
+/** Sample the ground elevation along the great-circle path a → b */
+export function terrainProfile(
+  a: LatLng,
+  b: LatLng,
+  source: ElevationSource,
+  samples?: number,
+): ProfilePoint[] {
+  const distKm = haversineKm(a, b);
+  const n = samples ?? Math.min(256, Math.max(16, Math.round((distKm * 1000) / PROFILE_STEP_M)));
+  const points: ProfilePoint[] = [];
+  for (let i = 0; i <= n; i++) {
+    const t = i / n;
+    // Linear interpolation is accurate enough for tactical path lengths
+    const position = { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+    points.push({ distKm: distKm * t, position, elevationM: source.elevationAt(position) ?? 0 });
+  }
+  return points;
+}
+
+/** Height (m) the earth's surface rises above the chord at d1/d2 from the ends */
+export function earthBulgeM(d1Km: number, d2Km: number, kFactor = DEFAULT_K_FACTOR): number {
+  return (d1Km * 1000 * d2Km * 1000) / (2 * kFactor * EARTH_RADIUS_M);
+}
+
+/** Smooth-earth radio horizon (km) for two antenna heights above ground */
+export function radioHorizonKm(h1M: number, h2M: number, kFactor = DEFAULT_K_FACTOR): number {
+  const reKm = (kFactor * EARTH_RADIUS_M) / 1000;
+  return Math.sqrt(2 * reKm * (Math.max(h1M, 0) / 1000)) + Math.sqrt(2 * reKm * (Math.max(h2M, 0) / 1000));
+}
+
+// ── Knife-edge diffraction ─────────────────────────────────────────────────
+
+/** Single knife-edge diffraction loss J(v) in dB — ITU-R P.526 approximation */
+export function knifeEdgeLossDb(v: number): number {
+  if (v <= -0.78) return 0;
+  return 6.9 + 20 * Math.log10(Math.sqrt((v - 0.1) ** 2 + 1) + v - 0.1);
+}
+
+interface Edge { idx: number; v: number }
+
+/** Find the interior point with the largest Fresnel-Kirchhoff parameter between a and b */
+function dominantEdge(
+  d: number[], h: number[], a: number, b: number, ha: number, hb: number, lambda: number,
+): Edge | null {
+  let best: Edge | null = null;
+  const span = d[b] - d[a];
+  for (let i = a + 1; i < b; i++) {
+    const d1 = d[i] - d[a];
+    const d2 = d[b] - d[i];
+    if (d1 <= 0 || d2 <= 0) continue;
+    const los = ha + (hb - ha) * (d1 / span);
+    const v = (h[i] - los) * Math.sqrt((2 / lambda) * (span / (d1 * d2)));
+    if (!best || v > best.v) best = { idx: i, v };
+  }
+  return best;
+}
+
+/**
+ * Deygout multiple knife-edge diffraction loss over a terrain profile.
+ * Uses the dominant edge plus at most one secondary edge on each side of it.
+ */
+export function deygoutLossDb(
+  profile: ProfilePoint[],
+  freqMhz: number,
+  txHeightM: number,
+  rxHeightM: number,
+  kFactor = DEFAULT_K_FACTOR,
+): number {
+  const n = profile.length - 1;
+  if (n < 2 || freqMhz <= 0) return 0;
+
+  const lambda = 299.792458 / freqMhz;
+  const totalKm = profile[n].distKm;
+  const d = profile.map(p => p.distKm * 1000);
+  // Terrain heights relative to the chord, i.e. with earth curvature added
+  const h = profile.map(p => p.elevationM + earthBulgeM(p.distKm, totalKm - p.distKm, kFactor));
+  const hTx = h[0] + txHeightM;
+  const hRx = h[n] + rxHeightM;
+
+  const main = dominantEdge(d, h, 0, n, hTx, hRx, lambda);
+  if (!main || main.v <= -0.78) return 0;
+
+  let loss = knifeEdgeLossDb(main.v);
+  // Secondary edges only matter once the main edge actually blocks line of sight;
+  // on grazing paths they would count the same near-field ground three times
+  if (main.v <= 0) return loss;
+  const left = dominantEdge(d, h, 0, main.idx, hTx, h[main.idx], lambda);
+  const right = dominantEdge(d, h, main.idx, n, h[main.idx], hRx, lambda);
+  if (left) loss += knifeEdgeLossDb(left.v);
+  if (right) loss += knifeEdgeLossDb(right.v);
+  return loss;
+}
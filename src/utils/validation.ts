@@ -0,0 +1,176 @@
+import type { FrequencyNet, RadioEquipment, RadioLink, RadioNode, WaveformType } from '../types';
+
+/** Errors block the change; warnings are shown but allowed */
+export type ValidationSeverity = 'ERROR' | 'WARNING';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  field: 'equipment' | 'frequencyMhz' | 'txPowerW' | 'reverseTxPowerW' | 'waveform' | 'bandwidthKhz';
+  end?: 'FROM' | 'TO';   // unset for issues that concern the whole link
+  message: string;
+}
+
+/** Link settings a radio has to support */
+export type LinkParams = Pick<RadioLink, 'frequencyMhz' | 'waveform' | 'bandwidthKhz'>;
+
+/** Whether the radio can tune, modulate and filter the link as planned */
+export function equipmentSupports(equip: RadioEquipment, link: LinkParams): boolean {
+  return equip.freqMin <= link.frequencyMhz && link.frequencyMhz <= equip.freqMax
+    && (!equip.waveforms || equip.waveforms.includes(link.waveform))
+    && (!equip.bandwidthsKhz || equip.bandwidthsKhz.includes(link.bandwidthKhz));
+}
+
+/** Check one end's radio against the link */
+function checkEnd(
+  end: ValidationIssue['end'],
+  equip: RadioEquipment | undefined,
+  link: Pick<RadioLink, 'frequencyMhz' | 'waveform' | 'bandwidthKhz'>,
+  txPowerW: number | undefined,
+): ValidationIssue[] {
+  const side = end === 'FROM' ? 'Sändare' : 'Mottagare';
+  if (!equip) {
+    return [{ severity: 'WARNING', field: 'equipment', end, message: `${side}: ingen radio vald` }];
+  }
+
+  const issues: ValidationIssue[] = [];
+  if (link.frequencyMhz < equip.freqMin || link.frequencyMhz > equip.freqMax) {
+    issues.push({
+      severity: 'ERROR', field: 'frequencyMhz', end,
+      message: `${equip.name} täcker ${equip.freqMin}–${equip.freqMax} MHz, inte ${link.frequencyMhz} MHz`,
+    });
+  }
+  if (txPowerW !== undefined && txPowerW > equip.maxPowerW) {
+    issues.push({
+      severity: 'ERROR', field: end === 'FROM' ? 'txPowerW' : 'reverseTxPowerW', end,
+      message: `${equip.name} ger högst ${equip.maxPowerW} W, inte ${txPowerW} W`,
+    });
+  }
+  if (equip.waveforms && !equip.waveforms.includes(link.waveform)) {
+    issues.push({
+      severity: 'ERROR', field: 'waveform', end,
+      message: `${equip.name} saknar ${link.waveform} (${equip.waveforms.join(', ')})`,
+    });
+  }
+  if (equip.bandwidthsKhz && !equip.bandwidthsKhz.includes(link.bandwidthKhz)) {
+    issues.push({
+      severity: 'WARNING', field: 'bandwidthKhz', end,
+      message: `${equip.name} har kanalfilter för ${equip.bandwidthsKhz.join('/')} kHz, inte ${link.bandwidthKhz} kHz`,
+    });
+  }
+  return issues;
+}
+
+/** Every capability mismatch between a link and the radios at both of its ends */
+export function validateLink(
+  link: Pick<RadioLink, 'frequencyMhz' | 'waveform' | 'bandwidthKhz' | 'txPowerW' | 'reverseTxPowerW'>,
+  fromEquip?: RadioEquipment,
+  toEquip?: RadioEquipment,
+): ValidationIssue[] {
+  return [
+    ...checkEnd('FROM', fromEquip, link, link.txPowerW),
+    ...checkEnd('TO', toEquip, link, link.reverseTxPowerW),
+  ];
+}
+
+/** Whether any issue blocks the link */
+export function hasErrors(issues: ValidationIssue[]): boolean {
+  return issues.some(i => i.severity === 'ERROR');
+}
+
+/** Same model at both ends first; the stable sort keeps the nodes' own radio order after that */
+const byPreference = (a: { fromEquip: RadioEquipment; toEquip: RadioEquipment }, b: typeof a) =>
+  Number(b.fromEquip.model === b.toEquip.model) - Number(a.fromEquip.model === a.toEquip.model);
+
+/**
+ * Radios at each end that can both carry the link. Prefers the same model at
+ * both ends, then the order the radios are fitted in; undefined when no pair works.
+ */
+export function pickCompatibleEquipment(
+  fromOptions: RadioEquipment[],
+  toOptions: RadioEquipment[],
+  link: LinkParams,
+): { fromEquip: RadioEquipment; toEquip: RadioEquipment } | undefined {
+  const pairs = fromOptions.filter(f => equipmentSupports(f, link)).flatMap(f =>
+    toOptions.filter(t => equipmentSupports(t, link)).map(t => ({ fromEquip: f, toEquip: t })));
+  return pairs.sort(byPreference)[0];
+}
+
+/** Frequency range both radios can tune, or undefined if they do not overlap */
+export function commonBandMhz(a: RadioEquipment, b: RadioEquipment): { min: number; max: number } | undefined {
+  const min = Math.max(a.freqMin, b.freqMin);
+  const max = Math.min(a.freqMax, b.freqMax);
+  return min <= max ? { min, max } : undefined;
+}
+
+/**
+ * Radios and a starting channel for a new link between two nodes: a pair that
+ * shares a band and a waveform, the channel at the bottom of the common band.
+ */
+export function planDefaults(
+  fromOptions: RadioEquipment[],
+  toOptions: RadioEquipment[],
+): { fromEquip: RadioEquipment; toEquip: RadioEquipment; link: LinkParams } | undefined {
+  const candidates = fromOptions.flatMap(f => toOptions.flatMap(t => {
+    const band = commonBandMhz(f, t);
+    const waveform = (f.waveforms ?? ['FM' as const]).find(w => !t.waveforms || t.waveforms.includes(w));
+    if (!band || !waveform) return [];
+    const bandwidthKhz = (f.bandwidthsKhz ?? [25]).find(bw => !t.bandwidthsKhz || t.bandwidthsKhz.includes(bw))
+      ?? f.bandwidthsKhz?.[0] ?? 25;
+    return [{ fromEquip: f, toEquip: t, link: { frequencyMhz: band.min, waveform, bandwidthKhz } }];
+  }));
+  return candidates.sort(byPreference)[0];
+}
+
+/** A net member whose radios fall short of the net */
+export interface NetMemberIssue extends ValidationIssue {
+  nodeId: string;
+}
+
+/** Radios of the node that can tune and modulate a net channel; channel filters are a per-link matter */
+function netRadios(node: RadioNode, frequencyMhz: number, waveform: WaveformType): RadioEquipment[] {
+  return node.equipment.filter(e => e.freqMin <= frequencyMhz && frequencyMhz <= e.freqMax
+    && (!e.waveforms || e.waveforms.includes(waveform)));
+}
+
+/** Whether the node has a radio for the net's primary channel */
+export function nodeCanJoinNet(node: RadioNode, net: Pick<FrequencyNet, 'primaryFreqMhz' | 'waveform'>): boolean {
+  return netRadios(node, net.primaryFreqMhz, net.waveform).length > 0;
+}
+
+/**
+ * Every member checked against the net: a radio for the primary and the
+ * alternate frequency in the net's waveform, and a second one for a relay to
+ * retransmit on.
+ */
+export function validateNetMembers(
+  net: Pick<FrequencyNet, 'primaryFreqMhz' | 'altFreqMhz' | 'waveform' | 'memberNodeIds' | 'memberRoles'>,
+  nodes: RadioNode[],
+): NetMemberIssue[] {
+  return net.memberNodeIds.flatMap(nodeId => {
+    const node = nodes.find(n => n.id === nodeId);
+    if (!node) return [];
+    const issues: NetMemberIssue[] = [];
+    const channels = [['primary', net.primaryFreqMhz], ['alt', net.altFreqMhz]] as const;
+    for (const [slot, f] of channels) {
+      if (f === undefined || netRadios(node, f, net.waveform).length > 0) continue;
+      const tunes = node.equipment.some(e => e.freqMin <= f && f <= e.freqMax);
+      issues.push({
+        severity: 'ERROR',
+        field: tunes ? 'waveform' : 'frequencyMhz',
+        nodeId,
+        message: tunes
+          ? `${node.label}: ingen radio för ${f} MHz har ${net.waveform}`
+          : `${node.label}: ingen radio når ${slot === 'alt' ? 'alternativfrekvensen ' : ''}${f} MHz`,
+      });
+    }
+    if (net.memberRoles?.[nodeId] === 'RELAY' && netRadios(node, net.primaryFreqMhz, net.waveform).length < 2) {
+      issues.push({
+        severity: 'WARNING',
+        field: 'equipment',
+        nodeId,
+        message: `${node.label}: relä behöver två radioapparater för nätet`,
+      });
+    }
+    return issues;
+  });
+}
@@ -0,0 +1,175 @@
+import type { WaveformType } from '../types';
+
+/** Digital modulation with the Eb/N0 it needs for BER 1e-5 after FEC */
+interface Modulation {
+  name: string;
+  bitsPerSymbol: number;
+  ebN0Db: number;
+}
+
+/** Fixed-rate data modem carried over an analogue voice channel */
+interface ModemMode {
+  name: string;
+  rateKbps: number;
+  snrDb: number;
+}
+
+interface WaveformProfile {
+  voiceGradeSnrDb: [number, number, number, number]; // SNR needed for grade 2, 3, 4, 5
+  modulations?: Modulation[];  // digital waveforms: rate scales with bandwidth
+  modemModes?: ModemMode[];    // analogue waveforms: data only via a modem
+}
+
+/** Roll-off of the pulse shaping filter: symbol rate = B / (1 + α) */
+const ROLL_OFF = 0.35;
+
+/** Code rate assumed for the digital modes */
+const CODE_RATE = 0.75;
+
+/** Standard data rates offered to the planner (kbps) */
+const DATA_RATES_KBPS = [0.075, 0.3, 1.2, 2.4, 4.8, 9.6, 16, 32, 64, 128, 256, 512, 1024, 2048];
+
+const WAVEFORMS: Record<WaveformType, WaveformProfile> = {
+  AM: {
+    voiceGradeSnrDb: [6, 10, 16, 25],
+    modemModes: [{ name: 'AFSK', rateKbps: 1.2, snrDb: 12 }],
+  },
+  FM: {
+    voiceGradeSnrDb: [6, 9, 13, 20],
+    modemModes: [
+      { name: 'AFSK', rateKbps: 1.2, snrDb: 10 },
+      { name: 'FFSK', rateKbps: 2.4, snrDb: 13 },
+      { name: 'GMSK', rateKbps: 9.6, snrDb: 18 },
+      { name: 'PSK', rateKbps: 16, snrDb: 22 },
+    ],
+  },
+  USB: {
+    voiceGradeSnrDb: [3, 6, 10, 18],
+    modemModes: [
+      { name: '188-110 75', rateKbps: 0.075, snrDb: -3 },
+      { name: '188-110 300', rateKbps: 0.3, snrDb: 2 },
+      { name: '188-110 1200', rateKbps: 1.2, snrDb: 7 },
+      { name: '188-110 2400', rateKbps: 2.4, snrDb: 12 },
+      { name: '188-110 9600', rateKbps: 9.6, snrDb: 24 },
+    ],
+  },
+  LSB: {
+    voiceGradeSnrDb: [3, 6, 10, 18],
+    modemModes: [
+      { name: '188-110 300', rateKbps: 0.3, snrDb: 2 },
+      { name: '188-110 2400', rateKbps: 2.4, snrDb: 12 },
+    ],
+  },
+  WBFM: {
+    voiceGradeSnrDb: [9, 12, 16, 24],
+    modemModes: [{ name: 'FFSK', rateKbps: 2.4, snrDb: 12 }],
+  },
+  FSK: {
+    voiceGradeSnrDb: [8, 10, 12, 14],
+    modulations: [
+      { name: '2-FSK', bitsPerSymbol: 1, ebN0Db: 11 },
+      { name: '4-FSK', bitsPerSymbol: 2, ebN0Db: 9 },
+    ],
+  },
+  PSK: {
+    voiceGradeSnrDb: [3, 5, 7, 10],
+    modulations: [
+      { name: 'BPSK', bitsPerSymbol: 1, ebN0Db: 5 },
+      { name: 'QPSK', bitsPerSymbol: 2, ebN0Db: 5 },
+      { name: '8PSK', bitsPerSymbol: 3, ebN0Db: 8.5 },
+    ],
+  },
+  QAM: {
+    voiceGradeSnrDb: [12, 14, 16, 18],
+    modulations: [
+      { name: '16QAM', bitsPerSymbol: 4, ebN0Db: 9.5 },
+      { name: '64QAM', bitsPerSymbol: 6, ebN0Db: 13.5 },
+      { name: '256QAM', bitsPerSymbol: 8, ebN0Db: 18 },
+    ],
+  },
+};
+
+/** Voice readability grade 1–5 with its label */
+export const VOICE_GRADE_LABEL: Record<number, string> = {
+  1: 'Obrukbar',
+  2: 'Svag',
+  3: 'Godtagbar',
+  4: 'God',
+  5: 'Utmärkt',
+};
+
+/** A data rate the waveform can carry in the channel, with the SNR it requires */
+export interface DataMode {
+  name: string;
+  rateKbps: number;
+  requiredSnrDb: number;
+}
+
+/** Data modes available for a waveform in the given channel bandwidth, slowest first */
+export function dataModes(waveform: WaveformType, bandwidthKhz: number): DataMode[] {
+  const profile = WAVEFORMS[waveform];
+  if (profile.modemModes) {
+    return profile.modemModes.map(m => ({ name: m.name, rateKbps: m.rateKbps, requiredSnrDb: m.snrDb }));
+  }
+
+  // The symbol rate is fixed by the channel; each modulation order gives one rate,
+  // rounded down to the nearest standard rate
+  const symbolRateKbaud = bandwidthKhz / (1 + ROLL_OFF);
+  const modes: DataMode[] = [];
+  for (const mod of profile.modulations ?? []) {
+    const capacityKbps = symbolRateKbaud * mod.bitsPerSymbol * CODE_RATE;
+    const rate = DATA_RATES_KBPS.filter(r => r <= capacityKbps).pop();
+    if (rate === undefined || modes.some(m => m.rateKbps === rate)) continue;
+    // SNR = Eb/N0 + 10·log₁₀(R/B)
+    modes.push({ name: mod.name, rateKbps: rate, requiredSnrDb: mod.ebN0Db + 10 * Math.log10(rate / bandwidthKhz) });
+  }
+  return modes;
+}
+
+/** Voice grade 1–5 reached at the given SNR */
+export function voiceGrade(waveform: WaveformType, snrDb: number): number {
+  const thresholds = WAVEFORMS[waveform].voiceGradeSnrDb;
+  return 1 + thresholds.filter(t => snrDb >= t).length;
+}
+
+/**
+ * Minimum SNR for the link to be useful: readable voice (grade 3) on voice
+ * waveforms, the slowest data mode on data waveforms.
+ */
+export function requiredSnrDb(waveform: WaveformType, bandwidthKhz: number): number {
+  const profile = WAVEFORMS[waveform];
+  if (profile.modulations) {
+    return dataModes(waveform, bandwidthKhz)[0]?.requiredSnrDb ?? profile.voiceGradeSnrDb[1];
+  }
+  return profile.voiceGradeSnrDb[1];
+}
+
+/** What a link delivers at a given SINR */
+export interface WaveformPerformance {
+  requiredSnrDb: number;
+  snrMarginDb: number;
+  voiceGrade: number;
+  dataRateKbps: number;  // 0 when no data mode closes
+  dataMode?: string;
+}
+
+/** Required SNR, voice grade and fastest closing data mode at a given SINR */
+export function assessWaveform(waveform: WaveformType, bandwidthKhz: number, sinrDb: number): WaveformPerformance {
+  const required = requiredSnrDb(waveform, bandwidthKhz);
+  const best = dataModes(waveform, bandwidthKhz).filter(m => sinrDb >= m.requiredSnrDb).pop();
+  return {
+    requiredSnrDb: required,
+    snrMarginDb: sinrDb - required,
+    voiceGrade: voiceGrade(waveform, sinrDb),
+    dataRateKbps: best?.rateKbps ?? 0,
+    dataMode: best?.name,
+  };
+}
+
+/** Format a data rate in bps/kbps/Mbps */
+export function fmtDataRate(kbps: number): string {
+  if (kbps <= 0) return '—';
+  if (kbps < 1) return `${(kbps * 1000).toFixed(0)} bps`;
+  if (kbps < 1000) return `${kbps} kbps`;
+  return `${kbps / 1000} Mbps`;
+}
@@ -0,0 +1,19 @@
+import { computeBudgets } from '../utils/budgetEngine';
+import { createGridElevationSource } from '../utils/terrain';
+import type { ElevationSource } from '../utils/terrain';
+import type { BudgetWorkerRequest, BudgetWorkerResponse } from './budgetClient';
+
+// Terrain is sent once per elevation source and kept between jobs
+let elevation: ElevationSource | undefined;
+
+self.onmessage = (e: MessageEvent<BudgetWorkerRequest>) => {
+  const { id, job, grids } = e.data;
+  if (grids !== undefined) elevation = grids ? createGridElevationSource('worker', grids) : undefined;
+  let msg: BudgetWorkerResponse;
+  try {
+    msg = { id, budgets: computeBudgets({ ...job, opts: { ...job.opts, elevation } }) };
+  } catch (err) {
+    msg = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(msg);
+};
@@ -0,0 +1,82 @@
+import type { LinkBudget } from '../types';
+import type { BudgetJob } from '../utils/budgetEngine';
+import { computeBudgets } from '../utils/budgetEngine';
+import type { ElevationSource, DemGrid } from '../utils/terrain';
+import { demGridsOf, FLAT_ELEVATION } from '../utils/terrain';
+
+export interface BudgetWorkerRequest {
+  id: number;
+  job: Omit<BudgetJob, 'opts'> & { opts: Omit<BudgetJob['opts'], 'elevation'> };
+  grids?: DemGrid[] | null;  // omitted when the worker already holds the current terrain
+}
+
+export type BudgetWorkerResponse =
+  | { id: number; budgets: Record<string, LinkBudget> }
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let workerElevation: ElevationSource | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (r: Record<string, LinkBudget>) => void; reject: (e: Error) => void }>();
+
+/** A worker that fails to load or crashes takes its pending jobs with it; the next job starts a fresh one */
+function resetWorker(message: string) {
+  worker?.terminate();
+  worker = null;
+  workerElevation = null;
+  const failed = [...pending.values()];
+  pending.clear();
+  failed.forEach(p => p.reject(new Error(message)));
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL('./budget.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<BudgetWorkerResponse>) => {
+    const p = pending.get(e.data.id);
+    if (!p) return;
+    pending.delete(e.data.id);
+    if ('budgets' in e.data) p.resolve(e.data.budgets);
+    else p.reject(new Error(e.data.error));
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    resetWorker(e.message ? `Budgetberäkningen avbröts: ${e.message}` : 'Budgetberäkningen kunde inte startas');
+  };
+  worker.onmessageerror = () => resetWorker('Budgetberäkningens svar kunde inte läsas');
+  return worker;
+}
+
+/**
+ * Run a budget job off the main thread. Grid-backed terrain is copied to the
+ * worker once per source; a source that cannot be copied is evaluated here on
+ * the main thread instead, so no model is silently replaced by flat ground.
+ */
+export function runBudgets(job: BudgetJob, elevation: ElevationSource): Promise<Record<string, LinkBudget>> {
+  const grids = demGridsOf(elevation);
+  if (!grids && elevation !== FLAT_ELEVATION) {
+    try {
+      return Promise.resolve(computeBudgets({ ...job, opts: { ...job.opts, elevation } }));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+
+  const { elevation: _unused, ...opts } = job.opts;
+  const id = nextId++;
+  const msg: BudgetWorkerRequest = { id, job: { ...job, opts } };
+  if (elevation !== workerElevation) {
+    msg.grids = grids;
+    workerElevation = elevation;
+  }
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    try {
+      getWorker().postMessage(msg);
+    } catch (err) {
+      pending.delete(id);
+      workerElevation = null;
+      reject(err);
+    }
+  });
+}
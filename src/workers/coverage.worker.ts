@@ -0,0 +1,16 @@
+import { computeCoverageGrid } from '../utils/coverage';
+import { createGridElevationSource } from '../utils/terrain';
+import type { CoverageWorkerRequest, CoverageWorkerResponse } from './coverageClient';
+
+self.onmessage = (e: MessageEvent<CoverageWorkerRequest>) => {
+  const { id, job, grids } = e.data;
+  let msg: CoverageWorkerResponse;
+  try {
+    const elevation = grids ? createGridElevationSource('worker', grids) : undefined;
+    const result = computeCoverageGrid({ ...job, opts: { ...job.opts, elevation } });
+    msg = { id, result };
+  } catch (err) {
+    msg = { id, error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(msg, { transfer: 'result' in msg ? [msg.result.receivedDbm.buffer] : [] });
+};
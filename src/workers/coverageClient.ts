@@ -0,0 +1,74 @@
+import type { CoverageJob, CoverageResult } from '../utils/coverage';
+import { computeCoverageGrid } from '../utils/coverage';
+import type { ElevationSource, DemGrid } from '../utils/terrain';
+import { demGridsOf, FLAT_ELEVATION } from '../utils/terrain';
+
+export interface CoverageWorkerRequest {
+  id: number;
+  job: Omit<CoverageJob, 'opts'> & { opts: Omit<CoverageJob['opts'], 'elevation'> };
+  grids: DemGrid[] | null;
+}
+
+export type CoverageWorkerResponse =
+  | { id: number; result: CoverageResult }
+  | { id: number; error: string };
+
+let worker: Worker | null = null;
+let nextId = 1;
+const pending = new Map<number, { resolve: (r: CoverageResult) => void; reject: (e: Error) => void }>();
+
+/** A worker that fails to load or crashes takes its pending runs with it; the next run starts a fresh one */
+function resetWorker(message: string) {
+  worker?.terminate();
+  worker = null;
+  const failed = [...pending.values()];
+  pending.clear();
+  failed.forEach(p => p.reject(new Error(message)));
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL('./coverage.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<CoverageWorkerResponse>) => {
+    const p = pending.get(e.data.id);
+    if (!p) return;
+    pending.delete(e.data.id);
+    if ('result' in e.data) p.resolve(e.data.result);
+    else p.reject(new Error(e.data.error));
+  };
+  worker.onerror = (e: ErrorEvent) => {
+    e.preventDefault();
+    resetWorker(e.message ? `Täckningsberäkningen avbröts: ${e.message}` : 'Täckningsberäkningen kunde inte startas');
+  };
+  worker.onmessageerror = () => resetWorker('Täckningsberäkningens svar kunde inte läsas');
+  return worker;
+}
+
+/**
+ * Run a coverage computation off the main thread. Grid-backed elevation
+ * sources are copied to the worker; a source that cannot be copied is
+ * evaluated here on the main thread instead, as the budget engine does.
+ */
+export function runCoverage(job: CoverageJob, elevation: ElevationSource): Promise<CoverageResult> {
+  const grids = demGridsOf(elevation);
+  if (!grids && elevation !== FLAT_ELEVATION) {
+    try {
+      return Promise.resolve(computeCoverageGrid({ ...job, opts: { ...job.opts, elevation } }));
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
+
+  const { elevation: _unused, ...opts } = job.opts;
+  const id = nextId++;
+  const msg: CoverageWorkerRequest = { id, job: { ...job, opts }, grids };
+  return new Promise((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    try {
+      getWorker().postMessage(msg);
+    } catch (err) {
+      pending.delete(id);
+      reject(err);
+    }
+  });
+}